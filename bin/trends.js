@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI without a build step. dotenv's banner would end up on stdout,
+// which is reserved for the file paths the stages pass to each other.
+process.env.DOTENV_CONFIG_QUIET ??= 'true';
+require('tsx/cjs');
+const { main } = require('../src/cli.tsx');
+
+main().then(code => {
+  process.exitCode = code;
+});
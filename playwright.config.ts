@@ -34,18 +34,27 @@ export default defineConfig({
 
   /* Configure projects for major browsers */
   projects: [
+    /* Tests of the pipeline modules: no browser or network, run with `npm test` */
+    {
+      name: 'unit',
+      testDir: './tests/unit',
+    },
+
     {
       name: 'chromium',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Chrome'] },
     },
 
     {
       name: 'firefox',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Firefox'] },
     },
 
     {
       name: 'webkit',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Safari'] },
     },
 
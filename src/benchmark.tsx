@@ -0,0 +1,550 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { parse as parseYaml } from 'yaml';
+import * as dotenv from 'dotenv';
+import { CleanedTrendData, normalizeTrendMetrics } from './data-cleaner';
+import { DomainConfigError, DomainOfInterest, domainPath, loadDomainsConfig } from './domain-config';
+import { EvaluationResult, NO_EVALUATION_REASONING, PROMPT_VERSION, TopicEvaluator, UNCLASSIFIED } from './evaluator';
+import { LLMProvider, LLMProviderError, RecordedProvider, createProviderFromEnv } from './llm-provider';
+import { hashValue } from './llm-cache';
+
+// Load environment variables
+dotenv.config();
+
+const DEFAULT_DATASET_PATH = path.join('benchmark', 'golden.yaml');
+
+// One labelled trend of the golden dataset
+interface GoldenCase {
+  trend: CleanedTrendData;
+  expected: string[];              // domains it belongs to, most specific first; empty when none should match
+}
+
+interface GoldenDataset {
+  name: string;
+  version: number;                 // bumped whenever a case is added, removed or relabelled
+  source: string;
+  domainsPath: string | null;      // taxonomy the labels refer to, relative paths resolved against the dataset
+  cases: GoldenCase[];
+}
+
+class BenchmarkDatasetError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid golden dataset ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'BenchmarkDatasetError';
+  }
+}
+
+// What the classifier made of one case
+interface CasePrediction {
+  trend: string;
+  expected: string[];              // the labelled domains and every domain above them
+  predicted: string[];             // every label the result got, including rolled-up parents
+  classification: string;
+  confidence: number;
+  topDomain: string | null;        // the domain `confidence` is about: the classification, else the best scored domain (if any scored)
+  exact: boolean;                  // predicted and expected labels are the same set
+  error: string | null;            // set when the trend couldn't be evaluated or its answer was made up; such cases aren't scored
+}
+
+interface DomainMetrics {
+  domain: string;
+  support: number;                 // cases labelled with the domain
+  predicted: number;               // cases the classifier put in it
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+interface AverageMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+// Cases whose confidence falls in [from, to)
+interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;                // share of them whose top domain is one of the expected labels
+}
+
+interface BenchmarkReport {
+  dataset: { name: string; version: number; hash: string };
+  config: { domains: string; provider: string; model: string; promptVersion: string };
+  createdAt: string;
+  cases: CasePrediction[];
+  failed: number;
+  exactMatch: number;              // share of cases with exactly the expected labels
+  domains: DomainMetrics[];
+  micro: AverageMetrics;
+  macro: AverageMetrics;
+  // Rows are the first expected label, columns the classification
+  confusion: { labels: string[]; matrix: number[][] };
+  calibration: { bins: CalibrationBin[]; expectedCalibrationError: number };
+}
+
+interface BenchmarkDiff {
+  comparable: boolean;             // false when the reports measured different dataset versions
+  domains: { domain: string; baseline: number | null; candidate: number | null; delta: number }[];
+  micro: { baseline: number; candidate: number; delta: number };
+  macro: { baseline: number; candidate: number; delta: number };
+  fixed: string[];                 // cases only the candidate labels exactly right
+  broken: string[];                // cases only the baseline labels exactly right
+}
+
+interface BenchmarkOptions {
+  provider: LLMProvider;
+  domains: DomainOfInterest[];
+  domainsSource: string;           // recorded in the report, so runs can be told apart
+  batchSize?: number;              // trends per request, defaults to 10; a recording only replays with the same size
+}
+
+const CASE_KEYS = ['trendName', 'searchVolume', 'timeAgo', 'growthPercentage', 'relatedSearches', 'expected'];
+const CALIBRATION_BINS = 5;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readStrings(value: unknown, field: string, issues: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    issues.push(`${field}: must be a list of non-empty strings`);
+    return [];
+  }
+  return value.map(item => item.trim());
+}
+
+/**
+ * Validates a parsed golden dataset, collecting every problem like the domains config does.
+ */
+function validateGoldenDataset(document: unknown, source: string): GoldenDataset {
+  if (!isRecord(document) || !Array.isArray(document.cases) || document.cases.length === 0) {
+    throw new BenchmarkDatasetError(source, ['top level must be a mapping with a non-empty "cases" list']);
+  }
+  const issues: string[] = [];
+  if (typeof document.name !== 'string' || !document.name.trim()) {
+    issues.push('name: is required');
+  }
+  if (!Number.isInteger(document.version) || (document.version as number) < 1) {
+    issues.push('version: must be a whole number of 1 or more');
+  }
+  if (document.domains !== undefined && typeof document.domains !== 'string') {
+    issues.push('domains: must be the path of a domains config');
+  }
+
+  // Every case is scored as if it was scraped now, so its age stays the same between runs
+  const scrapedAt = new Date();
+  const seen = new Set<string>();
+  const cases = document.cases.map((value, index): GoldenCase | null => {
+    const field = `cases[${index}]`;
+    if (!isRecord(value)) {
+      issues.push(`${field}: must be a mapping`);
+      return null;
+    }
+    Object.keys(value).filter(key => !CASE_KEYS.includes(key)).forEach(key => {
+      issues.push(`${field}.${key}: unknown field (expected one of ${CASE_KEYS.join(', ')})`);
+    });
+    const trendName = typeof value.trendName === 'string' ? value.trendName.trim() : '';
+    if (!trendName) {
+      issues.push(`${field}.trendName: is required`);
+    } else if (seen.has(trendName.toLowerCase())) {
+      issues.push(`${field}.trendName: duplicate case "${trendName}"`);
+    }
+    seen.add(trendName.toLowerCase());
+    const label = trendName ? `${field} (${trendName})` : field;
+    if (!Array.isArray(value.expected)) {
+      issues.push(`${label}.expected: is required, use [] for trends no domain should match`);
+    }
+
+    const metrics = {
+      searchVolume: String(value.searchVolume ?? ''),
+      timeAgo: String(value.timeAgo ?? ''),
+      growthPercentage: String(value.growthPercentage ?? '')
+    };
+    return {
+      trend: {
+        trendName,
+        ...metrics,
+        status: 'unknown',
+        relatedSearches: readStrings(value.relatedSearches, `${label}.relatedSearches`, issues),
+        exploreLink: '',
+        normalized: normalizeTrendMetrics(metrics, scrapedAt)
+      },
+      expected: readStrings(value.expected, `${label}.expected`, issues)
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new BenchmarkDatasetError(source, issues);
+  }
+  return {
+    name: (document.name as string).trim(),
+    version: document.version as number,
+    source,
+    domainsPath: typeof document.domains === 'string' ? path.resolve(path.dirname(source), document.domains) : null,
+    cases: cases as GoldenCase[]
+  };
+}
+
+// Reads a .yaml/.yml or .json golden dataset
+function loadGoldenDataset(filePath: string): GoldenDataset {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new BenchmarkDatasetError(filePath, [(error as Error).message]);
+  }
+  return validateGoldenDataset(document, filePath);
+}
+
+// Same cases, same labels; the scrape-relative fields don't count
+function datasetHash(dataset: GoldenDataset): string {
+  return hashValue(dataset.cases.map(({ trend, expected }) => ({
+    trend: trend.trendName, searchVolume: trend.searchVolume, growth: trend.growthPercentage, related: trend.relatedSearches, expected
+  }))).slice(0, 16);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function f1(precision: number, recall: number): number {
+  return precision + recall === 0 ? 0 : 2 * precision * recall / (precision + recall);
+}
+
+/**
+ * Why a result isn't a real answer of the model, or null when it is: domains it never scored
+ * (filled in as 0 by the evaluator) or an answer still invalid after the repairs, which the
+ * evaluator coerced into shape. Scoring either would measure the placeholders, not the model.
+ */
+function unansweredReason(result: EvaluationResult): string | null {
+  const missing = result.domainEvaluations.filter(evaluation => evaluation.reasoning === NO_EVALUATION_REASONING);
+  if (missing.length > 0) {
+    return `no answer for ${missing.length === result.domainEvaluations.length ? 'any domain' : missing.map(evaluation => evaluation.domain).join(', ')}`;
+  }
+  const unresolved = result.validationIssues.filter(issue => !issue.resolved);
+  if (unresolved.length > 0) {
+    return `answer still invalid after repairs (${unresolved[0].path}: ${unresolved[0].message}${unresolved.length > 1 ? `, and ${unresolved.length - 1} more` : ''})`;
+  }
+  return null;
+}
+
+function toPrediction(goldenCase: GoldenCase, result: EvaluationResult, domains: DomainOfInterest[]): CasePrediction {
+  const expected = [...new Set(goldenCase.expected.flatMap(domain => domainPath(domains, domain)))];
+  const predicted = result.labels.map(label => label.domain);
+  const error = unansweredReason(result);
+  const best = result.domainEvaluations.reduce<EvaluationResult['domainEvaluations'][number] | null>(
+    (top, evaluation) => !top || evaluation.relevance > top.relevance ? evaluation : top, null);
+  return {
+    trend: result.trend,
+    expected,
+    predicted,
+    classification: result.classification,
+    confidence: result.confidence,
+    topDomain: result.classification !== UNCLASSIFIED ? result.classification : best && best.relevance > 0 ? best.domain : null,
+    exact: error === null && expected.length === predicted.length && expected.every(domain => predicted.includes(domain)),
+    error
+  };
+}
+
+/**
+ * Per-domain precision, recall and F1 over the labels (a trend counts for every domain it's
+ * labelled with), their micro and macro averages, a confusion matrix of the primary label and
+ * how well `confidence` predicts the top domain being right.
+ */
+function scoreBenchmark(dataset: GoldenDataset, cases: CasePrediction[], config: BenchmarkReport['config']): BenchmarkReport {
+  const scored = cases.filter(prediction => prediction.error === null);
+  const domainNames = [...new Set([...scored.flatMap(prediction => [...prediction.expected, ...prediction.predicted])])].sort();
+
+  const domains = domainNames.map(domain => {
+    const support = scored.filter(prediction => prediction.expected.includes(domain)).length;
+    const predicted = scored.filter(prediction => prediction.predicted.includes(domain)).length;
+    const truePositives = scored.filter(prediction => prediction.expected.includes(domain) && prediction.predicted.includes(domain)).length;
+    const precision = predicted === 0 ? 0 : truePositives / predicted;
+    const recall = support === 0 ? 0 : truePositives / support;
+    return { domain, support, predicted, truePositives, precision: round(precision), recall: round(recall), f1: round(f1(precision, recall)) };
+  });
+
+  const totals = domains.reduce((sum, metrics) => ({
+    support: sum.support + metrics.support, predicted: sum.predicted + metrics.predicted, truePositives: sum.truePositives + metrics.truePositives
+  }), { support: 0, predicted: 0, truePositives: 0 });
+  const microPrecision = totals.predicted === 0 ? 0 : totals.truePositives / totals.predicted;
+  const microRecall = totals.support === 0 ? 0 : totals.truePositives / totals.support;
+  // Macro averages only count domains the dataset has cases for
+  const labelled = domains.filter(metrics => metrics.support > 0);
+  const average = (pick: (metrics: DomainMetrics) => number) =>
+    labelled.length === 0 ? 0 : round(labelled.reduce((sum, metrics) => sum + pick(metrics), 0) / labelled.length);
+
+  // Rows: the first label of each case as written in the dataset; columns: the classification
+  const goldByTrend = new Map(dataset.cases.map(goldenCase => [goldenCase.trend.trendName, goldenCase.expected[0] ?? UNCLASSIFIED]));
+  const confusionLabels = [...new Set([...scored.map(prediction => goldByTrend.get(prediction.trend) ?? UNCLASSIFIED), ...scored.map(prediction => prediction.classification)])]
+    .sort((a, b) => (a === UNCLASSIFIED ? 1 : 0) - (b === UNCLASSIFIED ? 1 : 0) || a.localeCompare(b));
+  const matrix = confusionLabels.map(() => confusionLabels.map(() => 0));
+  scored.forEach(prediction => {
+    matrix[confusionLabels.indexOf(goldByTrend.get(prediction.trend) ?? UNCLASSIFIED)][confusionLabels.indexOf(prediction.classification)]++;
+  });
+
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, index) => {
+    const from = index / CALIBRATION_BINS;
+    const to = (index + 1) / CALIBRATION_BINS;
+    const inBin = scored.filter(prediction => prediction.confidence >= from && (prediction.confidence < to || (index === CALIBRATION_BINS - 1 && prediction.confidence <= to)));
+    const correct = inBin.filter(prediction => prediction.topDomain !== null && prediction.expected.includes(prediction.topDomain)).length;
+    return {
+      from: round(from),
+      to: round(to),
+      count: inBin.length,
+      meanConfidence: inBin.length === 0 ? 0 : round(inBin.reduce((sum, prediction) => sum + prediction.confidence, 0) / inBin.length),
+      accuracy: inBin.length === 0 ? 0 : round(correct / inBin.length)
+    };
+  });
+  const expectedCalibrationError = scored.length === 0 ? 0
+    : round(bins.reduce((sum, bin) => sum + (bin.count / scored.length) * Math.abs(bin.accuracy - bin.meanConfidence), 0));
+
+  return {
+    dataset: { name: dataset.name, version: dataset.version, hash: datasetHash(dataset) },
+    config,
+    createdAt: new Date().toISOString(),
+    cases,
+    failed: cases.length - scored.length,
+    exactMatch: scored.length === 0 ? 0 : round(scored.filter(prediction => prediction.exact).length / scored.length),
+    domains,
+    micro: { precision: round(microPrecision), recall: round(microRecall), f1: round(f1(microPrecision, microRecall)) },
+    macro: { precision: average(metrics => metrics.precision), recall: average(metrics => metrics.recall), f1: average(metrics => metrics.f1) },
+    confusion: { labels: confusionLabels, matrix },
+    calibration: { bins, expectedCalibrationError }
+  };
+}
+
+/**
+ * Classifies every case of the dataset and scores the answers. Batches run one after the other
+ * without the LLM cache, so each run asks the provider (or its recording) again. A batch that
+ * fails leaves its cases unscored instead of stopping the benchmark.
+ */
+async function runBenchmark(dataset: GoldenDataset, options: BenchmarkOptions): Promise<BenchmarkReport> {
+  const evaluator = new TopicEvaluator(options.provider, { domains: options.domains });
+  const batchSize = options.batchSize ?? 10;
+  const cases: CasePrediction[] = [];
+
+  const unknown = [...new Set(dataset.cases.flatMap(goldenCase => goldenCase.expected))]
+    .filter(label => !options.domains.some(domain => domain.name === label));
+  if (unknown.length > 0) {
+    console.warn(`⚠️ ${options.domainsSource} has no ${unknown.join(', ')}; cases labelled with them can't be right`);
+  }
+
+  for (let start = 0; start < dataset.cases.length; start += batchSize) {
+    const batch = dataset.cases.slice(start, start + batchSize);
+    try {
+      const results = await evaluator.evaluateBatch(batch.map(goldenCase => goldenCase.trend));
+      batch.forEach((goldenCase, index) => cases.push(toPrediction(goldenCase, results[index], options.domains)));
+    } catch (error) {
+      console.error(`❌ Batch of ${batch.length} cases failed: ${(error as Error).message}`);
+      batch.forEach(goldenCase => cases.push({
+        trend: goldenCase.trend.trendName,
+        expected: goldenCase.expected,
+        predicted: [],
+        classification: UNCLASSIFIED,
+        confidence: 0,
+        topDomain: null,
+        exact: false,
+        error: (error as Error).message
+      }));
+    }
+  }
+
+  return scoreBenchmark(dataset, cases, {
+    domains: options.domainsSource,
+    provider: options.provider.name,
+    model: options.provider.model,
+    promptVersion: PROMPT_VERSION
+  });
+}
+
+// F1 per domain and on average, with the cases one configuration gets right and the other doesn't
+function diffReports(baseline: BenchmarkReport, candidate: BenchmarkReport): BenchmarkDiff {
+  const domainNames = [...new Set([...baseline.domains, ...candidate.domains].map(metrics => metrics.domain))].sort();
+  const exactIn = (report: BenchmarkReport) => new Set(report.cases.filter(prediction => prediction.exact).map(prediction => prediction.trend));
+  const baselineExact = exactIn(baseline);
+  const candidateExact = exactIn(candidate);
+  const trends = [...new Set([...baseline.cases, ...candidate.cases].map(prediction => prediction.trend))];
+  const change = (from: number, to: number) => ({ baseline: from, candidate: to, delta: round(to - from) });
+
+  return {
+    comparable: baseline.dataset.hash === candidate.dataset.hash,
+    domains: domainNames.map(domain => {
+      const before = baseline.domains.find(metrics => metrics.domain === domain)?.f1 ?? null;
+      const after = candidate.domains.find(metrics => metrics.domain === domain)?.f1 ?? null;
+      return { domain, baseline: before, candidate: after, delta: round((after ?? 0) - (before ?? 0)) };
+    }),
+    micro: change(baseline.micro.f1, candidate.micro.f1),
+    macro: change(baseline.macro.f1, candidate.macro.f1),
+    fixed: trends.filter(trend => candidateExact.has(trend) && !baselineExact.has(trend)),
+    broken: trends.filter(trend => baselineExact.has(trend) && !candidateExact.has(trend))
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(6);
+}
+
+function formatReport(report: BenchmarkReport): string {
+  const width = Math.max(...[...report.domains.map(metrics => metrics.domain), ...report.confusion.labels, 'micro average'].map(label => label.length));
+  const lines = [
+    `📏 ${report.dataset.name} v${report.dataset.version} (${report.cases.length} cases${report.failed > 0 ? `, ${report.failed} failed` : ''}) with ${report.config.provider}/${report.config.model}, ${report.config.domains}`,
+    '',
+    `${'domain'.padEnd(width)}  precision  recall      f1  support`,
+    ...report.domains.map(metrics =>
+      `${metrics.domain.padEnd(width)}     ${percent(metrics.precision)}  ${percent(metrics.recall)}  ${percent(metrics.f1)}  ${String(metrics.support).padStart(7)}`),
+    `${'micro average'.padEnd(width)}     ${percent(report.micro.precision)}  ${percent(report.micro.recall)}  ${percent(report.micro.f1)}`,
+    `${'macro average'.padEnd(width)}     ${percent(report.macro.precision)}  ${percent(report.macro.recall)}  ${percent(report.macro.f1)}`,
+    `Exact label sets: ${percent(report.exactMatch).trim()}`,
+    '',
+    '🔀 Confusion matrix (rows: expected, columns: classification)',
+    ...report.confusion.labels.map((label, row) =>
+      `   [${row + 1}] ${label.padEnd(width)} ${report.confusion.matrix[row].map(count => String(count || '.').padStart(4)).join('')}`),
+    `   ${' '.repeat(width + 4)} ${report.confusion.labels.map((_, column) => `[${column + 1}]`.padStart(4)).join('')}`,
+    '',
+    `🎯 Calibration of confidence (expected calibration error ${report.calibration.expectedCalibrationError.toFixed(3)})`,
+    ...report.calibration.bins.map(bin =>
+      `   ${bin.from.toFixed(1)}-${bin.to.toFixed(1)}: ${String(bin.count).padStart(3)} cases, mean confidence ${percent(bin.meanConfidence)}, top domain right ${percent(bin.accuracy)}`)
+  ];
+  const wrong = report.cases.filter(prediction => !prediction.exact);
+  if (wrong.length > 0) {
+    lines.push('', '❌ Cases with other labels than expected:');
+    wrong.forEach(prediction => {
+      lines.push(`   ${prediction.trend}: expected ${prediction.expected.join(', ') || 'none'}, got ${prediction.error ? `error (${prediction.error})` : prediction.predicted.join(', ') || 'none'}`);
+    });
+  }
+  return lines.join('\n');
+}
+
+function formatDiff(diff: BenchmarkDiff): string {
+  const signed = (delta: number) => `${delta > 0 ? '+' : ''}${(delta * 100).toFixed(1)}`;
+  const score = (value: number | null) => value === null ? '   n/a' : percent(value);
+  const width = Math.max(...diff.domains.map(entry => entry.domain.length), 'micro average'.length);
+  const lines = [
+    '⚖️ F1, baseline → candidate',
+    ...(diff.comparable ? [] : ['⚠️ The reports were run on different datasets; the comparison is only indicative']),
+    ...diff.domains.map(entry => `   ${entry.domain.padEnd(width)} ${score(entry.baseline)} → ${score(entry.candidate)} (${signed(entry.delta)})`),
+    `   ${'micro average'.padEnd(width)} ${percent(diff.micro.baseline)} → ${percent(diff.micro.candidate)} (${signed(diff.micro.delta)})`,
+    `   ${'macro average'.padEnd(width)} ${percent(diff.macro.baseline)} → ${percent(diff.macro.candidate)} (${signed(diff.macro.delta)})`
+  ];
+  if (diff.fixed.length > 0) {
+    lines.push(`✅ Now labelled right: ${diff.fixed.join(', ')}`);
+  }
+  if (diff.broken.length > 0) {
+    lines.push(`❌ No longer labelled right: ${diff.broken.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function readReport(filePath: string): BenchmarkReport {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as BenchmarkReport;
+}
+
+// Usage: benchmark [benchmark/golden.yaml] [--config domains.yaml] [--replay recording.yaml | --record recording.yaml]
+//                  [--baseline benchmark_report.json] [--out benchmark_report.json] [--batch-size 10]
+//        benchmark diff <baseline_report.json> <candidate_report.json>
+// Offline with --replay, or with LLM_PROVIDER=mock
+if (require.main === module) {
+  const [command, ...rest] = process.argv.slice(2);
+
+  if (command === 'diff') {
+    if (rest.length !== 2) {
+      console.error('❌ Usage: benchmark diff <baseline_report.json> <candidate_report.json>');
+      process.exit(1);
+    }
+    console.log(formatDiff(diffReports(readReport(rest[0]), readReport(rest[1]))));
+  } else {
+    const { values, positionals } = parseArgs({
+      args: process.argv.slice(2),
+      options: {
+        config: { type: 'string' },
+        replay: { type: 'string' },
+        record: { type: 'string' },
+        baseline: { type: 'string' },
+        out: { type: 'string' },
+        'batch-size': { type: 'string', default: '10' }
+      },
+      allowPositionals: true
+    });
+
+    (async () => {
+      let recorded: RecordedProvider | null = null;
+      try {
+        const dataset = loadGoldenDataset(positionals[0] ?? DEFAULT_DATASET_PATH);
+        const domainsSource = values.config ?? dataset.domainsPath;
+        if (!domainsSource) {
+          throw new BenchmarkDatasetError(dataset.source, ['domains: no domains config given; set it in the dataset or pass --config']);
+        }
+        const domains = loadDomainsConfig(domainsSource);
+
+        // Per-domain model overrides are not used: every domain is scored by the one provider
+        let provider: LLMProvider;
+        if (values.replay) {
+          provider = recorded = new RecordedProvider(values.replay);
+        } else if (values.record) {
+          provider = recorded = new RecordedProvider(values.record, createProviderFromEnv());
+        } else {
+          provider = createProviderFromEnv();
+        }
+
+        const report = await runBenchmark(dataset, {
+          provider,
+          domains,
+          domainsSource: path.relative('.', domainsSource),
+          batchSize: Number(values['batch-size']) || 10
+        });
+        console.log(formatReport(report));
+
+        const outPath = values.out ?? `benchmark_report_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+        console.log(`\n💾 Report saved to: ${outPath}`);
+        if (recorded?.stats.recorded) {
+          recorded.save();
+          console.log(`🎙️ Recorded ${recorded.stats.recorded} responses to ${recorded.recordingPath}`);
+        }
+        if (values.baseline) {
+          console.log(`\n${formatDiff(diffReports(readReport(values.baseline), report))}`);
+        }
+        process.exitCode = report.failed > 0 ? 1 : 0;
+      } catch (error) {
+        if (error instanceof BenchmarkDatasetError || error instanceof DomainConfigError || error instanceof LLMProviderError) {
+          console.error(`❌ ${error.message}`);
+        } else {
+          console.error('❌ Benchmark failed:', error);
+        }
+        recorded?.save();
+        process.exitCode = 1;
+      }
+    })();
+  }
+}
+
+export {
+  DEFAULT_DATASET_PATH,
+  GoldenCase,
+  GoldenDataset,
+  BenchmarkDatasetError,
+  CasePrediction,
+  DomainMetrics,
+  AverageMetrics,
+  CalibrationBin,
+  BenchmarkReport,
+  BenchmarkDiff,
+  BenchmarkOptions,
+  validateGoldenDataset,
+  loadGoldenDataset,
+  scoreBenchmark,
+  runBenchmark,
+  diffReports,
+  formatReport,
+  formatDiff
+};
@@ -0,0 +1,559 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { parse } from 'node-html-parser';
+import { capture, replay, withBrowserPage } from './scraper';
+import { buildTrendsUrl, SCRAPE_ARG_OPTIONS, toScrapeRequest } from './trends-query';
+import { TrendStore } from './trend-store';
+import { extractTrends } from './trend-extractor';
+import { loadHtmlSnapshot } from './html-snapshot';
+import { EvaluationResult, evaluateTopics } from './evaluator';
+import { parseCleanedDataCSV } from './data-cleaner';
+import { DomainConfigError, resolveDomains } from './domain-config';
+import { LLMProvider, createProviderFromEnv } from './llm-provider';
+import { renderDigest, writeDigest } from './digest';
+import { deliverDigest } from './delivery';
+import { DeliveryConfigError, resolveDeliveryConfig } from './delivery-config';
+import { runPipeline } from './pipeline';
+import { resolveScheduleConfig } from './schedule-config';
+import { Scheduler, SchedulerOptions, formatScheduledRun, runScheduler } from './scheduler';
+import { formatFeedback, loadFeedbackFile, recordFeedback, suggestTuning, validateFeedbackFile } from './feedback';
+
+// Exit codes: 0 success, 1 the command ran but failed, 2 bad usage
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Flags every subcommand accepts
+const SHARED_OPTIONS = {
+  geo: SCRAPE_ARG_OPTIONS.geo,
+  db: SCRAPE_ARG_OPTIONS.db,
+  'out-dir': { type: 'string' },
+  config: { type: 'string' },
+  model: { type: 'string' },
+  'dry-run': { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+const SHARED_HELP = `
+Shared options:
+  --geo <codes>        country codes, comma separated (default US)
+  --db <file>          trend history database (default TRENDS_DB or trends.db)
+  --out-dir <dir>      directory output files are written to (default: current directory)
+  --config <file>      domains config (default DOMAINS_CONFIG or domains.yaml)
+  --model <name>       model override for the selected LLM_PROVIDER
+  --dry-run            show what would happen without side effects
+  -h, --help           show help`;
+
+const COMMANDS: Record<string, { summary: string; usage: string; options: string }> = {
+  scrape: {
+    summary: 'capture Google Trends pages; prints the saved .html paths',
+    usage: 'scrape [--window 24h] [--category technology] [--active-only] [--headful]',
+    options: `  --window <windows>   4h, 24h, 48h or 7d, comma separated (default 24h)
+  --category <names>   category names or ids, comma separated (default all)
+  --active-only        only keep trends that are still active
+  --headful            show the browser window (default headless, or SCRAPE_HEADFUL=1)
+  --dry-run            print the URLs instead of opening them`
+  },
+  clean: {
+    summary: 'parse saved pages into CSVs and record them in the trend store; prints the .csv paths',
+    usage: 'clean [page.html ...]',
+    options: `  Pages come from the arguments or stdin (one path per line, as printed by scrape).
+  --window, --category and --active-only describe pages saved without a snapshot header.
+  --dry-run            print the number of trends per page without writing anything`
+  },
+  evaluate: {
+    summary: 'classify the trends of CSV snapshots; prints the results .json paths',
+    usage: 'evaluate [snapshot.csv ...]',
+    options: `  Snapshots come from the arguments or stdin: paths (one per line, as printed by clean) or CSV content.
+  --dry-run            print how many trends would be evaluated without calling the model`
+  },
+  digest: {
+    summary: 'render Markdown and HTML digests of evaluation results; prints their paths',
+    usage: 'digest [trend_evaluations.json ...]',
+    options: `  Results come from the arguments or stdin: paths (as printed by evaluate) or the JSON itself.
+  --include-unclassified  also list trends no domain matched
+  --templates <dir>    custom digest templates
+  --print <md|html>    write the digest to stdout instead of files
+  --dry-run            same as --print md`
+  },
+  deliver: {
+    summary: 'send evaluation results to the configured delivery targets',
+    usage: 'deliver [trend_evaluations.json ...] [--delivery delivery.yaml] [--team <name>]',
+    options: `  Results come from the arguments or stdin, like digest.
+  --delivery <file>    delivery config (default DELIVERY_CONFIG or delivery.yaml)
+  --team <names>       only deliver to these teams
+  --dry-run            log deliveries instead of sending them`
+  },
+  schedule: {
+    summary: 'run the pipeline on the cron schedules of schedule.yaml until stopped; "schedule status" lists past runs',
+    usage: 'schedule [--schedule schedule.yaml] [--once <job>] | trends schedule status [--job <name>] [--limit 20]',
+    options: `  --schedule <file>    schedule config (default SCHEDULE_CONFIG or schedule.yaml)
+  --once <job>         run one job now instead of waiting for its schedule
+  --delivery <file>    delivery config (default DELIVERY_CONFIG or delivery.yaml)
+  --job <name>         status: only this job's runs
+  --limit <n>          status: number of runs to list (default 20)
+  SIGTERM or Ctrl+C stops after the run in progress; a second one stops right away.`
+  },
+  feedback: {
+    summary: 'mark digest items as relevant or not, list the judgements and suggest domain config changes from them',
+    usage: 'feedback mark <trend> <relevant|irrelevant> [--domain <name>] [--note <text>] | import <feedback.yaml> | list | suggest',
+    options: `  mark                 judge one trend, for --domain or else the domain it was last classified in
+  import <file>        record every judgement of a YAML/JSON list of {trend, verdict, domain, note}
+  list                 print the judgements, newest first (--domain to filter)
+  suggest              thresholds, keywords and examples the judgements argue for
+  Judgements are stored in the trend database and shown to the model as examples in later evaluations.`
+  },
+  run: {
+    summary: 'run scrape → clean → evaluate → research → digest → deliver as one checkpointed pipeline',
+    usage: 'run [--window 24h] [--replay page.html] [--csv snapshot.csv] [--resume <run id>]',
+    options: `  --window, --category, --active-only, --headful as for scrape
+  --replay <file>      start from saved pages instead of scraping
+  --csv <file>         start from CSV snapshots instead of scraping
+  --resume <run id>    continue a failed run from its last completed step
+  --checkpoints <file> checkpoint file (default pipeline-checkpoints.json)
+  --include-unclassified  also list trends no domain matched in the digest
+  --delivery <file>    delivery config (default DELIVERY_CONFIG or delivery.yaml)
+  --dry-run            log deliveries instead of sending them`
+  }
+};
+
+function usage(command?: string): string {
+  if (command && COMMANDS[command]) {
+    const { summary, usage: line, options } = COMMANDS[command];
+    return `Usage: trends ${line}\n\n${summary}\n\n${options}\n${SHARED_HELP}\n`;
+  }
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length)) + 2;
+  return `Usage: trends <command> [options]
+
+Commands:
+${Object.entries(COMMANDS).map(([name, { summary }]) => `  ${name.padEnd(width)}${summary}`).join('\n')}
+
+Each command prints the files it wrote, one per line, so stages can be piped:
+  trends scrape --geo US | trends clean | trends evaluate | trends digest
+${SHARED_HELP}
+
+Run "trends <command> --help" for the options of a command.
+`;
+}
+
+// stdin, when something is piped in (never waits on an interactive terminal)
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    return '';
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Input files from the arguments, else from stdin: either paths, one per line, or the content
+ * itself, which is saved to a file in the output directory first.
+ */
+async function resolveInputs(positionals: string[], extension: string, outputDir: string): Promise<string[]> {
+  if (positionals.length > 0) {
+    const missing = positionals.filter(file => !fs.existsSync(file));
+    if (missing.length > 0) {
+      throw new UsageError(`No such file: ${missing.join(', ')}`);
+    }
+    return positionals;
+  }
+
+  const input = (await readStdin()).trim();
+  if (!input) {
+    throw new UsageError(`No input: pass ${extension} files or pipe them in`);
+  }
+  const lines = input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.every(line => fs.existsSync(line))) {
+    return lines;
+  }
+  const file = path.join(outputDir, `stdin_${timestamp()}${extension}`);
+  fs.writeFileSync(file, `${input}\n`, 'utf8');
+  return [file];
+}
+
+function readResults(files: string[]): EvaluationResult[] {
+  return files.flatMap(file => {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new UsageError(`${file} is not a list of evaluation results`);
+    }
+    return parsed as EvaluationResult[];
+  });
+}
+
+// Results go to stdout; everything the stages log goes to stderr so it doesn't mix with them
+function emit(lines: string[]): void {
+  lines.forEach(line => process.stdout.write(`${line}\n`));
+}
+
+interface CommandContext {
+  argv: string[];
+  outputDir: string;
+  provider: () => LLMProvider;
+}
+
+async function scrapeCommand({ argv, outputDir }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...SHARED_OPTIONS,
+      window: SCRAPE_ARG_OPTIONS.window,
+      category: SCRAPE_ARG_OPTIONS.category,
+      'active-only': SCRAPE_ARG_OPTIONS['active-only'],
+      headful: SCRAPE_ARG_OPTIONS.headful
+    },
+    allowPositionals: true
+  });
+  if (positionals.length > 0) {
+    throw new UsageError(`scrape takes no arguments, got ${positionals.join(' ')}`);
+  }
+  const { snapshots, headless } = toScrapeRequest(values);
+  if (values['dry-run']) {
+    emit(snapshots.map(buildTrendsUrl));
+    return EXIT_OK;
+  }
+  const files = await withBrowserPage(async page => {
+    const saved: string[] = [];
+    for (const snapshot of snapshots) {
+      saved.push(await capture(page, snapshot, outputDir));
+    }
+    return saved;
+  }, headless);
+  emit(files);
+  return EXIT_OK;
+}
+
+async function cleanCommand({ argv, outputDir }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...SHARED_OPTIONS,
+      window: SCRAPE_ARG_OPTIONS.window,
+      category: SCRAPE_ARG_OPTIONS.category,
+      'active-only': SCRAPE_ARG_OPTIONS['active-only']
+    },
+    allowPositionals: true
+  });
+  const request = toScrapeRequest(values);
+  const pages = await resolveInputs(positionals, '.html', outputDir);
+
+  if (values['dry-run']) {
+    pages.forEach(page => {
+      const snapshot = loadHtmlSnapshot(page);
+      const metadata = snapshot.metadata ?? { ...request.snapshots[0], scrapedAt: new Date().toISOString() };
+      console.log(`${page}: ${extractTrends(parse(snapshot.html), metadata).length} trends`);
+    });
+    return EXIT_OK;
+  }
+
+  // CSVs go next to their pages unless --out-dir is given
+  const store = await TrendStore.open(request.storePath);
+  try {
+    emit(pages.map(page => replay(page, request.snapshots[0], store, values['out-dir'] ? outputDir : undefined)));
+  } finally {
+    store.close();
+  }
+  return EXIT_OK;
+}
+
+async function evaluateCommand({ argv, outputDir, provider }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({ args: argv, options: SHARED_OPTIONS, allowPositionals: true });
+  const snapshots = await resolveInputs(positionals, '.csv', outputDir);
+  const domains = resolveDomains(values.config);
+
+  if (values['dry-run']) {
+    snapshots.forEach(file => {
+      const trends = parseCleanedDataCSV(fs.readFileSync(file, 'utf8')).length;
+      console.log(`${file}: ${trends} trends against ${domains.length} domains`);
+    });
+    return EXIT_OK;
+  }
+
+  let status = EXIT_OK;
+  for (const file of snapshots) {
+    const run = await evaluateTopics(file, { provider: provider(), domains, storePath: toScrapeRequest(values).storePath, outputDir });
+    if (run.outputPath) {
+      emit([run.outputPath]);
+    }
+    if (!run.outputPath || run.failures.length > 0) {
+      status = EXIT_FAILURE;
+    }
+  }
+  return status;
+}
+
+async function digestCommand({ argv, outputDir }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...SHARED_OPTIONS,
+      'include-unclassified': { type: 'boolean', default: false },
+      templates: { type: 'string' },
+      print: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+  const print = values.print ?? (values['dry-run'] ? 'md' : undefined);
+  if (print !== undefined && print !== 'md' && print !== 'html') {
+    throw new UsageError(`--print must be md or html, got ${print}`);
+  }
+  const results = readResults(await resolveInputs(positionals, '.json', outputDir));
+  const options = { includeUnclassified: values['include-unclassified'], templateDir: values.templates ?? null };
+
+  if (print) {
+    const { markdown, html } = renderDigest(results, options);
+    process.stdout.write(print === 'md' ? markdown : html);
+    return EXIT_OK;
+  }
+  const { markdownPath, htmlPath } = writeDigest(results, path.join(outputDir, `trend_digest_${timestamp()}`), options);
+  emit([markdownPath, htmlPath]);
+  return EXIT_OK;
+}
+
+async function deliverCommand({ argv, outputDir }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...SHARED_OPTIONS,
+      delivery: { type: 'string' },
+      team: { type: 'string', multiple: true }
+    },
+    allowPositionals: true
+  });
+  const teams = resolveDeliveryConfig(values.delivery);
+  if (!teams) {
+    throw new UsageError('No delivery config: create delivery.yaml (see delivery.example.yaml), set DELIVERY_CONFIG or pass --delivery');
+  }
+  const selected = values.team ? teams.filter(team => values.team?.includes(team.name)) : teams;
+  if (selected.length === 0) {
+    throw new UsageError(`No team named ${values.team?.join(', ')} in the delivery config`);
+  }
+
+  const results = readResults(await resolveInputs(positionals, '.json', outputDir));
+  const reports = await deliverDigest(results, selected, { dryRun: values['dry-run'] });
+  return reports.some(report => report.status === 'failed') ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function runCommand({ argv, outputDir, provider }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...SHARED_OPTIONS,
+      window: SCRAPE_ARG_OPTIONS.window,
+      category: SCRAPE_ARG_OPTIONS.category,
+      'active-only': SCRAPE_ARG_OPTIONS['active-only'],
+      replay: SCRAPE_ARG_OPTIONS.replay,
+      headful: SCRAPE_ARG_OPTIONS.headful,
+      csv: { type: 'string', multiple: true },
+      resume: { type: 'string' },
+      checkpoints: { type: 'string' },
+      'include-unclassified': { type: 'boolean', default: false },
+      delivery: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+  if (positionals.length > 0) {
+    throw new UsageError(`run takes no arguments, got ${positionals.join(' ')}`);
+  }
+  const request = toScrapeRequest(values);
+  const threadId = values.resume ?? `run-${timestamp()}`;
+
+  console.log(`🚀 Pipeline run "${threadId}"`);
+  try {
+    const state = await runPipeline({
+      snapshots: request.snapshots,
+      storePath: request.storePath,
+      htmlFiles: request.replayFiles,
+      csvFiles: values.csv ?? []
+    }, threadId, {
+      resume: values.resume !== undefined,
+      checkpointPath: values.checkpoints,
+      provider: provider(),
+      domains: resolveDomains(values.config),
+      teams: resolveDeliveryConfig(values.delivery),
+      dryRun: values['dry-run'],
+      headless: request.headless,
+      outputDir,
+      digest: { includeUnclassified: values['include-unclassified'] }
+    });
+    emit(state.digestFiles ? [state.digestFiles.markdownPath, state.digestFiles.htmlPath] : []);
+    return state.deliveries.some(delivery => delivery.status === 'failed') ? EXIT_FAILURE : EXIT_OK;
+  } catch (error) {
+    if (error instanceof DomainConfigError || error instanceof DeliveryConfigError) {
+      throw error;
+    }
+    console.error(`❌ Pipeline failed: ${(error as Error).message}`);
+    console.error(`   Resume from the last completed step with: trends run --resume ${threadId}`);
+    return EXIT_FAILURE;
+  }
+}
+
+async function scheduleCommand({ argv, outputDir, provider }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...SHARED_OPTIONS,
+      schedule: { type: 'string' },
+      once: { type: 'string' },
+      job: { type: 'string' },
+      limit: { type: 'string', default: '20' },
+      delivery: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+  const { storePath } = toScrapeRequest(values);
+
+  if (positionals[0] === 'status' && positionals.length === 1) {
+    const store = await TrendStore.open(storePath);
+    try {
+      emit(store.getScheduledRuns(values.job, Number(values.limit) || 20).map(formatScheduledRun));
+    } finally {
+      store.close();
+    }
+    return EXIT_OK;
+  }
+  if (positionals.length > 0) {
+    throw new UsageError(`Unknown schedule argument ${positionals.join(' ')} (did you mean "schedule status"?)`);
+  }
+
+  const config = resolveScheduleConfig(values.schedule);
+  if (!config) {
+    throw new UsageError('No schedule: create schedule.yaml (see schedule.example.yaml), set SCHEDULE_CONFIG or pass --schedule');
+  }
+  const job = values.once ? config.jobs.find(candidate => candidate.name === values.once) : undefined;
+  if (values.once && !job) {
+    throw new UsageError(`No job named "${values.once}" in the schedule`);
+  }
+
+  const options: SchedulerOptions = {
+    storePath,
+    pipeline: {
+      provider: provider(),
+      domains: resolveDomains(values.config),
+      teams: resolveDeliveryConfig(values.delivery),
+      dryRun: values['dry-run'],
+      outputDir
+    }
+  };
+  if (job) {
+    return await new Scheduler(config, options).runJob(job) === 'succeeded' ? EXIT_OK : EXIT_FAILURE;
+  }
+  return runScheduler(config, options);
+}
+
+async function feedbackCommand({ argv }: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: { ...SHARED_OPTIONS, domain: { type: 'string' }, note: { type: 'string' } },
+    allowPositionals: true
+  });
+  const { storePath } = toScrapeRequest(values);
+  const [action, ...args] = positionals;
+  if (!['mark', 'import', 'list', 'suggest'].includes(action)) {
+    throw new UsageError(action ? `Unknown feedback action "${action}"` : 'Name a feedback action');
+  }
+  if ((action === 'mark' && args.length !== 2) || (action === 'import' && args.length !== 1)) {
+    throw new UsageError(action === 'mark' ? 'feedback mark needs a trend and a verdict' : 'feedback import needs one file');
+  }
+
+  const domains = resolveDomains(values.config);
+  const store = await TrendStore.open(storePath);
+  try {
+    switch (action) {
+      case 'mark': {
+        const inputs = validateFeedbackFile([{ trend: args[0], verdict: args[1], domain: values.domain, note: values.note }], 'the command line');
+        emit(recordFeedback(store, inputs, domains, 'the command line').map(formatFeedback));
+        break;
+      }
+      case 'import':
+        emit(recordFeedback(store, loadFeedbackFile(args[0]), domains, args[0]).map(formatFeedback));
+        break;
+      case 'list':
+        emit(store.getFeedback(values.domain).map(formatFeedback));
+        break;
+      case 'suggest':
+        emit(suggestTuning(store, domains).map(suggestion => `${suggestion.domain}: ${suggestion.kind} "${suggestion.value}" (${suggestion.reason})`));
+        break;
+    }
+  } finally {
+    store.close();
+  }
+  return EXIT_OK;
+}
+
+const HANDLERS: Record<string, (context: CommandContext) => Promise<number>> = {
+  scrape: scrapeCommand,
+  clean: cleanCommand,
+  evaluate: evaluateCommand,
+  digest: digestCommand,
+  deliver: deliverCommand,
+  run: runCommand,
+  schedule: scheduleCommand,
+  feedback: feedbackCommand
+};
+
+async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    process.stdout.write(usage(rest[0]));
+    return command ? EXIT_OK : EXIT_USAGE;
+  }
+  const handler = HANDLERS[command];
+  if (!handler) {
+    process.stderr.write(`Unknown command "${command}"\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+  if (rest.includes('--help') || rest.includes('-h')) {
+    process.stdout.write(usage(command));
+    return EXIT_OK;
+  }
+
+  // Stages log progress with console.log; keep stdout for the files they produce
+  const log = console.log;
+  console.log = console.error;
+  try {
+    const { values } = parseArgs({ args: rest, options: SHARED_OPTIONS, allowPositionals: true, strict: false });
+    const outputDir = typeof values['out-dir'] === 'string' ? values['out-dir'] : '.';
+    fs.mkdirSync(outputDir, { recursive: true });
+    const model = typeof values.model === 'string' ? values.model : undefined;
+    return await handler({ argv: rest, outputDir, provider: () => createProviderFromEnv(process.env, { model }) });
+  } catch (error) {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`❌ ${(error as Error).message}\n\n${usage(command)}`);
+      return EXIT_USAGE;
+    }
+    console.error(`❌ ${(error as Error).message}`);
+    return EXIT_FAILURE;
+  } finally {
+    console.log = log;
+  }
+}
+
+if (require.main === module) {
+  main().then(code => {
+    process.exitCode = code;
+  });
+}
+
+export {
+  EXIT_OK,
+  EXIT_FAILURE,
+  EXIT_USAGE,
+  UsageError,
+  main
+};
@@ -0,0 +1,79 @@
+// Worker pool and token-bucket rate limiter for calls to external services
+
+/**
+ * Token bucket: holds up to `capacity` tokens, refilled continuously at `refillPerSecond`.
+ * take() waits until enough tokens are available, so bursts are allowed up to capacity.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    private now: () => number = Date.now,
+    private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  // requests per minute, with a burst of up to `burst` requests
+  static perMinute(requestsPerMinute: number, burst = 1): TokenBucket {
+    return new TokenBucket(burst, requestsPerMinute / 60);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) / 1000 * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  take(count = 1): Promise<void> {
+    // Callers are served in order, so a large request can't be starved by small ones
+    const turn = this.queue.then(async () => {
+      this.refill();
+      while (this.tokens < count) {
+        await this.sleep(Math.ceil((count - this.tokens) / this.refillPerSecond * 1000));
+        this.refill();
+      }
+      this.tokens -= count;
+    });
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+}
+
+/**
+ * Runs worker over items with at most `concurrency` in flight. Results keep the input order;
+ * a failing item doesn't stop the others.
+ */
+async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker);
+  await Promise.all(workers);
+  return results;
+}
+
+export {
+  TokenBucket,
+  runPool
+};
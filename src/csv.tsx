@@ -0,0 +1,135 @@
+// RFC 4180 CSV reader/writer shared by every stage that exchanges CSV files.
+// Round-trip guarantee: parseCSV(stringifyCSV(rows)) deep-equals rows for any rows with at least one field.
+
+class CSVParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'CSVParseError';
+  }
+}
+
+const RECORD_SEPARATOR = '\r\n';
+
+function escapeCSVField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+function formatCSVRow(fields: string[]): string {
+  // A lone empty field would otherwise be written as an empty line
+  if (fields.length === 1 && fields[0] === '') {
+    return '""';
+  }
+  return fields.map(escapeCSVField).join(',');
+}
+
+function stringifyCSV(rows: string[][]): string {
+  return rows.map(row => formatCSVRow(row) + RECORD_SEPARATOR).join('');
+}
+
+/**
+ * Parses CSV text into rows of fields. Accepts CRLF or LF line endings, quoted fields with
+ * embedded separators, doubled quotes and line breaks, and an optional final line break.
+ */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotedField = false;
+  let line = 1;
+
+  // Strip a UTF-8 byte order mark written by spreadsheet tools
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field !== '' || quotedField) {
+        throw new CSVParseError('Unexpected quote inside an unquoted field', line);
+      }
+      inQuotes = true;
+      quotedField = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+      quotedField = false;
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      quotedField = false;
+      line++;
+    } else {
+      if (quotedField) {
+        throw new CSVParseError('Unexpected character after a closing quote', line);
+      }
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CSVParseError('Unterminated quoted field', line);
+  }
+  // The last record may or may not end with a line break
+  if (field !== '' || quotedField || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV text with a header line into one object per record, keyed by header name.
+ * Blank lines are skipped; missing trailing fields read as empty strings.
+ */
+function parseCSVRecords(text: string): Record<string, string>[] {
+  const [headers, ...rows] = parseCSV(text);
+  if (!headers) {
+    return [];
+  }
+
+  return rows
+    .filter(row => !(row.length === 1 && row[0] === ''))
+    .map(row => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        record[header] = row[index] ?? '';
+      });
+      return record;
+    });
+}
+
+export {
+  CSVParseError,
+  escapeCSVField,
+  formatCSVRow,
+  stringifyCSV,
+  parseCSV,
+  parseCSVRecords
+};
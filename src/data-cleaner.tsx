@@ -1,165 +1,229 @@
+import { SnapshotMetadata, categoryLabel, parseTrendCategory, parseTrendWindow } from './trends-query';
+import { parseCSVRecords, stringifyCSV } from './csv';
+
+type TrendStatus = 'active' | 'ended' | 'unknown';
+
+// Sortable/comparable versions of the display strings; null when the source string can't be read
+interface NormalizedTrendMetrics {
+  searchVolumeMin: number | null; // lower bound, "200K+" -> 200000
+  startedAt: string | null;       // ISO timestamp, "11h ago" resolved against scrape time
+  growthPercent: number | null;   // "1,000%" -> 1000
+}
+
 interface CleanedTrendData {
   trendName: string;
   searchVolume: string;
   timeAgo: string;
+  status: TrendStatus;
   growthPercentage: string;
   relatedSearches: string[];
+  exploreLink: string;
+  normalized: NormalizedTrendMetrics;
 }
 
-function cleanTrendsData(rawData: string): CleanedTrendData {
-  console.log('Raw input:', rawData); // Debug log
-  
-  // Split the data by commas but be smarter about it - don't split inside quoted strings
-  const fields: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < rawData.length; i++) {
-    const char = rawData[i];
-    
-    if (char === '"' && (i === 0 || rawData[i-1] !== '\\')) {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      fields.push(current.trim().replace(/^"|"$/g, ''));
-      current = '';
-      continue;
-    }
-    current += char;
-  }
-  if (current) {
-    fields.push(current.trim().replace(/^"|"$/g, ''));
+const VOLUME_MULTIPLIERS: Record<string, number> = { '': 1, K: 1e3, M: 1e6, B: 1e9 };
+
+const TIME_UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// "200K+", "2M+ searches", "500+" -> lower bound of the volume bucket
+function parseSearchVolume(searchVolume: string): number | null {
+  const match = searchVolume.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([KMB]?)\+?/i);
+  if (!match) {
+    return null;
   }
-  
-  console.log('Parsed fields:', fields); // Debug log
-  
-  // Extract key information
-  const result: CleanedTrendData = {
-    trendName: '',
-    searchVolume: '',
-    timeAgo: '',
-    growthPercentage: '',
-    relatedSearches: []
-  };
-  
-  // Get the trend name (first field)
-  result.trendName = fields[0] || '';
-  
-  // Extract search volume (look for patterns like "200K+ searches")
-  const volumeMatch: string | undefined = fields.find(field => 
-    field.includes('searches') && (field.includes('K+') || field.includes('M+') || /\d+/.test(field))
-  );
-  if (volumeMatch) {
-    const match: RegExpMatchArray | null = volumeMatch.match(/(\d+[KM]?\+?)\s*searches?/i);
-    result.searchVolume = match ? match[1] : '';
+  return Math.round(Number(match[1]) * VOLUME_MULTIPLIERS[match[2].toUpperCase()]);
+}
+
+// "11h ago", "19 hours ago", "50m ago", "2 days ago" -> age in milliseconds
+function parseTimeAgoMs(timeAgo: string): number | null {
+  const match = timeAgo.trim().match(/^(\d+)\s*(s|sec|secs|seconds?|m|min|mins|minutes?|h|hr|hrs|hours?|d|days?)\s+ago$/i);
+  if (!match) {
+    return null;
   }
-  
-  // Extract time ago (look for patterns like "20h ago", "2 hours ago", "50m ago")
-  const timeMatch: string | undefined = fields.find(field => 
-    field.includes('ago') || field.includes('hours ago') || field.includes('h ago') || field.includes('m ago')
-  );
-  if (timeMatch) {
-    console.log('Time field found:', timeMatch); // Debug log
-    // Updated pattern to handle minutes (m) and hours (h)
-    const match: RegExpMatchArray | null = timeMatch.match(/(\d+\s*(?:hours?|h|minutes?|m)\s*ago)/i);
-    result.timeAgo = match ? match[1] : timeMatch.replace(/^·/, '').trim();
-    console.log('Extracted time:', result.timeAgo); // Debug log
+  return Number(match[1]) * TIME_UNIT_MS[match[2].toLowerCase()[0]];
+}
+
+// "11h ago" -> ISO start time relative to scrapedAt
+function parseTimeAgo(timeAgo: string, scrapedAt: Date): string | null {
+  const ageMs = parseTimeAgoMs(timeAgo);
+  if (ageMs === null || isNaN(scrapedAt.getTime())) {
+    return null;
   }
-  
-  // Extract growth percentage - now look for the pattern across the entire raw data
-  // This handles cases where "1,000%" was split into separate fields
-  const percentageMatch: RegExpMatchArray | null = rawData.match(/(\d{1,3}(?:,\d{3})*%)/);
-  if (percentageMatch) {
-    result.growthPercentage = percentageMatch[1];
-    console.log('Found percentage in raw data:', result.growthPercentage); // Debug log
-  } else {
-    // Fallback: look in individual fields
-    const growthMatch: string | undefined = fields.find(field => 
-      field.includes('%') && /\d/.test(field)
-    );
-    if (growthMatch) {
-      console.log('Growth field found:', growthMatch); // Debug log
-      
-      // Try multiple patterns to capture the percentage
-      let match: RegExpMatchArray | null = null;
-      
-      // Pattern 1: Handle arrow_upward prefix
-      match = growthMatch.match(/arrow_upward(\d{1,3}(?:,\d{3})*%)/);
-      
-      // Pattern 2: Handle standalone percentage
-      if (!match) {
-        match = growthMatch.match(/(\d{1,3}(?:,\d{3})*%)/);
-      }
-      
-      // Pattern 3: Handle any digits followed by %
-      if (!match) {
-        match = growthMatch.match(/(\d+(?:,\d+)*%)/);
+  return new Date(scrapedAt.getTime() - ageMs).toISOString();
+}
+
+// "1,000%" -> 1000
+function parseGrowthPercentage(growthPercentage: string): number | null {
+  const match = growthPercentage.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*%/);
+  return match ? Number(match[1]) : null;
+}
+
+function normalizeTrendMetrics(
+  trend: Pick<CleanedTrendData, 'searchVolume' | 'timeAgo' | 'growthPercentage'>,
+  scrapedAt: Date
+): NormalizedTrendMetrics {
+  return {
+    searchVolumeMin: parseSearchVolume(trend.searchVolume),
+    startedAt: parseTimeAgo(trend.timeAgo, scrapedAt),
+    growthPercent: parseGrowthPercentage(trend.growthPercentage)
+  };
+}
+
+const CSV_COLUMNS = {
+  trendName: 'Trend Name',
+  searchVolume: 'Search Volume',
+  timeAgo: 'Time Ago',
+  growthPercentage: 'Growth %',
+  relatedSearches: 'Related Searches',
+  status: 'Status',
+  exploreLink: 'Explore Link',
+  searchVolumeMin: 'Volume Min',
+  startedAt: 'Started At',
+  growthPercent: 'Growth Value',
+  geo: 'Geo',
+  hours: 'Window (h)',
+  category: 'Category',
+  activeOnly: 'Active Only',
+  scrapedAt: 'Scraped At'
+} as const;
+
+const TREND_COLUMNS = [
+  CSV_COLUMNS.trendName, CSV_COLUMNS.searchVolume, CSV_COLUMNS.timeAgo, CSV_COLUMNS.growthPercentage,
+  CSV_COLUMNS.relatedSearches, CSV_COLUMNS.status, CSV_COLUMNS.exploreLink,
+  CSV_COLUMNS.searchVolumeMin, CSV_COLUMNS.startedAt, CSV_COLUMNS.growthPercent
+];
+
+const SNAPSHOT_COLUMNS = [
+  CSV_COLUMNS.geo, CSV_COLUMNS.hours, CSV_COLUMNS.category, CSV_COLUMNS.activeOnly, CSV_COLUMNS.scrapedAt
+];
+
+// Related searches are stored as a JSON array, so a search containing ";" or "," survives the round trip
+function stringifyRelatedSearches(relatedSearches: string[]): string {
+  return relatedSearches.length > 0 ? JSON.stringify(relatedSearches) : '';
+}
+
+// Files written before the JSON column joined the searches with "; "
+function parseRelatedSearches(value: string): string[] {
+  if (value.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.map(String).filter(Boolean);
       }
-      
-      result.growthPercentage = match ? match[1] : '';
-      console.log('Extracted percentage:', result.growthPercentage); // Debug log
+    } catch {
+      // Not JSON after all: a legacy list whose first search starts with "["
     }
   }
-  
-  // Extract related searches (unique terms that don't contain noise)
-  const relatedTerms: Set<string> = new Set();
-  const noiseWords: string[] = ['Search term', 'query_statsExplore', 'More actions', 'Active', 'trending_up', 'checklistSelect', 'more_vert'];
-  
-  fields.forEach(field => {
-    const cleanField: string = field.replace(/^·+|·+$/g, '').trim();
-    
-    // Skip if it's noise, too short, or contains the main trend name
-    if (cleanField.length > 3 && 
-        !noiseWords.some(noise => cleanField.includes(noise)) &&
-        !cleanField.includes(result.trendName) &&
-        !cleanField.includes('searches') &&
-        !cleanField.includes('%') &&
-        !cleanField.includes('ago') &&
-        /^[a-zA-Z\s]+$/.test(cleanField)) {
-      
-      relatedTerms.add(cleanField);
-    }
-  });
-  
-  result.relatedSearches = Array.from(relatedTerms).slice(0, 5); // Limit to top 5
-  
-  return result;
+  return value.split(';').map(search => search.trim()).filter(Boolean);
 }
 
-// Enhanced function that handles multiple rows
-function cleanTrendsDataArray(rawDataArray: (string | string[])[]): CleanedTrendData[] {
-  return rawDataArray.map(row => {
-    if (Array.isArray(row)) {
-      // If it's already an array, join it first
-      return cleanTrendsData(row.join(','));
-    } else {
-      // If it's a string
-      return cleanTrendsData(row);
-    }
-  });
+// A CSV row read back: the trend plus the snapshot it was captured in, when recorded
+interface CleanedTrendRecord {
+  trend: CleanedTrendData;
+  snapshot: SnapshotMetadata | null;
 }
 
-// Convert to CSV format
-function convertCleanedDataToCSV(cleanedDataArray: CleanedTrendData[]): string {
-  const headers: string[] = ['Trend Name', 'Search Volume', 'Time Ago', 'Growth %', 'Related Searches'];
-  let csv: string = headers.join(',') + '\n';
+// Convert to CSV format, recording the snapshot parameters on every row when given
+function convertCleanedDataToCSV(cleanedDataArray: CleanedTrendData[], metadata?: SnapshotMetadata): string {
+  const headers: string[] = metadata ? [...TREND_COLUMNS, ...SNAPSHOT_COLUMNS] : [...TREND_COLUMNS];
   
-  cleanedDataArray.forEach(item => {
+  const rows: string[][] = cleanedDataArray.map(item => {
     const row: string[] = [
-      `"${item.trendName}"`,
-      `"${item.searchVolume}"`,
-      `"${item.timeAgo}"`,
-      `"${item.growthPercentage}"`,
-      `"${item.relatedSearches.join('; ')}"`
+      item.trendName,
+      item.searchVolume,
+      item.timeAgo,
+      item.growthPercentage,
+      stringifyRelatedSearches(item.relatedSearches),
+      item.status,
+      item.exploreLink,
+      item.normalized.searchVolumeMin?.toString() ?? '',
+      item.normalized.startedAt ?? '',
+      item.normalized.growthPercent?.toString() ?? ''
     ];
-    csv += row.join(',') + '\n';
+    if (metadata) {
+      row.push(
+        metadata.geo,
+        String(metadata.hours),
+        categoryLabel(metadata.category),
+        String(metadata.activeOnly),
+        metadata.scrapedAt
+      );
+    }
+    return row;
   });
   
-  return csv;
+  return stringifyCSV([headers, ...rows]);
+}
+
+function parseOptionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseSnapshotColumns(record: Record<string, string>): SnapshotMetadata | null {
+  if (!record[CSV_COLUMNS.geo] || !record[CSV_COLUMNS.scrapedAt]) {
+    return null;
+  }
+  return {
+    geo: record[CSV_COLUMNS.geo],
+    hours: parseTrendWindow(record[CSV_COLUMNS.hours] || '24'),
+    category: parseTrendCategory(record[CSV_COLUMNS.category] || 'all'),
+    activeOnly: record[CSV_COLUMNS.activeOnly] === 'true',
+    scrapedAt: record[CSV_COLUMNS.scrapedAt]
+  };
+}
+
+// Reads a CSV written by convertCleanedDataToCSV back into trend data, by column name
+function parseCleanedDataCSV(csv: string): CleanedTrendRecord[] {
+  return parseCSVRecords(csv)
+    .filter(record => record[CSV_COLUMNS.trendName])
+    .map(record => {
+      const snapshot = parseSnapshotColumns(record);
+      const status = record[CSV_COLUMNS.status];
+      const display = {
+        searchVolume: record[CSV_COLUMNS.searchVolume] ?? '',
+        timeAgo: record[CSV_COLUMNS.timeAgo] ?? '',
+        growthPercentage: record[CSV_COLUMNS.growthPercentage] ?? ''
+      };
+      
+      // Older files have no normalized columns: derive them from the display strings
+      const derived = normalizeTrendMetrics(display, new Date(snapshot?.scrapedAt ?? NaN));
+      
+      const trend: CleanedTrendData = {
+        trendName: record[CSV_COLUMNS.trendName],
+        ...display,
+        status: status === 'active' || status === 'ended' ? status : 'unknown',
+        relatedSearches: parseRelatedSearches(record[CSV_COLUMNS.relatedSearches] ?? ''),
+        exploreLink: record[CSV_COLUMNS.exploreLink] ?? '',
+        normalized: {
+          searchVolumeMin: parseOptionalNumber(record[CSV_COLUMNS.searchVolumeMin]) ?? derived.searchVolumeMin,
+          startedAt: record[CSV_COLUMNS.startedAt] || derived.startedAt,
+          growthPercent: parseOptionalNumber(record[CSV_COLUMNS.growthPercent]) ?? derived.growthPercent
+        }
+      };
+      return { trend, snapshot };
+    });
 }
 
 export { 
   CleanedTrendData, 
-  cleanTrendsData, 
-  cleanTrendsDataArray, 
-  convertCleanedDataToCSV 
+  TrendStatus,
+  NormalizedTrendMetrics,
+  CleanedTrendRecord,
+  CSV_COLUMNS,
+  parseSearchVolume,
+  parseTimeAgoMs,
+  parseTimeAgo,
+  parseGrowthPercentage,
+  normalizeTrendMetrics,
+  convertCleanedDataToCSV,
+  parseCleanedDataCSV 
 };
\ No newline at end of file
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Where each team's digest goes, read from delivery.yaml (or DELIVERY_CONFIG)
+const DEFAULT_DELIVERY_CONFIG_PATH = 'delivery.yaml';
+
+interface WebhookTarget {
+  type: 'webhook';
+  url: string;
+  format: 'slack' | 'json';        // slack: {"text": ...} for incoming webhooks; json: the whole digest
+  headers: Record<string, string>;
+}
+
+interface FeedTarget {
+  type: 'feed';
+  path: string;
+  format: 'atom' | 'rss';
+  title: string;
+  link: string;                    // site the feed points readers to
+  maxEntries: number;              // oldest entries are dropped beyond this
+}
+
+interface EmailTarget {
+  type: 'email';
+  host: string;
+  port: number;
+  secure: boolean;                 // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  passwordEnv?: string;            // name of the environment variable holding the password
+  from: string;
+  to: string[];
+}
+
+type DeliveryTarget = WebhookTarget | FeedTarget | EmailTarget;
+
+interface TeamDelivery {
+  name: string;
+  domains: string[];               // domains whose trends the team gets; empty for every domain
+  includeUnclassified: boolean;
+  targets: DeliveryTarget[];
+}
+
+class DeliveryConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid delivery config ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'DeliveryConfigError';
+  }
+}
+
+const TEAM_KEYS = ['name', 'domains', 'includeUnclassified', 'targets'];
+const TARGET_KEYS: Record<DeliveryTarget['type'], string[]> = {
+  webhook: ['type', 'url', 'format', 'headers'],
+  feed: ['type', 'path', 'format', 'title', 'link', 'maxEntries'],
+  email: ['type', 'host', 'port', 'secure', 'user', 'passwordEnv', 'from', 'to']
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown, field: string, issues: string[], fallback?: string): string {
+  if (value === undefined && fallback !== undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${field}: is required`);
+    return '';
+  }
+  return value.trim();
+}
+
+function readChoice<T extends string>(value: unknown, field: string, choices: T[], issues: string[]): T {
+  if (value === undefined) {
+    return choices[0];
+  }
+  if (!choices.includes(value as T)) {
+    issues.push(`${field}: must be one of ${choices.join(', ')}`);
+    return choices[0];
+  }
+  return value as T;
+}
+
+function readStringList(value: unknown, field: string, issues: string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    issues.push(`${field}: must be a list of non-empty strings`);
+    return [];
+  }
+  return value.map(item => item.trim());
+}
+
+function readTarget(value: unknown, field: string, issues: string[]): DeliveryTarget | null {
+  if (!isRecord(value) || !(typeof value.type === 'string' && value.type in TARGET_KEYS)) {
+    issues.push(`${field}: must be a mapping with a type of ${Object.keys(TARGET_KEYS).join(', ')}`);
+    return null;
+  }
+  const type = value.type as DeliveryTarget['type'];
+  Object.keys(value).filter(key => !TARGET_KEYS[type].includes(key)).forEach(key => {
+    issues.push(`${field}.${key}: unknown field for a ${type} target (expected one of ${TARGET_KEYS[type].join(', ')})`);
+  });
+
+  switch (type) {
+    case 'webhook': {
+      const url = readString(value.url, `${field}.url`, issues);
+      if (url && !/^https?:\/\//.test(url)) {
+        issues.push(`${field}.url: must be an http(s) URL`);
+      }
+      const headers = value.headers === undefined ? {} : value.headers;
+      if (!isRecord(headers) || Object.values(headers).some(header => typeof header !== 'string')) {
+        issues.push(`${field}.headers: must be a mapping of header names to strings`);
+      }
+      return { type, url, format: readChoice(value.format, `${field}.format`, ['slack', 'json'], issues), headers: headers as Record<string, string> };
+    }
+    case 'feed': {
+      const maxEntries = value.maxEntries ?? 50;
+      if (!Number.isInteger(maxEntries) || (maxEntries as number) < 1) {
+        issues.push(`${field}.maxEntries: must be a positive whole number`);
+      }
+      return {
+        type,
+        path: readString(value.path, `${field}.path`, issues),
+        format: readChoice(value.format, `${field}.format`, ['atom', 'rss'], issues),
+        title: readString(value.title, `${field}.title`, issues, 'Trend digest'),
+        link: readString(value.link, `${field}.link`, issues, 'https://trends.google.com/trending'),
+        maxEntries: maxEntries as number
+      };
+    }
+    case 'email': {
+      const port = value.port ?? (value.secure ? 465 : 587);
+      if (!Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535) {
+        issues.push(`${field}.port: must be a port number`);
+      }
+      if (value.secure !== undefined && typeof value.secure !== 'boolean') {
+        issues.push(`${field}.secure: must be true or false`);
+      }
+      const to = readStringList(value.to, `${field}.to`, issues);
+      if (to.length === 0) {
+        issues.push(`${field}.to: needs at least one recipient`);
+      }
+      return {
+        type,
+        host: readString(value.host, `${field}.host`, issues),
+        port: port as number,
+        secure: value.secure === true,
+        user: value.user === undefined ? undefined : readString(value.user, `${field}.user`, issues),
+        passwordEnv: value.passwordEnv === undefined ? undefined : readString(value.passwordEnv, `${field}.passwordEnv`, issues),
+        from: readString(value.from, `${field}.from`, issues),
+        to
+      };
+    }
+  }
+}
+
+function validateTeam(value: unknown, index: number, issues: string[]): TeamDelivery | null {
+  const field = `teams[${index}]`;
+  if (!isRecord(value)) {
+    issues.push(`${field}: must be a mapping`);
+    return null;
+  }
+  Object.keys(value).filter(key => !TEAM_KEYS.includes(key)).forEach(key => {
+    issues.push(`${field}.${key}: unknown field (expected one of ${TEAM_KEYS.join(', ')})`);
+  });
+
+  const name = readString(value.name, `${field}.name`, issues);
+  const label = name ? `${field} (${name})` : field;
+  if (value.includeUnclassified !== undefined && typeof value.includeUnclassified !== 'boolean') {
+    issues.push(`${label}.includeUnclassified: must be true or false`);
+  }
+  if (!Array.isArray(value.targets) || value.targets.length === 0) {
+    issues.push(`${label}.targets: must list at least one target`);
+  }
+
+  return {
+    name,
+    domains: readStringList(value.domains, `${label}.domains`, issues),
+    includeUnclassified: value.includeUnclassified === true,
+    targets: (Array.isArray(value.targets) ? value.targets : [])
+      .map((target, targetIndex) => readTarget(target, `${label}.targets[${targetIndex}]`, issues))
+      .filter((target): target is DeliveryTarget => target !== null)
+  };
+}
+
+/**
+ * Validates a parsed delivery config, collecting every problem like the domains config does.
+ */
+function validateDeliveryConfig(document: unknown, source: string): TeamDelivery[] {
+  if (!isRecord(document) || !Array.isArray(document.teams)) {
+    throw new DeliveryConfigError(source, ['top level must be a mapping with a "teams" list']);
+  }
+  const issues: string[] = [];
+  Object.keys(document).filter(key => key !== 'teams').forEach(key => {
+    issues.push(`${key}: unknown top-level field`);
+  });
+
+  const teams = document.teams.map((team, index) => validateTeam(team, index, issues));
+  const seen = new Set<string>();
+  teams.forEach((team, index) => {
+    if (team?.name && seen.has(team.name.toLowerCase())) {
+      issues.push(`teams[${index}].name: duplicate team "${team.name}"`);
+    }
+    seen.add(team?.name.toLowerCase() ?? '');
+  });
+
+  if (issues.length > 0) {
+    throw new DeliveryConfigError(source, issues);
+  }
+  return teams as TeamDelivery[];
+}
+
+// Reads a .yaml/.yml or .json delivery config
+function loadDeliveryConfig(filePath: string): TeamDelivery[] {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new DeliveryConfigError(filePath, [(error as Error).message]);
+  }
+  return validateDeliveryConfig(document, filePath);
+}
+
+/**
+ * Teams to deliver to: the explicit path, else DELIVERY_CONFIG, else delivery.yaml when present.
+ * Null when nothing is configured, in which case digests are only written locally.
+ */
+function resolveDeliveryConfig(configPath?: string): TeamDelivery[] | null {
+  const explicit = configPath || process.env.DELIVERY_CONFIG;
+  if (explicit) {
+    return loadDeliveryConfig(explicit);
+  }
+  return fs.existsSync(DEFAULT_DELIVERY_CONFIG_PATH) ? loadDeliveryConfig(DEFAULT_DELIVERY_CONFIG_PATH) : null;
+}
+
+export {
+  DEFAULT_DELIVERY_CONFIG_PATH,
+  WebhookTarget,
+  FeedTarget,
+  EmailTarget,
+  DeliveryTarget,
+  TeamDelivery,
+  DeliveryConfigError,
+  validateDeliveryConfig,
+  loadDeliveryConfig,
+  resolveDeliveryConfig
+};
@@ -0,0 +1,111 @@
+import * as http from 'http';
+import * as net from 'net';
+import { parseArgs } from 'util';
+
+// Local stand-ins for delivery targets: an HTTP listener for webhooks and an SMTP sink for email.
+// Both print what they receive; the first `failures` requests are refused to exercise retries.
+
+interface SinkOptions {
+  failures: number;                                         // requests answered with a temporary error first
+  onReceive?: (kind: 'webhook' | 'email', payload: string) => void;
+}
+
+function startWebhookSink(port: number, options: SinkOptions): http.Server {
+  let remainingFailures = options.failures;
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        console.log(`🌐 ${request.method} ${request.url} → 503 (simulated failure)`);
+        response.writeHead(503).end('temporarily unavailable');
+        return;
+      }
+      console.log(`🌐 ${request.method} ${request.url} (${body.length} bytes)\n${body.slice(0, 500)}`);
+      options.onReceive?.('webhook', body);
+      response.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+    });
+  });
+  return server.listen(port);
+}
+
+/**
+ * Just enough SMTP to accept a message: greeting, EHLO/HELO, MAIL, RCPT, DATA, QUIT.
+ * No TLS and no authentication, so configure the target with secure: false and no user.
+ */
+function startSmtpSink(port: number, options: SinkOptions): net.Server {
+  let remainingFailures = options.failures;
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let message: string[] | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 localhost trend-digest SMTP sink');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (message) {
+          if (line !== '.') {
+            message.push(line.startsWith('..') ? line.slice(1) : line);
+            continue;
+          }
+          const data = message.join('\n');
+          message = null;
+          const subject = data.match(/^Subject: (.*)$/m)?.[1] ?? '(no subject)';
+          console.log(`✉️ ${subject} (${data.length} bytes)`);
+          options.onReceive?.('email', data);
+          reply('250 OK: queued');
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 localhost');
+        } else if (command === 'MAIL' && remainingFailures > 0) {
+          remainingFailures--;
+          console.log('✉️ MAIL → 451 (simulated failure)');
+          reply('451 Temporary failure, try again later');
+        } else if (command === 'MAIL' || command === 'RCPT' || command === 'RSET' || command === 'NOOP') {
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          message = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('502 Command not implemented');
+        }
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+  return server.listen(port);
+}
+
+// Usage: delivery-sinks [--http-port 8787] [--smtp-port 2525] [--fail <n>]
+if (require.main === module) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      'http-port': { type: 'string', default: '8787' },
+      'smtp-port': { type: 'string', default: '2525' },
+      fail: { type: 'string', default: '0' }
+    }
+  });
+  const failures = Number(values.fail) || 0;
+  startWebhookSink(Number(values['http-port']), { failures });
+  startSmtpSink(Number(values['smtp-port']), { failures });
+  console.log(`🧪 Webhook sink on http://localhost:${values['http-port']}/, SMTP sink on localhost:${values['smtp-port']} (Ctrl+C to stop)`);
+}
+
+export {
+  SinkOptions,
+  startWebhookSink,
+  startSmtpSink
+};
@@ -0,0 +1,309 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import * as nodemailer from 'nodemailer';
+import * as dotenv from 'dotenv';
+import { EvaluationResult, resultLabels } from './evaluator';
+import { DigestOptions, DigestView, buildDigestView, findLatestEvaluations, renderDigest } from './digest';
+import { DeliveryConfigError, DeliveryTarget, EmailTarget, FeedTarget, TeamDelivery, WebhookTarget, resolveDeliveryConfig } from './delivery-config';
+import { RetryError, RetryOptions, isTransientError, withRetry } from './retry';
+
+// Load environment variables
+dotenv.config();
+
+interface DeliveryReport {
+  team: string;
+  target: string;        // human-readable description, e.g. "webhook hooks.slack.com"
+  status: 'sent' | 'dry-run' | 'failed';
+  attempts: number;
+  error?: string;
+}
+
+type MailTransport = Pick<nodemailer.Transporter, 'sendMail'>;
+
+interface DeliveryOptions {
+  dryRun?: boolean;                                     // render and log, but send and write nothing
+  retry?: Partial<RetryOptions>;
+  digest?: Partial<DigestOptions>;                      // templates and the like, shared by every team
+  fetch?: typeof fetch;                                 // swappable for local stand-ins
+  createTransport?: (target: EmailTarget) => MailTransport;
+}
+
+class DeliveryError extends Error {
+  constructor(message: string, public target: string, public status?: number) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+// A team's digest, rendered once and shared by all of its targets
+interface TeamDigest {
+  team: string;
+  subject: string;
+  view: DigestView;
+  markdown: string;
+  html: string;
+}
+
+function describeTarget(target: DeliveryTarget): string {
+  switch (target.type) {
+    case 'webhook':
+      return `webhook ${new URL(target.url).host}`;
+    case 'feed':
+      return `${target.format} feed ${target.path}`;
+    case 'email':
+      return `email to ${target.to.join(', ')}`;
+  }
+}
+
+// The results a team signed up for: any of its domains or their subdomains (all of them when none are listed)
+function resultsForTeam(results: EvaluationResult[], team: TeamDelivery): EvaluationResult[] {
+  return results.filter(result => {
+    const labels = resultLabels(result);
+    return labels.length === 0
+      ? team.includeUnclassified
+      : team.domains.length === 0 || labels.some(label => team.domains.includes(label.domain));
+  });
+}
+
+function renderTeamDigest(results: EvaluationResult[], team: TeamDelivery, options: Partial<DigestOptions>): TeamDigest {
+  const digestOptions = { ...options, includeUnclassified: team.includeUnclassified, domains: team.domains };
+  const teamResults = resultsForTeam(results, team);
+  const view = buildDigestView(teamResults, digestOptions);
+  return {
+    team: team.name,
+    subject: `${view.title} for ${team.name} (${view.date})`,
+    view,
+    ...renderDigest(teamResults, digestOptions)
+  };
+}
+
+// Slack mrkdwn: *bold*, <url|label> links, no headings; &, < and > are control characters there
+function toSlackText(markdown: string): string {
+  return markdown
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/^#+\s*(.+)$/gm, '*$1*')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<$2|$1>');
+}
+
+async function sendWebhook(target: WebhookTarget, digest: TeamDigest, fetchImpl: typeof fetch): Promise<void> {
+  const body = target.format === 'slack'
+    ? { text: toSlackText(digest.markdown) }
+    : { team: digest.team, subject: digest.subject, digest: digest.view, markdown: digest.markdown };
+  const response = await fetchImpl(target.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...target.headers },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    throw new DeliveryError(`${target.url} responded ${response.status}: ${(await response.text()).slice(0, 200)}`, describeTarget(target), response.status);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Adds this run's digest as the newest entry of an Atom or RSS file, keeping the previous
+ * entries (up to maxEntries). Entries are only ever written by this function, so they are
+ * carried over as they are.
+ */
+function writeFeed(target: FeedTarget, digest: TeamDigest): void {
+  const updated = digest.view.generatedAt;
+  const body = digest.html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1]?.trim() ?? digest.html;
+  const summary = `${digest.view.matchedCount} of ${digest.view.totalCount} trends matched`;
+  const entryPattern = target.format === 'atom' ? /<entry>[\s\S]*?<\/entry>/g : /<item>[\s\S]*?<\/item>/g;
+  const previous = fs.existsSync(target.path) ? fs.readFileSync(target.path, 'utf8').match(entryPattern) ?? [] : [];
+  const id = `urn:trend-digest:${slug(digest.team)}:${updated}`;
+
+  const entry = target.format === 'atom'
+    ? `<entry>
+    <title>${escapeXml(digest.subject)}</title>
+    <id>${id}</id>
+    <updated>${updated}</updated>
+    <summary>${escapeXml(summary)}</summary>
+    <content type="html">${escapeXml(body)}</content>
+  </entry>`
+    : `<item>
+      <title>${escapeXml(digest.subject)}</title>
+      <guid isPermaLink="false">${id}</guid>
+      <pubDate>${new Date(updated).toUTCString()}</pubDate>
+      <description>${escapeXml(body)}</description>
+    </item>`;
+  const entries = [entry, ...previous].slice(0, target.maxEntries);
+
+  const feed = target.format === 'atom'
+    ? `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(target.title)}</title>
+  <link href="${escapeXml(target.link)}"/>
+  <id>urn:trend-digest:${slug(digest.team)}</id>
+  <updated>${updated}</updated>
+  ${entries.join('\n  ')}
+</feed>
+`
+    : `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${escapeXml(target.title)}</title>
+    <link>${escapeXml(target.link)}</link>
+    <description>${escapeXml(`Trend digests for ${digest.team}`)}</description>
+    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>
+    ${entries.join('\n    ')}
+  </channel>
+</rss>
+`;
+
+  fs.mkdirSync(path.dirname(path.resolve(target.path)), { recursive: true });
+  fs.writeFileSync(target.path, feed, 'utf8');
+}
+
+function createSmtpTransport(target: EmailTarget): MailTransport {
+  const password = target.passwordEnv ? process.env[target.passwordEnv] : undefined;
+  return nodemailer.createTransport({
+    host: target.host,
+    port: target.port,
+    secure: target.secure,
+    auth: target.user ? { user: target.user, pass: password } : undefined
+  });
+}
+
+async function sendEmail(target: EmailTarget, digest: TeamDigest, transport: MailTransport): Promise<void> {
+  await transport.sendMail({
+    from: target.from,
+    to: target.to,
+    subject: digest.subject,
+    text: digest.markdown,
+    html: digest.html
+  });
+}
+
+// SMTP 4xx replies are temporary by definition; 5xx ones are not
+function isRetryableDelivery(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: unknown })?.responseCode;
+  if (typeof responseCode === 'number') {
+    return responseCode >= 400 && responseCode < 500;
+  }
+  return isTransientError(error);
+}
+
+async function deliverToTarget(target: DeliveryTarget, digest: TeamDigest, options: DeliveryOptions): Promise<void> {
+  switch (target.type) {
+    case 'webhook':
+      return sendWebhook(target, digest, options.fetch ?? fetch);
+    case 'feed':
+      return writeFeed(target, digest);
+    case 'email':
+      return sendEmail(target, digest, (options.createTransport ?? createSmtpTransport)(target));
+  }
+}
+
+/**
+ * Sends each team its share of the results to every configured target. A failing target is
+ * retried with backoff and then reported; it doesn't stop the other deliveries.
+ */
+async function deliverDigest(
+  results: EvaluationResult[],
+  teams: TeamDelivery[],
+  options: DeliveryOptions = {}
+): Promise<DeliveryReport[]> {
+  const reports: DeliveryReport[] = [];
+  const digestOptions = { generatedAt: new Date(), ...options.digest };
+
+  for (const team of teams) {
+    const digest = renderTeamDigest(results, team, digestOptions);
+
+    for (const target of team.targets) {
+      const description = describeTarget(target);
+      if (options.dryRun) {
+        console.log(`🧪 [dry run] ${team.name} → ${description}: "${digest.subject}", ${digest.view.matchedCount} trends`);
+        reports.push({ team: team.name, target: description, status: 'dry-run', attempts: 0 });
+        continue;
+      }
+
+      let attempts = 0;
+      try {
+        await withRetry(attempt => {
+          attempts = attempt;
+          return deliverToTarget(target, digest, options);
+        }, {
+          isRetryable: isRetryableDelivery,
+          ...options.retry,
+          onRetry: (error, attempt, delayMs) => {
+            console.warn(`⏳ ${team.name} → ${description} failed (${(error as Error).message ?? error}), retry ${attempt} in ${delayMs}ms`);
+          }
+        });
+        console.log(`📬 ${team.name} → ${description}`);
+        reports.push({ team: team.name, target: description, status: 'sent', attempts });
+      } catch (error) {
+        const cause = error instanceof RetryError ? error.lastError : error;
+        console.error(`❌ ${team.name} → ${description}: ${(cause as Error).message ?? cause}`);
+        reports.push({ team: team.name, target: description, status: 'failed', attempts, error: String((cause as Error).message ?? cause) });
+      }
+    }
+  }
+  return reports;
+}
+
+// Usage: delivery [trend_evaluations_<timestamp>.json] [--config delivery.yaml] [--team <name>] [--dry-run]
+if (require.main === module) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      config: { type: 'string' },
+      team: { type: 'string', multiple: true },
+      'dry-run': { type: 'boolean', default: false }
+    },
+    allowPositionals: true
+  });
+
+  let teams: TeamDelivery[] | null;
+  try {
+    teams = resolveDeliveryConfig(values.config);
+  } catch (error) {
+    console.error(`❌ ${(error as DeliveryConfigError).message}`);
+    process.exit(1);
+  }
+  if (!teams) {
+    console.error('❌ No delivery config: create delivery.yaml (see delivery.example.yaml) or set DELIVERY_CONFIG');
+    process.exit(1);
+  }
+  const selected = values.team ? teams.filter(team => values.team?.includes(team.name)) : teams;
+
+  const inputPath = positionals[0] ?? findLatestEvaluations();
+  if (!inputPath) {
+    console.error('❌ No trend_evaluations_*.json found; run the evaluator first or pass a results file');
+    process.exit(1);
+  }
+  const results = JSON.parse(fs.readFileSync(inputPath, 'utf8')) as EvaluationResult[];
+
+  deliverDigest(results, selected, { dryRun: values['dry-run'] })
+    .then(reports => {
+      process.exitCode = reports.some(report => report.status === 'failed') ? 1 : 0;
+    })
+    .catch(error => {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
+    });
+}
+
+export {
+  DeliveryReport,
+  DeliveryOptions,
+  DeliveryError,
+  MailTransport,
+  TeamDigest,
+  describeTarget,
+  resultsForTeam,
+  toSlackText,
+  writeFeed,
+  deliverDigest
+};
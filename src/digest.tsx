@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import Mustache from 'mustache';
+import { EvaluationResult, UNCLASSIFIED, resultLabels } from './evaluator';
+import { explainPriority } from './priority';
+
+// Mustache templates the digest is rendered with; a custom directory only needs the files it overrides
+const DEFAULT_TEMPLATE_DIR = path.join(__dirname, '..', 'templates');
+const TEMPLATE_FILES = { markdown: 'digest.md.mustache', html: 'digest.html.mustache' };
+
+// What a matched trend looked like in earlier snapshots, gathered from the trend store
+interface TrendBackground {
+  trend: string;
+  classification: string;
+  firstSeen: string;
+  snapshotCount: number;
+  peakSearchVolume: string;
+  previousClassifications: string[];
+}
+
+interface DigestOptions {
+  title: string;
+  includeUnclassified: boolean;    // list trends no domain matched in their own section
+  domains: string[];               // only list matches of these domains and their subdomains; empty for all
+  templateDir: string | null;      // defaults to DIGEST_TEMPLATES, then the bundled templates/
+  backgrounds: TrendBackground[];  // history per trend, shown when a trend was seen before
+  failureCount: number;            // trends that couldn't be evaluated, mentioned at the end
+  generatedAt: Date;
+}
+
+const DEFAULT_DIGEST_OPTIONS: DigestOptions = {
+  title: 'Trend digest',
+  includeUnclassified: false,
+  domains: [],
+  templateDir: null,
+  backgrounds: [],
+  failureCount: 0,
+  generatedAt: new Date()
+};
+
+interface DigestItem {
+  rank: number;
+  trend: string;
+  confidencePercent: string;
+  priority: string | null;        // score out of 100, null for results saved before priority scoring
+  priorityBreakdown: string | null; // what each factor added, e.g. "72.4 = relevance 45.0 + volume 14.1"
+  searchVolume: string;
+  growth: string;
+  age: string;
+  stage: string | null;
+  reasoning: string;
+  relatedSearches: string;        // comma separated, empty when there are none
+  members: string;                // other trends of the same story with their volume, empty for a single trend
+  subdomains: string;             // subdomains of the section the trend matched with their score, e.g. "LLMs 90%"
+  alsoIn: string;                 // other sections the trend is listed in, empty when there are none
+  whyNow: string | null;
+  sources: { label: string; url: string }[];
+  history: string | null;
+}
+
+interface DigestSection {
+  domain: string;
+  count: number;
+  items: DigestItem[];
+}
+
+// Everything the templates can use
+interface DigestView {
+  title: string;
+  date: string;
+  generatedAt: string;
+  totalCount: number;
+  matchedCount: number;
+  failureCount: number;
+  sections: DigestSection[];
+  empty: boolean;
+}
+
+// "3 hours ago" from the normalized start time, falling back to the scraped label
+function formatAge(result: EvaluationResult, now: Date): string {
+  const startedAt = result.normalized?.startedAt;
+  if (!startedAt) {
+    return result.timeAgo || 'n/a';
+  }
+  const hours = Math.max(0, Math.round((now.getTime() - new Date(startedAt).getTime()) / 3600000));
+  if (hours < 1) {
+    return 'less than an hour ago';
+  }
+  return hours < 48 ? `${hours} hour${hours === 1 ? '' : 's'} ago` : `${Math.round(hours / 24)} days ago`;
+}
+
+// Highest priority first; without priority scores, most confident first, then the larger search volume
+function compareResults(a: EvaluationResult, b: EvaluationResult): number {
+  if (a.priority && b.priority && a.priority.score !== b.priority.score) {
+    return b.priority.score - a.priority.score;
+  }
+  if (a.confidence !== b.confidence) {
+    return b.confidence - a.confidence;
+  }
+  return (b.normalized?.searchVolumeMin ?? -1) - (a.normalized?.searchVolumeMin ?? -1);
+}
+
+function toItem(result: EvaluationResult, rank: number, section: string, options: DigestOptions): DigestItem {
+  const labels = resultLabels(result);
+  const background = options.backgrounds.find(entry => entry.trend === result.trend);
+  const others = (result.cluster?.members ?? []).filter(member => member.trend !== result.trend);
+  const memberNames = new Set(others.map(member => member.trend.toLowerCase()));
+  return {
+    rank,
+    trend: result.trend,
+    confidencePercent: `${(result.confidence * 100).toFixed(0)}%`,
+    priority: result.priority ? result.priority.score.toFixed(0) : null,
+    priorityBreakdown: result.priority ? explainPriority(result.priority) : null,
+    searchVolume: result.searchVolume || 'n/a',
+    growth: result.growth || 'n/a',
+    age: formatAge(result, options.generatedAt),
+    stage: result.lifecycle?.stage ?? null,
+    reasoning: result.reasoning,
+    relatedSearches: (result.relatedSearches ?? []).filter(search => !memberNames.has(search.toLowerCase())).join(', '),
+    subdomains: labels
+      .filter(label => label.path[0] === section && label.path.length > 1)
+      .map(label => `${label.path.slice(1).join(' › ')} ${(label.score * 100).toFixed(0)}%`)
+      .join(', '),
+    alsoIn: [...new Set(labels.map(label => label.path[0]))].filter(domain => domain !== section).join(', '),
+    members: others.map(member => member.searchVolume ? `${member.trend} (${member.searchVolume})` : member.trend).join(', '),
+    whyNow: result.research?.whyNow ?? null,
+    sources: (result.research?.sources ?? []).map(source => ({ label: source.source || source.title, url: source.url })),
+    history: background && background.snapshotCount > 1
+      ? `Seen in ${background.snapshotCount} snapshots since ${background.firstSeen.slice(0, 10)}, peak ${background.peakSearchVolume || 'n/a'}`
+      : null
+  };
+}
+
+/**
+ * Groups a run's results by top-level domain and ranks each group. A trend is listed under every
+ * top-level domain it matches, directly or through any of its subdomains. Domains are ordered by
+ * their best item; unclassified trends come last, and only when asked for.
+ */
+function buildDigestView(results: EvaluationResult[], options: Partial<DigestOptions> = {}): DigestView {
+  const settings: DigestOptions = { ...DEFAULT_DIGEST_OPTIONS, generatedAt: new Date(), ...options };
+  const byDomain = new Map<string, EvaluationResult[]>();
+  results.forEach(result => {
+    const labels = resultLabels(result);
+    const roots = new Set(labels
+      .filter(label => settings.domains.length === 0 || label.path.some(domain => settings.domains.includes(domain)))
+      .map(label => label.path[0]));
+    if (roots.size === 0 && labels.length > 0) {
+      return;
+    }
+    (roots.size > 0 ? [...roots] : [UNCLASSIFIED]).forEach(domain => {
+      byDomain.set(domain, [...(byDomain.get(domain) ?? []), result]);
+    });
+  });
+
+  const sections = [...byDomain.entries()]
+    .filter(([domain]) => domain !== UNCLASSIFIED)
+    .map(([domain, domainResults]) => ({ domain, ranked: [...domainResults].sort(compareResults) }))
+    .sort((a, b) => compareResults(a.ranked[0], b.ranked[0]));
+  const unclassified = byDomain.get(UNCLASSIFIED);
+  if (settings.includeUnclassified && unclassified) {
+    sections.push({ domain: UNCLASSIFIED, ranked: [...unclassified].sort(compareResults) });
+  }
+
+  const matchedCount = results.filter(result => resultLabels(result).length > 0).length;
+  return {
+    title: settings.title,
+    date: settings.generatedAt.toISOString().slice(0, 10),
+    generatedAt: settings.generatedAt.toISOString(),
+    totalCount: results.length,
+    matchedCount,
+    failureCount: settings.failureCount,
+    sections: sections.map(({ domain, ranked }) => ({
+      domain,
+      count: ranked.length,
+      items: ranked.map((result, index) => toItem(result, index + 1, domain, settings))
+    })),
+    empty: matchedCount === 0
+  };
+}
+
+function loadTemplate(kind: keyof typeof TEMPLATE_FILES, templateDir: string | null): string {
+  const customDir = templateDir ?? process.env.DIGEST_TEMPLATES;
+  const customPath = customDir ? path.join(customDir, TEMPLATE_FILES[kind]) : null;
+  const templatePath = customPath && fs.existsSync(customPath) ? customPath : path.join(DEFAULT_TEMPLATE_DIR, TEMPLATE_FILES[kind]);
+  return fs.readFileSync(templatePath, 'utf8');
+}
+
+function renderDigest(results: EvaluationResult[], options: Partial<DigestOptions> = {}): { markdown: string; html: string } {
+  const view = buildDigestView(results, options);
+  const templateDir = options.templateDir ?? null;
+  return {
+    // Markdown is not HTML-escaped; the HTML template escapes every {{value}}
+    markdown: Mustache.render(loadTemplate('markdown', templateDir), view, {}, { escape: value => String(value) }),
+    html: Mustache.render(loadTemplate('html', templateDir), view)
+  };
+}
+
+// Writes <basePath>.md and <basePath>.html
+function writeDigest(
+  results: EvaluationResult[],
+  basePath: string,
+  options: Partial<DigestOptions> = {}
+): { markdownPath: string; htmlPath: string } {
+  const { markdown, html } = renderDigest(results, options);
+  const markdownPath = `${basePath}.md`;
+  const htmlPath = `${basePath}.html`;
+  fs.writeFileSync(markdownPath, markdown, 'utf8');
+  fs.writeFileSync(htmlPath, html, 'utf8');
+  console.log(`📰 Digest saved to: ${markdownPath} and ${htmlPath}`);
+  return { markdownPath, htmlPath };
+}
+
+// Most recent evaluator output in the directory, or null
+function findLatestEvaluations(directory = '.'): string | null {
+  const candidates = fs.readdirSync(directory)
+    .filter(name => /^trend_evaluations_.*\.json$/.test(name))
+    .map(name => path.join(directory, name))
+    .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+  return candidates[0] ?? null;
+}
+
+// Usage: digest [trend_evaluations_<timestamp>.json] [--include-unclassified] [--templates <dir>] [--out <base path>]
+if (require.main === module) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      'include-unclassified': { type: 'boolean', default: false },
+      templates: { type: 'string' },
+      out: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+
+  const inputPath = positionals[0] ?? findLatestEvaluations();
+  if (!inputPath) {
+    console.error('❌ No trend_evaluations_*.json found; run the evaluator first or pass a results file');
+    process.exit(1);
+  }
+
+  const results = JSON.parse(fs.readFileSync(inputPath, 'utf8')) as EvaluationResult[];
+  writeDigest(results, values.out ?? `trend_digest_${new Date().toISOString().replace(/[:.]/g, '-')}`, {
+    includeUnclassified: values['include-unclassified'],
+    templateDir: values.templates ?? null
+  });
+}
+
+export {
+  DEFAULT_TEMPLATE_DIR,
+  TrendBackground,
+  DigestOptions,
+  DigestItem,
+  DigestSection,
+  DigestView,
+  buildDigestView,
+  renderDigest,
+  writeDigest,
+  findLatestEvaluations
+};
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ProviderConfig } from './llm-provider';
+
+// Domains are read from domains.yaml (or DOMAINS_CONFIG) so everyone can follow their own beats
+const DEFAULT_DOMAINS_CONFIG_PATH = 'domains.yaml';
+
+const DEFAULT_THRESHOLD = 6;
+
+interface DomainOfInterest {
+  name: string;
+  description: string;
+  keywords: string[];
+  examples: string[];
+  negativeExamples: string[];   // look-alikes that should NOT match
+  threshold: number;            // minimum relevance (0-10) for a trend to be classified here
+  priority: number;             // breaks ties between domains with equal relevance, higher wins
+  parent: string | null;        // broader domain this one is a subtopic of, e.g. LLMs → Technology & AI
+  llm?: Partial<ProviderConfig>; // optional model override for this domain
+}
+
+class DomainConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid domain config ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'DomainConfigError';
+  }
+}
+
+const DEFAULT_DOMAINS: DomainOfInterest[] = [
+  {
+    name: "Technology & AI",
+    description: "Artificial intelligence, machine learning, software development, tech companies, programming languages, tech trends",
+    keywords: ["AI", "machine learning", "software", "tech", "programming", "blockchain", "crypto", "startup"],
+    examples: ["ChatGPT", "iPhone release", "Google AI", "Tesla", "cryptocurrency crash"],
+    negativeExamples: [],
+    threshold: DEFAULT_THRESHOLD,
+    priority: 0,
+    parent: null
+  }
+];
+
+const DOMAIN_KEYS = ['name', 'description', 'keywords', 'examples', 'negativeExamples', 'threshold', 'priority', 'parent', 'llm'];
+const LLM_STRING_KEYS = ['provider', 'model', 'baseUrl', 'apiKey', 'mockResponsesPath'];
+const LLM_KEYS = [...LLM_STRING_KEYS, 'timeoutMs'];
+const LLM_PROVIDERS = ['gemini', 'openai', 'mock'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readStringList(value: unknown, field: string, issues: string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    issues.push(`${field}: must be a list of non-empty strings`);
+    return [];
+  }
+  return value.map(item => item.trim());
+}
+
+function readNumber(value: unknown, field: string, fallback: number, issues: string[], min = -Infinity, max = Infinity): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || isNaN(value) || value < min || value > max) {
+    const range = isFinite(min) && isFinite(max) ? ` between ${min} and ${max}` : '';
+    issues.push(`${field}: must be a number${range}, got ${JSON.stringify(value)}`);
+    return fallback;
+  }
+  return value;
+}
+
+function readLlmOverride(value: unknown, field: string, issues: string[]): Partial<ProviderConfig> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    issues.push(`${field}: must be a mapping`);
+    return undefined;
+  }
+  Object.keys(value).filter(key => !LLM_KEYS.includes(key)).forEach(key => {
+    issues.push(`${field}.${key}: unknown field (expected one of ${LLM_KEYS.join(', ')})`);
+  });
+  if (value.provider !== undefined && !LLM_PROVIDERS.includes(value.provider as string)) {
+    issues.push(`${field}.provider: must be one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+  LLM_STRING_KEYS.filter(key => value[key] !== undefined && typeof value[key] !== 'string').forEach(key => {
+    issues.push(`${field}.${key}: must be a string`);
+  });
+  if (value.timeoutMs !== undefined && !(typeof value.timeoutMs === 'number' && value.timeoutMs > 0)) {
+    issues.push(`${field}.timeoutMs: must be a positive number of milliseconds, got ${JSON.stringify(value.timeoutMs)}`);
+  }
+  return value as Partial<ProviderConfig>;
+}
+
+function validateDomain(value: unknown, index: number, issues: string[]): DomainOfInterest | null {
+  const field = `domains[${index}]`;
+  if (!isRecord(value)) {
+    issues.push(`${field}: must be a mapping`);
+    return null;
+  }
+
+  Object.keys(value).filter(key => !DOMAIN_KEYS.includes(key)).forEach(key => {
+    issues.push(`${field}.${key}: unknown field (expected one of ${DOMAIN_KEYS.join(', ')})`);
+  });
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    issues.push(`${field}.name: is required`);
+  }
+  const description = typeof value.description === 'string' ? value.description.trim() : '';
+  if (!description) {
+    issues.push(`${field}.description: is required`);
+  }
+
+  const label = name ? `${field} (${name})` : field;
+  const parent = typeof value.parent === 'string' ? value.parent.trim() : null;
+  if (value.parent !== undefined && value.parent !== null && !parent) {
+    issues.push(`${label}.parent: must be the name of another domain`);
+  }
+  return {
+    name,
+    description,
+    keywords: readStringList(value.keywords, `${label}.keywords`, issues),
+    examples: readStringList(value.examples, `${label}.examples`, issues),
+    negativeExamples: readStringList(value.negativeExamples, `${label}.negativeExamples`, issues),
+    threshold: readNumber(value.threshold, `${label}.threshold`, DEFAULT_THRESHOLD, issues, 0, 10),
+    priority: readNumber(value.priority, `${label}.priority`, 0, issues),
+    parent: parent || null,
+    llm: readLlmOverride(value.llm, `${label}.llm`, issues)
+  };
+}
+
+/**
+ * Validates a parsed config document. Collects every problem instead of stopping at the first,
+ * so a broken config can be fixed in one pass.
+ */
+function validateDomainsConfig(document: unknown, source: string): DomainOfInterest[] {
+  const issues: string[] = [];
+
+  if (!isRecord(document) || !Array.isArray(document.domains)) {
+    throw new DomainConfigError(source, ['top level must be a mapping with a "domains" list']);
+  }
+  Object.keys(document).filter(key => key !== 'domains').forEach(key => {
+    issues.push(`${key}: unknown top-level field`);
+  });
+  if (document.domains.length === 0) {
+    issues.push('domains: must contain at least one domain');
+  }
+
+  const domains = document.domains.map((domain, index) => validateDomain(domain, index, issues));
+
+  const seen = new Set<string>();
+  domains.forEach((domain, index) => {
+    if (domain?.name) {
+      if (seen.has(domain.name.toLowerCase())) {
+        issues.push(`domains[${index}].name: duplicate domain "${domain.name}"`);
+      }
+      seen.add(domain.name.toLowerCase());
+    }
+  });
+
+  // Parents must exist and the taxonomy must be a tree
+  const byName = new Map(domains.filter(domain => domain?.name).map(domain => [domain!.name.toLowerCase(), domain!]));
+  domains.forEach((domain, index) => {
+    if (!domain?.parent) {
+      return;
+    }
+    const label = `domains[${index}] (${domain.name})`;
+    if (!byName.has(domain.parent.toLowerCase())) {
+      issues.push(`${label}.parent: unknown domain "${domain.parent}"`);
+      return;
+    }
+    const visited = new Set<string>([domain.name.toLowerCase()]);
+    for (let ancestor = byName.get(domain.parent.toLowerCase()); ancestor; ancestor = ancestor.parent ? byName.get(ancestor.parent.toLowerCase()) : undefined) {
+      if (visited.has(ancestor.name.toLowerCase())) {
+        issues.push(`${label}.parent: "${domain.parent}" leads back to "${ancestor.name}", parents can't form a cycle`);
+        break;
+      }
+      visited.add(ancestor.name.toLowerCase());
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new DomainConfigError(source, issues);
+  }
+  return domains as DomainOfInterest[];
+}
+
+// Names from the top-level domain down to `name`: ["Technology & AI", "LLMs"]
+function domainPath(domains: DomainOfInterest[], name: string): string[] {
+  const byName = new Map(domains.map(domain => [domain.name.toLowerCase(), domain]));
+  const path: string[] = [];
+  for (let domain = byName.get(name.toLowerCase()); domain && !path.includes(domain.name); domain = domain.parent ? byName.get(domain.parent.toLowerCase()) : undefined) {
+    path.unshift(domain.name);
+  }
+  return path.length > 0 ? path : [name];
+}
+
+// Reads a .yaml/.yml or .json domain config
+function loadDomainsConfig(filePath: string): DomainOfInterest[] {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new DomainConfigError(filePath, [(error as Error).message]);
+  }
+  return validateDomainsConfig(document, filePath);
+}
+
+/**
+ * Domains for this run: the explicit path, else DOMAINS_CONFIG, else domains.yaml when present,
+ * else the built-in defaults.
+ */
+function resolveDomains(configPath?: string): DomainOfInterest[] {
+  const explicit = configPath || process.env.DOMAINS_CONFIG;
+  if (explicit) {
+    return loadDomainsConfig(explicit);
+  }
+  if (fs.existsSync(DEFAULT_DOMAINS_CONFIG_PATH)) {
+    return loadDomainsConfig(DEFAULT_DOMAINS_CONFIG_PATH);
+  }
+  return DEFAULT_DOMAINS;
+}
+
+export {
+  DomainOfInterest,
+  DomainConfigError,
+  DEFAULT_DOMAINS,
+  DEFAULT_DOMAINS_CONFIG_PATH,
+  DEFAULT_THRESHOLD,
+  validateDomainsConfig,
+  domainPath,
+  loadDomainsConfig,
+  resolveDomains
+};
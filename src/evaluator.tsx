@@ -1,28 +1,25 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import * as fs from 'fs';
-import { CleanedTrendData } from './data-cleaner';
+import * as path from 'path';
+import { CleanedTrendData, NormalizedTrendMetrics, parseCleanedDataCSV } from './data-cleaner';
 import * as dotenv from 'dotenv';
+import { DEFAULT_STORE_PATH, TrendStore, trendKey } from './trend-store';
+import { SnapshotLifecycles, TrendLifecycle, computeSnapshotLifecycles } from './trend-lifecycle';
+import { GenerateOptions, JsonSchema, LLMProvider, createProviderFromEnv } from './llm-provider';
+import { RetryError, RetryOptions, withRetry } from './retry';
+import { TokenBucket, runPool } from './concurrency';
+import { CacheTags, LLMCache, hashValue } from './llm-cache';
+import { SchemaIssue, ValidationIssue, parseJsonResponse, validateSchema } from './llm-schema';
+import { findLatestSnapshot } from './html-snapshot';
+import { TrendResearch } from './research';
+import { PriorityScore, explainPriority, rankByPriority } from './priority';
+import { PriorityConfig, PriorityConfigError, resolvePriorityConfig } from './priority-config';
+import { DEFAULT_FEEDBACK_EXAMPLES, DomainFeedbackExamples, feedbackExamples } from './feedback';
+import { ClusterOptions, ClusterSummary, StoryCluster, clusterTrends, summarizeCluster } from './story-clusters';
+import { DEFAULT_DOMAINS, DEFAULT_THRESHOLD, DomainConfigError, DomainOfInterest, domainPath, resolveDomains } from './domain-config';
 
 // Load environment variables
 dotenv.config();
 
-// Define your domains of interest
-interface DomainOfInterest {
-  name: string;
-  description: string;
-  keywords: string[];
-  examples: string[];
-}
-
-const DOMAINS_OF_INTEREST: DomainOfInterest[] = [
-  {
-    name: "Technology & AI",
-    description: "Artificial intelligence, machine learning, software development, tech companies, programming languages, tech trends",
-    keywords: ["AI", "machine learning", "software", "tech", "programming", "blockchain", "crypto", "startup"],
-    examples: ["ChatGPT", "iPhone release", "Google AI", "Tesla", "cryptocurrency crash"]
-  }
-];
-
 interface DomainEvaluation {
   domain: string;
   relevance: number;
@@ -30,222 +27,867 @@ interface DomainEvaluation {
   isMatch: boolean;
 }
 
+// A domain the trend belongs to, on its own score or through one of its subdomains
+interface DomainLabel {
+  domain: string;
+  score: number;            // 0-1: the domain's relevance, or its best matching subdomain's when that is higher
+  relevance: number;        // the model's own 0-10 score for this domain
+  via: string | null;       // subdomain the score was rolled up from, null when the domain matched on its own
+  path: string[];           // top-level domain first, e.g. ["Technology & AI", "LLMs"]
+}
+
 interface EvaluationResult {
   trend: string;
-  classification: string;
+  classification: string;             // the best matching domain, or UNCLASSIFIED
+  labels: DomainLabel[];              // every domain the trend matches, best first; empty when unclassified
   confidence: number;
   reasoning: string;
   domainEvaluations: DomainEvaluation[];
   searchVolume: string;
   growth: string;
   timeAgo: string;
+  relatedSearches: string[];
+  normalized: NormalizedTrendMetrics;
+  lifecycle: TrendLifecycle | null; // null when the trend's snapshot isn't in the trend store
+  validationIssues: ValidationIssue[]; // problems found in the model's answers for this trend, repaired or not
+  geo: string | null;                 // from the snapshot the trend was scraped in, when known
+  research: TrendResearch | null;     // filled in by the research step for matched trends
+  priority: PriorityScore | null;     // ranking score and what each factor added to it, see rankByPriority
+  cluster: ClusterSummary | null;     // the trends this result stands for, when it is a story of several
+}
+
+interface TopicEvaluatorOptions {
+  domains?: DomainOfInterest[];                  // defaults to the built-in domains
+  domainProviders?: Record<string, LLMProvider>; // per-domain model overrides, keyed by domain name
+  cache?: LLMCache;                              // answers reused across runs; no caching when omitted
+  requestsPerMinute?: Record<string, number>;    // rate limit per provider name, merged over the defaults
+  retry?: Partial<RetryOptions>;                 // backoff for 429/5xx responses
+  maxRepairAttempts?: number;                    // re-prompts after an invalid answer, defaults to 2
+  feedback?: Record<string, DomainFeedbackExamples>; // trends readers judged, shown as examples per domain name
+}
+
+// Free-tier friendly request rates; the mock is never limited
+const DEFAULT_REQUESTS_PER_MINUTE: Record<string, number> = {
+  gemini: 15,
+  openai: 60
+};
+
+// Bump whenever the prompt or response schema changes, so cached answers aren't reused
+const PROMPT_VERSION = 'batch-v3';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Classification of trends no domain reaches its threshold for
+const UNCLASSIFIED = 'Other/Unclassified';
+
+// Reasoning of the placeholder scored 0 for a domain the model never answered for a trend
+const NO_EVALUATION_REASONING = 'No evaluation returned for this trend and domain';
+
+// Response format declared to the model: every trend of the batch scored against every domain
+const EVALUATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    trends: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer', description: 'Number of the trending topic in the list' },
+          summary: { type: 'string', description: 'Concise final reasoning (2-3 sentences) for the best classification' },
+          domains: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                domain: { type: 'string', description: 'Domain name, exactly as given' },
+                relevance: { type: 'integer', description: 'Relevance score from 0-10', minimum: 0, maximum: 10 },
+                reasoning: { type: 'string', description: 'Brief explanation of the score', minLength: 1 },
+                isMatch: { type: 'boolean', description: 'Whether the relevance reaches the domain threshold' }
+              },
+              required: ['domain', 'relevance', 'reasoning', 'isMatch']
+            }
+          }
+        },
+        required: ['index', 'summary', 'domains']
+      }
+    }
+  },
+  required: ['trends']
+};
+
+interface BatchTrendResponse {
+  index: number;
+  summary: string;
+  domains: DomainEvaluation[];
+  validationIssues: ValidationIssue[];
+}
+
+// A validation problem, tied to a trend of the batch when it concerns only that one
+type BatchIssue = SchemaIssue & { trendIndex?: number };
+
+interface RawTrendEntry {
+  index?: unknown;
+  summary?: unknown;
+  domains?: { domain?: unknown; relevance?: unknown; reasoning?: unknown; isMatch?: unknown }[];
+}
+
+function rawEntries(value: unknown): RawTrendEntry[] {
+  const trends = (value as { trends?: unknown } | null)?.trends;
+  return Array.isArray(trends) ? trends.filter(entry => entry && typeof entry === 'object') : [];
+}
+
+function isBatchIndex(index: unknown, size: number): index is number {
+  return Number.isInteger(index) && (index as number) >= 0 && (index as number) < size;
+}
+
+/**
+ * Everything wrong with a parsed evaluation response: schema violations plus the checks a schema
+ * can't express (each topic and domain answered exactly once, isMatch agreeing with the threshold).
+ */
+function checkEvaluationResponse(value: unknown, batchSize: number, domains: DomainOfInterest[]): BatchIssue[] {
+  const entries = rawEntries(value);
+  const trendIndexAt = (path: string) => {
+    const position = path.match(/^\$\.trends\[(\d+)\]/);
+    const index = position ? entries[Number(position[1])]?.index : undefined;
+    return isBatchIndex(index, batchSize) ? index : undefined;
+  };
+  const issues: BatchIssue[] = validateSchema(value, EVALUATION_SCHEMA)
+    .map(issue => ({ ...issue, trendIndex: trendIndexAt(issue.path) }));
+
+  const answered = new Set<number>();
+  entries.forEach((entry, position) => {
+    const path = `$.trends[${position}]`;
+    if (!isBatchIndex(entry.index, batchSize)) {
+      if (Number.isInteger(entry.index)) {
+        issues.push({ path: `${path}.index`, message: `no topic [${entry.index}] in this batch of ${batchSize}` });
+      }
+      return;
+    }
+    const trendIndex = entry.index;
+    if (answered.has(trendIndex)) {
+      issues.push({ path: `${path}.index`, message: `topic [${trendIndex}] is answered more than once`, trendIndex });
+      return;
+    }
+    answered.add(trendIndex);
+
+    const seen = new Set<string>();
+    (Array.isArray(entry.domains) ? entry.domains : []).forEach((evaluation, domainPosition) => {
+      const domainPath = `${path}.domains[${domainPosition}]`;
+      const domain = domains.find(d => d.name === evaluation?.domain);
+      if (!domain) {
+        issues.push({ path: `${domainPath}.domain`, message: `unknown domain ${JSON.stringify(evaluation?.domain)}`, trendIndex });
+        return;
+      }
+      if (seen.has(domain.name)) {
+        issues.push({ path: `${domainPath}.domain`, message: `"${domain.name}" is answered more than once`, trendIndex });
+        return;
+      }
+      seen.add(domain.name);
+
+      const { relevance, isMatch } = evaluation;
+      if (typeof relevance === 'number' && typeof isMatch === 'boolean' && isMatch !== relevance >= domain.threshold) {
+        issues.push({
+          path: `${domainPath}.isMatch`,
+          message: `is ${isMatch} but relevance ${relevance} is ${isMatch ? 'below' : 'at or above'} the threshold of ${domain.threshold}`,
+          trendIndex
+        });
+      }
+    });
+    domains.filter(domain => !seen.has(domain.name)).forEach(domain => {
+      issues.push({ path: `${path}.domains`, message: `missing an evaluation for "${domain.name}"`, trendIndex });
+    });
+  });
+
+  for (let trendIndex = 0; trendIndex < batchSize; trendIndex++) {
+    if (!answered.has(trendIndex)) {
+      issues.push({ path: '$.trends', message: `missing topic [${trendIndex}]`, trendIndex });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Best-effort reading of a response that is still invalid after every repair: scores are
+ * clamped to 0-10, empty reasoning is filled in and isMatch always follows the threshold.
+ */
+function coerceEvaluationResponse(value: unknown, batchSize: number, domains: DomainOfInterest[]): Map<number, BatchTrendResponse> {
+  const responses = new Map<number, BatchTrendResponse>();
+  for (const entry of rawEntries(value)) {
+    if (!isBatchIndex(entry.index, batchSize) || responses.has(entry.index)) {
+      continue;
+    }
+    const evaluations = Array.isArray(entry.domains) ? entry.domains : [];
+    responses.set(entry.index, {
+      index: entry.index,
+      summary: typeof entry.summary === 'string' ? entry.summary : '',
+      domains: domains.flatMap(domain => {
+        const evaluation = evaluations.find(e => e?.domain === domain.name);
+        if (!evaluation) {
+          return [];
+        }
+        const score = Number(evaluation.relevance);
+        const relevance = isFinite(score) ? Math.min(10, Math.max(0, Math.round(score))) : 0;
+        return [{
+          domain: domain.name,
+          relevance,
+          reasoning: typeof evaluation.reasoning === 'string' && evaluation.reasoning.trim() ? evaluation.reasoning : 'No reasoning provided',
+          isMatch: relevance >= domain.threshold
+        }];
+      }),
+      validationIssues: []
+    });
+  }
+  return responses;
+}
+
+// Related searches in a canonical order, so reordered chips don't miss the cache
+function cacheInputs(trendData: CleanedTrendData): { relatedSearches: string[] } {
+  return { relatedSearches: trendData.relatedSearches.map(trendKey).sort() };
+}
+
+/**
+ * Every domain a trend belongs to: the domains at or over their own threshold, plus all of their
+ * ancestors. A parent scores the best of its own relevance and its matching subdomains', so a
+ * trend only matched as "LLMs" still lands in "Technology & AI". Ordered by score, then the more
+ * specific domain, then domain priority.
+ */
+function labelDomains(evaluations: DomainEvaluation[], domains: DomainOfInterest[]): DomainLabel[] {
+  const domainByName = new Map(domains.map(domain => [domain.name, domain]));
+  const passes = (evaluation: DomainEvaluation) =>
+    evaluation.relevance >= (domainByName.get(evaluation.domain)?.threshold ?? DEFAULT_THRESHOLD);
+  const paths = new Map(evaluations.map(evaluation => [evaluation.domain, domainPath(domains, evaluation.domain)]));
+  
+  const labels = evaluations.flatMap(evaluation => {
+    const path = paths.get(evaluation.domain) as string[];
+    const best = evaluations
+      .filter(other => other.domain !== evaluation.domain && passes(other) && (paths.get(other.domain) as string[]).includes(evaluation.domain))
+      .reduce<DomainEvaluation | null>((top, other) => !top || other.relevance > top.relevance ? other : top, null);
+    if (!passes(evaluation) && !best) {
+      return [];
+    }
+    const rolledUp = best !== null && (!passes(evaluation) || best.relevance > evaluation.relevance);
+    return [{
+      domain: evaluation.domain,
+      score: (rolledUp ? (best as DomainEvaluation).relevance : evaluation.relevance) / 10,
+      relevance: evaluation.relevance,
+      via: rolledUp ? (best as DomainEvaluation).domain : null,
+      path
+    }];
+  });
+  
+  return labels.sort((a, b) =>
+    b.score - a.score
+    || b.path.length - a.path.length
+    || (domainByName.get(b.domain)?.priority ?? 0) - (domainByName.get(a.domain)?.priority ?? 0));
+}
+
+// Labels of a saved result; results written before multi-label output only have their classification
+function resultLabels(result: EvaluationResult): DomainLabel[] {
+  if (result.labels) {
+    return result.labels;
+  }
+  return result.classification === UNCLASSIFIED ? [] : [{
+    domain: result.classification,
+    score: result.confidence,
+    relevance: Math.round(result.confidence * 10),
+    via: null,
+    path: [result.classification]
+  }];
 }
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+// The parts of a domain that shape its answers (not which model scores it), reader judgements included
+function domainDefinitionHash(domain: DomainOfInterest, feedback?: DomainFeedbackExamples): string {
+  const { llm, ...definition } = domain;
+  return hashValue(feedback ? { ...definition, feedback } : definition);
+}
 
 class TopicEvaluator {
+  private domains: DomainOfInterest[];
+  private domainProviders: Record<string, LLMProvider>;
+  private cache: LLMCache | null;
+  private requestsPerMinute: Record<string, number>;
+  private retry: Partial<RetryOptions>;
+  private maxRepairAttempts: number;
+  private feedback: Record<string, DomainFeedbackExamples>;
+  private rateLimiters = new Map<string, TokenBucket | null>();
+
+  /**
+   * @param provider model used for every domain without its own entry in domainProviders
+   */
+  constructor(private provider: LLMProvider, options: TopicEvaluatorOptions = {}) {
+    this.domains = options.domains ?? DEFAULT_DOMAINS;
+    this.domainProviders = options.domainProviders ?? {};
+    this.cache = options.cache ?? null;
+    this.requestsPerMinute = { ...DEFAULT_REQUESTS_PER_MINUTE, ...options.requestsPerMinute };
+    this.retry = options.retry ?? {};
+    this.maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+    this.feedback = options.feedback ?? {};
+  }
+
+  // One token bucket per provider name, shared by every model and domain using it
+  private rateLimiterFor(provider: LLMProvider): TokenBucket | null {
+    if (!this.rateLimiters.has(provider.name)) {
+      const rpm = this.requestsPerMinute[provider.name];
+      this.rateLimiters.set(provider.name, rpm > 0 && isFinite(rpm) ? TokenBucket.perMinute(rpm) : null);
+    }
+    return this.rateLimiters.get(provider.name) ?? null;
+  }
+
+  // Rate-limited provider call, retried with backoff on 429/5xx and network errors
+  private async generate(provider: LLMProvider, prompt: string, options: GenerateOptions): Promise<string> {
+    return withRetry(async () => {
+      await this.rateLimiterFor(provider)?.take();
+      return provider.generate(prompt, options);
+    }, {
+      ...this.retry,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`⏳ ${provider.name} request failed (${(error as Error).message ?? error}), retry ${attempt} in ${delayMs}ms`);
+      }
+    });
+  }
+
+  private providerFor(domain: DomainOfInterest): LLMProvider {
+    return this.domainProviders[domain.name] ?? this.provider;
+  }
+
   async evaluateTrend(trendData: CleanedTrendData): Promise<EvaluationResult> {
-    console.log(`🔍 Evaluating: ${trendData.trendName}`);
+    const [result] = await this.evaluateBatch([trendData]);
+    return result;
+  }
+
+  /**
+   * Scores a batch of trends against all domains with one structured-output request per
+   * provider (a single request unless some domains use their own model).
+   * Rejects with a RetryError when a provider request fails permanently.
+   */
+  async evaluateBatch(trends: CleanedTrendData[]): Promise<EvaluationResult[]> {
+    console.log(`🔍 Evaluating: ${trends.map(t => t.trendName).join(', ')}`);
     
-    // Step 1: Evaluate against each domain
-    const domainEvaluations = await this.evaluateAgainstDomains(trendData);
+    // Step 1: Evaluate against every domain, grouped by the provider that scores them
+    const evaluationsByTrend: DomainEvaluation[][] = trends.map(() => []);
+    const summaries: string[] = trends.map(() => '');
+    const issuesByTrend: ValidationIssue[][] = trends.map(() => []);
+    
+    for (const [provider, domains] of this.groupDomainsByProvider()) {
+      const responses = await this.evaluateWithCache(trends, domains, provider);
+      
+      trends.forEach((trendData, index) => {
+        const response = responses.get(index);
+        summaries[index] = summaries[index] || response?.summary || '';
+        issuesByTrend[index].push(...(response?.validationIssues ?? []));
+        
+        for (const domain of domains) {
+          const evaluation = response?.domains.find(e => e.domain === domain.name);
+          evaluationsByTrend[index].push(evaluation ?? {
+            domain: domain.name,
+            relevance: 0,
+            reasoning: NO_EVALUATION_REASONING,
+            isMatch: false
+          });
+        }
+      });
+    }
     
     // Step 2: Determine final classification
-    const { classification, confidence, reasoning } = await this.getFinalClassification(trendData, domainEvaluations);
+    return trends.map((trendData, index) => {
+      const domainEvaluations = evaluationsByTrend[index];
+      const { classification, confidence, reasoning } = this.getFinalClassification(domainEvaluations, summaries[index]);
+      
+      return {
+        trend: trendData.trendName,
+        classification,
+        labels: labelDomains(domainEvaluations, this.domains),
+        confidence,
+        reasoning,
+        domainEvaluations,
+        searchVolume: trendData.searchVolume,
+        growth: trendData.growthPercentage,
+        timeAgo: trendData.timeAgo,
+        relatedSearches: trendData.relatedSearches,
+        normalized: trendData.normalized,
+        lifecycle: null,
+        validationIssues: issuesByTrend[index],
+        geo: null,
+        research: null,
+        priority: null,
+        cluster: null
+      };
+    });
+  }
+
+  private cacheKeys(trendData: CleanedTrendData, domains: DomainOfInterest[], provider: LLMProvider) {
+    const base = { trend: trendKey(trendData.trendName), model: `${provider.name}/${provider.model}`, promptVersion: PROMPT_VERSION };
+    const inputs = cacheInputs(trendData);
     
-    return {
-      trend: trendData.trendName,
-      classification,
-      confidence,
-      reasoning,
-      domainEvaluations,
-      searchVolume: trendData.searchVolume,
-      growth: trendData.growthPercentage,
-      timeAgo: trendData.timeAgo
-    };
+    const domainKeys = domains.map(domain => {
+      const tags: CacheTags = { ...base, kind: 'domain-evaluation', domain: domain.name };
+      return { tags, key: LLMCache.key(tags, { ...inputs, domain: domainDefinitionHash(domain, this.feedback[domain.name]) }) };
+    });
+    const summaryTags: CacheTags = { ...base, kind: 'final-reasoning' };
+    const summaryKey = LLMCache.key(summaryTags, { ...inputs, domains: domains.map(domain => domainDefinitionHash(domain, this.feedback[domain.name])) });
+    
+    return { domainKeys, summary: { tags: summaryTags, key: summaryKey } };
   }
 
-  private async evaluateAgainstDomains(trendData: CleanedTrendData): Promise<DomainEvaluation[]> {
-    const evaluations: DomainEvaluation[] = [];
+  /**
+   * Answers cached trends from the cache and sends only the rest to the provider.
+   * A trend counts as cached when every domain of the group and its final reasoning are.
+   */
+  private async evaluateWithCache(
+    trends: CleanedTrendData[],
+    domains: DomainOfInterest[],
+    provider: LLMProvider
+  ): Promise<Map<number, BatchTrendResponse>> {
+    const cache = this.cache;
+    if (!cache) {
+      return this.evaluateAgainstDomains(trends, domains, provider);
+    }
     
-    for (const domain of DOMAINS_OF_INTEREST) {
-      try {
-        const evaluation = await this.evaluateSingleDomain(trendData, domain);
-        evaluations.push(evaluation);
-      } catch (error) {
-        console.error(`❌ Error evaluating ${domain.name}:`, error);
-        evaluations.push({
-          domain: domain.name,
-          relevance: 0,
-          reasoning: "Error during evaluation",
-          isMatch: false
-        });
+    const responses = new Map<number, BatchTrendResponse>();
+    const pending: number[] = [];
+    
+    trends.forEach((trendData, index) => {
+      const keys = this.cacheKeys(trendData, domains, provider);
+      const evaluations = keys.domainKeys.map(({ key }) => cache.get<DomainEvaluation>(key));
+      const summary = cache.get<string>(keys.summary.key);
+      
+      if (summary !== undefined && evaluations.every(evaluation => evaluation !== undefined)) {
+        responses.set(index, { index, summary, domains: evaluations as DomainEvaluation[], validationIssues: [] });
+      } else {
+        pending.push(index);
       }
+    });
+    
+    if (pending.length === 0) {
+      return responses;
     }
     
-    return evaluations;
+    const fresh = await this.evaluateAgainstDomains(pending.map(index => trends[index]), domains, provider);
+    
+    pending.forEach((index, batchIndex) => {
+      const response = fresh.get(batchIndex);
+      if (!response) {
+        return;
+      }
+      responses.set(index, { ...response, index });
+      
+      // Only complete, valid answers are cached, so anything else gets asked again next time
+      if (response.validationIssues.some(issue => !issue.resolved)) {
+        return;
+      }
+      const keys = this.cacheKeys(trends[index], domains, provider);
+      keys.domainKeys.forEach(({ key, tags }) => {
+        const evaluation = response.domains.find(e => e.domain === tags.domain);
+        if (evaluation) {
+          cache.set(key, evaluation, tags);
+        }
+      });
+      if (response.summary) {
+        cache.set(keys.summary.key, response.summary, keys.summary.tags);
+      }
+    });
+    
+    return responses;
+  }
+
+  private groupDomainsByProvider(): Map<LLMProvider, DomainOfInterest[]> {
+    const groups = new Map<LLMProvider, DomainOfInterest[]>();
+    for (const domain of this.domains) {
+      const provider = this.providerFor(domain);
+      groups.set(provider, [...(groups.get(provider) ?? []), domain]);
+    }
+    return groups;
   }
 
-  private async evaluateSingleDomain(trendData: CleanedTrendData, domain: DomainOfInterest): Promise<DomainEvaluation> {
+  /**
+   * Responses keyed by the trend's index in the batch. Answers failing validation are sent back
+   * with the problems for up to maxRepairAttempts repairs; whatever is still wrong after that is
+   * coerced into range and reported in each trend's validationIssues.
+   */
+  private async evaluateAgainstDomains(
+    trends: CleanedTrendData[],
+    domains: DomainOfInterest[],
+    provider: LLMProvider
+  ): Promise<Map<number, BatchTrendResponse>> {
     const prompt = `
-You are an expert content classifier. Evaluate how relevant this trending topic is to the given domain.
+You are an expert content classifier. Evaluate how relevant each trending topic below is to each of the given domains.
+
+DOMAINS TO EVALUATE:
+${domains.map(domain => `
+- Name: ${domain.name}${domain.parent ? `
+  Subtopic of: ${domain.parent}` : ''}
+  Description: ${domain.description}
+  Keywords: ${domain.keywords.join(', ')}
+  Examples: ${domain.examples.join(', ')}
+  Not to be confused with: ${domain.negativeExamples.join(', ') || 'n/a'}${this.feedbackLines(domain)}
+  Match threshold: ${domain.threshold}`).join('\n')}
 
-TRENDING TOPIC:
-- Name: ${trendData.trendName}
-- Search Volume: ${trendData.searchVolume}
-- Growth: ${trendData.growthPercentage}
-- Related Searches: ${trendData.relatedSearches.join(', ')}
+TRENDING TOPICS:
+${trends.map((trendData, index) => `
+[${index}] Name: ${trendData.trendName}
+    Search Volume: ${trendData.searchVolume}
+    Growth: ${trendData.growthPercentage}
+    Related Searches: ${trendData.relatedSearches.join(', ')}`).join('\n')}
 
-DOMAIN TO EVALUATE:
-- Name: ${domain.name}
-- Description: ${domain.description}
-- Keywords: ${domain.keywords.join(', ')}
-- Examples: ${domain.examples.join(', ')}
+A topic can belong to several domains at once (e.g. a company's earnings can be both technology and finance), so score every domain on its own. A subtopic is a narrower part of its parent domain: a topic that fits the subtopic also fits the parent.
 
-Please provide:
-1. A relevance score from 0-10 (10 = highly relevant, 0 = not relevant at all)
-2. A brief explanation of your reasoning
-3. Whether this is a clear match (true/false)
+For every trending topic and every domain, please provide:
+1. A relevance score, a whole number from 0-10 (10 = highly relevant, 0 = not relevant at all)
+2. A brief, non-empty explanation of your reasoning
+3. Whether this is a match: true exactly when the relevance is at or above the domain's match threshold
+Then give a concise final reasoning (2-3 sentences) for the topic's best classification.
 
 Respond in JSON format:
 {
-  "relevance": <number>,
-  "reasoning": "<explanation>",
-  "isMatch": <boolean>
+  "trends": [
+    {
+      "index": <topic number>,
+      "summary": "<final reasoning>",
+      "domains": [
+        { "domain": "<domain name>", "relevance": <integer 0-10>, "reasoning": "<explanation>", "isMatch": <boolean> }
+      ]
+    }
+  ]
 }
 `;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
+    const issues: (ValidationIssue & { trendIndex?: number })[] = [];
+    let accepted: { value: unknown; attempt: number; issues: BatchIssue[] } | null = null;
+    let attemptPrompt = prompt;
     
-    // Extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
+    for (let attempt = 1; attempt <= 1 + this.maxRepairAttempts; attempt++) {
+      const response = await this.generate(provider, attemptPrompt, { responseSchema: EVALUATION_SCHEMA });
+      const { value, issue } = parseJsonResponse(response);
+      const attemptIssues = issue ? [issue] : checkEvaluationResponse(value, trends.length, domains);
+      issues.push(...attemptIssues.map(found => ({ ...found, attempt, resolved: false })));
+      if (!issue) {
+        accepted = { value, attempt, issues: attemptIssues };
+      }
+      if (attemptIssues.length === 0) {
+        break;
+      }
+      
+      if (attempt <= this.maxRepairAttempts) {
+        console.warn(`⚠️ ${provider.name} answer has ${attemptIssues.length} validation issue(s), asking for a repair (${attempt}/${this.maxRepairAttempts})`);
+      }
+      attemptPrompt = `${prompt}
+Your previous answer was invalid:
+${response}
+
+Problems found:
+${attemptIssues.map(found => `- ${found.path}: ${found.message}`).join('\n')}
+
+Respond again with the complete, corrected JSON for every topic and every domain.
+`;
     }
     
-    const evaluation = JSON.parse(jsonMatch[0]);
+    if (!accepted) {
+      throw new Error(`Invalid response after ${issues[issues.length - 1].attempt} attempts: ${issues[issues.length - 1].message}`);
+    }
     
-    return {
-      domain: domain.name,
-      relevance: evaluation.relevance || 0,
-      reasoning: evaluation.reasoning || 'No reasoning provided',
-      isMatch: evaluation.isMatch || false
-    };
+    // An earlier problem counts as repaired when the accepted answer has nothing wrong at the same place
+    const final = accepted;
+    issues.forEach(found => {
+      found.resolved = found.attempt !== final.attempt && !final.issues.some(remaining =>
+        remaining.path === found.path && remaining.trendIndex === found.trendIndex
+      );
+    });
+    
+    const responses = coerceEvaluationResponse(final.value, trends.length, domains);
+    trends.forEach((_trendData, index) => {
+      const trendIssues = issues
+        .filter(found => found.trendIndex === undefined || found.trendIndex === index)
+        .map(({ trendIndex, ...found }) => found);
+      const response = responses.get(index);
+      if (response) {
+        response.validationIssues = trendIssues;
+      } else if (trendIssues.length > 0) {
+        // Keep the issues of a topic the model never answered, so they reach the result
+        responses.set(index, { index, summary: '', domains: [], validationIssues: trendIssues });
+      }
+    });
+    
+    return responses;
+  }
+
+  // Trends readers marked for this domain, as few-shot examples next to the configured ones
+  private feedbackLines(domain: DomainOfInterest): string {
+    const feedback = this.feedback[domain.name];
+    return [
+      feedback?.relevant.length ? `\n  Readers marked relevant: ${feedback.relevant.join(', ')}` : '',
+      feedback?.irrelevant.length ? `\n  Readers marked not relevant: ${feedback.irrelevant.join(', ')}` : ''
+    ].join('');
   }
 
-  private async getFinalClassification(
-    trendData: CleanedTrendData, 
-    evaluations: DomainEvaluation[]
-  ): Promise<{ classification: string; confidence: number; reasoning: string }> {
+  private getFinalClassification(
+    evaluations: DomainEvaluation[],
+    summary: string
+  ): { classification: string; confidence: number; reasoning: string } {
     
-    // Find the highest scoring domain
-    const bestMatch = evaluations.reduce((best, current) => 
-      current.relevance > best.relevance ? current : best
-    );
+    // Each domain has its own minimum relevance score for classification
+    const domainByName = new Map(this.domains.map(domain => [domain.name, domain]));
+    const passes = (evaluation: DomainEvaluation) =>
+      evaluation.relevance >= (domainByName.get(evaluation.domain)?.threshold ?? DEFAULT_THRESHOLD);
+    const priority = (evaluation: DomainEvaluation) => domainByName.get(evaluation.domain)?.priority ?? 0;
+    
+    // Find the highest scoring domain, preferring domains over their threshold, then higher priority
+    const bestMatch = evaluations.reduce((best, current) => {
+      if (passes(current) !== passes(best)) {
+        return passes(current) ? current : best;
+      }
+      if (current.relevance !== best.relevance) {
+        return current.relevance > best.relevance ? current : best;
+      }
+      return priority(current) > priority(best) ? current : best;
+    });
     
     // Determine if we have a confident classification
-    const threshold = 6; // Minimum relevance score for classification
-    const classification = bestMatch.relevance >= threshold ? bestMatch.domain : "Other/Unclassified";
+    const classification = passes(bestMatch) ? bestMatch.domain : UNCLASSIFIED;
     const confidence = bestMatch.relevance / 10;
     
-    // Generate overall reasoning with Gemini
-    const prompt = `
-Based on these domain evaluations for the trending topic "${trendData.trendName}", provide a final summary:
+    // The final reasoning comes from the same structured response as the scores
+    return {
+      classification,
+      confidence,
+      reasoning: summary.trim() || `Classified as ${classification} based on highest relevance score of ${bestMatch.relevance}/10`
+    };
+  }
+}
+
+// Main evaluation function
+interface EvaluateOptions {
+  storePath?: string | null;                       // null skips the trend store
+  provider?: LLMProvider;                          // defaults to the provider selected by the environment
+  domains?: DomainOfInterest[];                    // defaults to resolveDomains(): DOMAINS_CONFIG or domains.yaml
+  domainProviders?: Record<string, LLMProvider>;   // defaults to each domain's `llm` override
+  batchSize?: number;                              // trends scored per request, defaults to EVAL_BATCH_SIZE or 10
+  cache?: LLMCache;                                // defaults to LLMCache.fromEnv()
+  concurrency?: number;                            // batches in flight, defaults to EVAL_CONCURRENCY or 2
+  requestsPerMinute?: Record<string, number>;      // per provider, defaults to LLM_REQUESTS_PER_MINUTE for the main provider
+  outputDir?: string;                              // where result files are written, defaults to the working directory
+  priority?: PriorityConfig;                       // ranking weights, defaults to resolvePriorityConfig(): PRIORITY_CONFIG or priority.yaml
+  clusters?: Partial<ClusterOptions> | false;      // story clustering; false (or STORY_CLUSTERS=off) evaluates every trend on its own
+  feedbackExamples?: number;                       // reader judgements shown per domain and verdict, from the trend store;
+                                                   // defaults to FEEDBACK_EXAMPLES or 5, 0 leaves them out
+}
 
-EVALUATIONS:
-${evaluations.map(e => `- ${e.domain}: ${e.relevance}/10 - ${e.reasoning}`).join('\n')}
+// A trend that couldn't be evaluated, reported apart from the results
+interface EvaluationFailure {
+  trend: string;
+  error: string;
+  attempts: number;
+}
 
-BEST MATCH: ${classification} (confidence: ${(confidence * 100).toFixed(1)}%)
+interface EvaluationRun {
+  results: EvaluationResult[];
+  failures: EvaluationFailure[];
+  outputPath: string | null;
+}
 
-Provide a concise final reasoning (2-3 sentences) for this classification:
-`;
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_CONCURRENCY = 2;
 
-    try {
-      const result = await model.generateContent(prompt);
-      const reasoning = result.response.text().trim();
-      
-      return { classification, confidence, reasoning };
-    } catch (error) {
-      return {
-        classification,
-        confidence,
-        reasoning: `Classified as ${classification} based on highest relevance score of ${bestMatch.relevance}/10`
-      };
-    }
-  }
+// Providers for domains that declare their own model in the config
+function createDomainProviders(domains: DomainOfInterest[]): Record<string, LLMProvider> {
+  const providers: Record<string, LLMProvider> = {};
+  domains.filter(domain => domain.llm).forEach(domain => {
+    providers[domain.name] = createProviderFromEnv(process.env, domain.llm);
+  });
+  return providers;
 }
 
-// Main evaluation function
-export async function evaluateTopics(csvFilePath: string): Promise<void> {
-  const evaluator = new TopicEvaluator();
+export async function evaluateTopics(csvFilePath: string, options: EvaluateOptions = {}): Promise<EvaluationRun> {
+  const storePath = options.storePath === undefined ? process.env.TRENDS_DB || DEFAULT_STORE_PATH : options.storePath;
+  const domains = options.domains ?? resolveDomains();
+  const priorityConfig = options.priority ?? resolvePriorityConfig();
+  const cache = options.cache ?? LLMCache.fromEnv();
+  const provider = options.provider ?? createProviderFromEnv();
+  const envRpm = Number(process.env.LLM_REQUESTS_PER_MINUTE);
+  const envExamples = process.env.FEEDBACK_EXAMPLES === undefined ? NaN : Number(process.env.FEEDBACK_EXAMPLES);
+  const exampleCount = options.feedbackExamples ?? (envExamples >= 0 ? envExamples : DEFAULT_FEEDBACK_EXAMPLES);
+  const batchSize = Math.max(1, options.batchSize ?? (Number(process.env.EVAL_BATCH_SIZE) || DEFAULT_BATCH_SIZE));
+  const concurrency = Math.max(1, options.concurrency ?? (Number(process.env.EVAL_CONCURRENCY) || DEFAULT_CONCURRENCY));
+  
+  const run: EvaluationRun = { results: [], failures: [], outputPath: null };
+  let store: TrendStore | null = null;
   
   try {
+    // A store that can't be opened fails the run like any other error: no output file
+    store = storePath ? await TrendStore.open(storePath) : null;
+    const evaluator = new TopicEvaluator(provider, {
+      domains,
+      domainProviders: options.domainProviders ?? createDomainProviders(domains),
+      cache,
+      requestsPerMinute: options.requestsPerMinute ?? (envRpm > 0 ? { [provider.name]: envRpm } : undefined),
+      feedback: store && exampleCount > 0 ? feedbackExamples(store, exampleCount) : undefined
+    });
+    
     // Read and parse CSV
     const csvContent = fs.readFileSync(csvFilePath, 'utf8');
-    const lines = csvContent.split('\n').slice(1).filter(line => line.trim());
+    const records = parseCleanedDataCSV(csvContent);
     
-    const results: EvaluationResult[] = [];
+    // Label each trend against the previous snapshot with the same parameters
+    const lifecyclesBySnapshot = new Map<string, SnapshotLifecycles>();
+    if (store) {
+      for (const { snapshot } of records) {
+        const key = JSON.stringify(snapshot);
+        if (snapshot && !lifecyclesBySnapshot.has(key)) {
+          const trends = records.filter(r => JSON.stringify(r.snapshot) === key).map(r => r.trend);
+          lifecyclesBySnapshot.set(key, computeSnapshotLifecycles(store, snapshot, trends));
+        }
+      }
+    }
     
-    for (const line of lines) {
-      // Parse CSV line (basic parsing)
-      const [name, volume, timeAgo, growth, relatedSearches] = line.split(',').map(field => 
-        field.replace(/^"|"$/g, '').trim()
-      );
-      
-      if (!name) continue;
-      
-      const trendData: CleanedTrendData = {
-        trendName: name,
-        searchVolume: volume || '',
-        timeAgo: timeAgo || '',
-        growthPercentage: growth || '',
-        relatedSearches: relatedSearches ? relatedSearches.split(';').map(s => s.trim()) : []
-      };
-      
-      // Evaluate the trend
-      const result = await evaluator.evaluateTrend(trendData);
-      results.push(result);
+    // Trends about the same event are evaluated and reported once, as one story
+    const clusters = clusterTrends(records, options.clusters ?? (process.env.STORY_CLUSTERS === 'off' ? false : {}));
+    if (clusters.length < records.length) {
+      console.log(`🧩 ${records.length} trends grouped into ${clusters.length} stories`);
+    }
+    
+    const batches: StoryCluster[][] = [];
+    for (let start = 0; start < clusters.length; start += batchSize) {
+      batches.push(clusters.slice(start, start + batchSize));
+    }
+    
+    // Evaluate batches concurrently; each batch is one request per provider
+    const outcomes = await runPool(batches, concurrency, batch => evaluator.evaluateBatch(batch.map(cluster => cluster.trend)));
+    
+    outcomes.forEach((outcome, batchIndex) => {
+      const batch = batches[batchIndex];
       
-      console.log(`✅ ${result.trend} → ${result.classification} (${(result.confidence * 100).toFixed(1)}%)`);
+      if (outcome.status === 'rejected') {
+        const error = outcome.reason;
+        batch.forEach(({ trend }) => {
+          run.failures.push({
+            trend: trend.trendName,
+            error: error instanceof RetryError && error.lastError instanceof Error ? error.lastError.message : String(error?.message ?? error),
+            attempts: error instanceof RetryError ? error.attempts : 1
+          });
+          console.log(`❌ ${trend.trendName} → evaluation failed`);
+        });
+        return;
+      }
       
-      // Small delay to avoid rate limits
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
+      batch.forEach((cluster, index) => {
+        const { snapshot } = cluster;
+        const result = outcome.value[index];
+        result.geo = snapshot?.geo ?? null;
+        result.lifecycle = lifecyclesBySnapshot.get(JSON.stringify(snapshot))?.lifecycles.get(trendKey(cluster.title)) ?? null;
+        result.cluster = cluster.members.length > 1 ? summarizeCluster(cluster) : null;
+        run.results.push(result);
+        
+        // Keep every classification in each member trend's history (rows without snapshot columns can't be placed)
+        if (store && snapshot) {
+          const snapshotId = store.recordSnapshot(snapshot, cluster.members.map(member => member.trend), csvFilePath);
+          for (const member of cluster.members) {
+            store.recordEvaluation({ ...result, trend: member.trend.trendName }, snapshot.geo, snapshotId);
+          }
+        }
+        
+        const others = cluster.members.length - 1;
+        console.log(`✅ ${result.trend} → ${result.classification} (${(result.confidence * 100).toFixed(1)}%)${result.lifecycle ? ` [${result.lifecycle.stage}]` : ''}${others > 0 ? ` +${others} related trend${others === 1 ? '' : 's'}` : ''}`);
+      });
+    });
+    
+    // Most important first, with the score's breakdown kept on each result
+    run.results = rankByPriority(run.results, priorityConfig);
     
     // Save results
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const outputPath = `trend_evaluations_${timestamp}.json`;
-    fs.writeFileSync(outputPath, JSON.stringify(results, null, 2));
+    const outputPath = path.join(options.outputDir ?? '.', `trend_evaluations_${timestamp}.json`);
+    fs.writeFileSync(outputPath, JSON.stringify(run.results, null, 2));
+    run.outputPath = outputPath;
     
     console.log(`\n📊 Evaluation complete! Results saved to: ${outputPath}`);
-    console.log(`📈 Processed ${results.length} trends`);
+    console.log(`📈 Processed ${run.results.length} trends`);
     
-    // Summary statistics
-    const classifications = results.reduce((acc, r) => {
-      acc[r.classification] = (acc[r.classification] || 0) + 1;
+    // Failed trends are kept apart instead of being scored as "not relevant"
+    if (run.failures.length > 0) {
+      const failuresPath = path.join(options.outputDir ?? '.', `trend_evaluation_failures_${timestamp}.json`);
+      fs.writeFileSync(failuresPath, JSON.stringify(run.failures, null, 2));
+      console.log(`\n⚠️ ${run.failures.length} trends failed permanently, see ${failuresPath}:`);
+      run.failures.forEach(failure => {
+        console.log(`   ${failure.trend}: ${failure.error} (${failure.attempts} attempts)`);
+      });
+    }
+    
+    // Summary statistics; a trend counts towards every domain it's labelled with
+    const classifications = run.results.reduce((acc, r) => {
+      const labels = r.labels.length > 0 ? r.labels.map(label => label.path.join(' › ')) : [UNCLASSIFIED];
+      labels.forEach(label => {
+        acc[label] = (acc[label] || 0) + 1;
+      });
       return acc;
     }, {} as Record<string, number>);
     
     console.log('\n📋 Classification Summary:');
-    Object.entries(classifications).forEach(([classification, count]) => {
+    Object.entries(classifications).sort(([a], [b]) => a.localeCompare(b)).forEach(([classification, count]) => {
       console.log(`   ${classification}: ${count} trends`);
     });
     
+    console.log('\n🏆 Top trends by priority:');
+    run.results.slice(0, 5).forEach((result, index) => {
+      console.log(`   ${index + 1}. ${result.trend} (${result.classification}): ${explainPriority(result.priority as PriorityScore)}`);
+    });
+    
+    console.log(`\n🗄️ LLM cache: ${cache.report()}`);
+    
   } catch (error) {
     console.error('❌ Error during evaluation:', error);
+  } finally {
+    cache.save();
+    store?.close();
   }
+  
+  return run;
 }
 
 // Usage
 if (require.main === module) {
-  if (!process.env.GEMINI_API_KEY) {
-    console.error('❌ Please set GEMINI_API_KEY environment variable');
+  let provider: LLMProvider;
+  let domains: DomainOfInterest[];
+  let priority: PriorityConfig;
+  try {
+    provider = createProviderFromEnv();
+    domains = resolveDomains();
+    priority = resolvePriorityConfig();
+  } catch (error) {
+    if (error instanceof DomainConfigError || error instanceof PriorityConfigError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error(`❌ ${(error as Error).message} (set LLM_PROVIDER to gemini, openai or mock)`);
+    }
     process.exit(1);
   }
   
-  const csvFile = process.argv[2] || 'trending_topics_latest.csv';
-  evaluateTopics(csvFile);
-}
\ No newline at end of file
+  // Without an argument, evaluate the snapshot the scraper wrote last
+  const csvFile = process.argv[2] || findLatestSnapshot('.csv');
+  if (!csvFile) {
+    console.error('❌ No trending_topics_*.csv snapshot found; run the scraper first or pass a CSV file');
+    process.exit(1);
+  }
+  (async () => {
+    const run = await evaluateTopics(csvFile, { provider, domains, priority });
+    // evaluateTopics reports its own errors; the exit code tells scripts the run did not complete
+    if (!run.outputPath || run.failures.length > 0) {
+      process.exitCode = 1;
+    }
+  })();
+}
+
+export {
+  PROMPT_VERSION,
+  UNCLASSIFIED,
+  NO_EVALUATION_REASONING,
+  labelDomains,
+  resultLabels,
+  TopicEvaluator,
+  TopicEvaluatorOptions,
+  DomainOfInterest,
+  DomainEvaluation,
+  DomainLabel,
+  EvaluationResult,
+  EvaluationFailure,
+  EvaluationRun,
+  EvaluateOptions
+};
@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_STORE_PATH, FeedbackVerdict, TrendFeedback, TrendStore, trendKey } from './trend-store';
+import { DomainConfigError, DomainOfInterest, resolveDomains } from './domain-config';
+
+// Judged trends shown to the model for one domain, newest first
+interface DomainFeedbackExamples {
+  relevant: string[];
+  irrelevant: string[];
+}
+
+// One judgement to record, from the command line or a feedback file
+interface FeedbackInput {
+  trend: string;
+  verdict: FeedbackVerdict;
+  domain?: string;                 // defaults to the trend's latest classification
+  note?: string;
+}
+
+type TuningKind = 'threshold' | 'add-keyword' | 'remove-keyword' | 'add-example' | 'add-negative-example';
+
+// A change to domains.yaml the judgements argue for
+interface TuningSuggestion {
+  domain: string;
+  kind: TuningKind;
+  value: string;                   // the new threshold, keyword or example
+  reason: string;
+}
+
+class FeedbackError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid feedback from ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'FeedbackError';
+  }
+}
+
+const VERDICTS: FeedbackVerdict[] = ['relevant', 'irrelevant'];
+const ENTRY_KEYS = ['trend', 'verdict', 'domain', 'note'];
+const DEFAULT_FEEDBACK_EXAMPLES = 5;
+
+// Judgements needed before a threshold, keyword or example is worth suggesting
+const MIN_THRESHOLD_JUDGEMENTS = 3;
+const MIN_KEYWORD_TRENDS = 2;
+
+// Words too common to make a keyword
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'from', 'new', 'today', 'news', 'live', 'update', 'date', 'release', 'what', 'how', 'why', 'who']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function words(text: string): string[] {
+  return trendKey(text).replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(word => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+}
+
+// Whole-word match, so the keyword "ai" isn't found in "ukraine"
+function mentions(text: string, phrase: string): boolean {
+  const normalize = (value: string) => ` ${trendKey(value).replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+  return normalize(text).includes(normalize(phrase));
+}
+
+/**
+ * Validates a parsed feedback file: a list of `{trend, verdict, domain?, note?}` entries, or a
+ * mapping with such a `feedback` list. Collects every problem like the domains config does.
+ */
+function validateFeedbackFile(document: unknown, source: string): FeedbackInput[] {
+  const entries = isRecord(document) ? document.feedback : document;
+  if (!Array.isArray(entries)) {
+    throw new FeedbackError(source, ['must be a list of feedback entries, or a mapping with a "feedback" list']);
+  }
+  const issues: string[] = [];
+  const inputs = entries.map((entry, index): FeedbackInput | null => {
+    const field = `feedback[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${field}: must be a mapping`);
+      return null;
+    }
+    Object.keys(entry).filter(key => !ENTRY_KEYS.includes(key)).forEach(key => {
+      issues.push(`${field}.${key}: unknown field (expected one of ${ENTRY_KEYS.join(', ')})`);
+    });
+    const trend = typeof entry.trend === 'string' ? entry.trend.trim() : '';
+    if (!trend) {
+      issues.push(`${field}.trend: is required`);
+    }
+    const label = trend ? `${field} (${trend})` : field;
+    if (!VERDICTS.includes(entry.verdict as FeedbackVerdict)) {
+      issues.push(`${label}.verdict: must be one of ${VERDICTS.join(', ')}`);
+    }
+    ['domain', 'note'].filter(key => entry[key] !== undefined && typeof entry[key] !== 'string').forEach(key => {
+      issues.push(`${label}.${key}: must be a string`);
+    });
+    return {
+      trend,
+      verdict: entry.verdict as FeedbackVerdict,
+      domain: typeof entry.domain === 'string' && entry.domain.trim() ? entry.domain.trim() : undefined,
+      note: typeof entry.note === 'string' ? entry.note : undefined
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new FeedbackError(source, issues);
+  }
+  return inputs as FeedbackInput[];
+}
+
+// Reads a .yaml/.yml or .json feedback file
+function loadFeedbackFile(filePath: string): FeedbackInput[] {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new FeedbackError(filePath, [(error as Error).message]);
+  }
+  return validateFeedbackFile(document, filePath);
+}
+
+/**
+ * Records judgements in the trend store. A judgement without a domain applies to the domain the
+ * trend was last classified in; the model's score for that domain is kept with it, for
+ * threshold suggestions. Nothing is recorded when any judgement can't be placed.
+ */
+function recordFeedback(store: TrendStore, inputs: FeedbackInput[], domains: DomainOfInterest[], source: string): TrendFeedback[] {
+  const issues: string[] = [];
+  const resolved = inputs.map(input => {
+    const latest = store.getLatestEvaluation(input.trend);
+    const domainName = input.domain ?? latest?.classification;
+    const domain = domains.find(candidate => candidate.name.toLowerCase() === domainName?.toLowerCase());
+    if (!domain) {
+      issues.push(input.domain
+        ? `${input.trend}: unknown domain "${input.domain}" (expected one of ${domains.map(candidate => candidate.name).join(', ')})`
+        : `${input.trend}: ${latest ? 'not classified in any domain' : 'never evaluated'}, name the domain it was judged for`);
+      return null;
+    }
+    const relevance = latest?.domainEvaluations.find(evaluation => evaluation.domain === domain.name)?.relevance;
+    return { ...input, domain: domain.name, relevance: typeof relevance === 'number' ? relevance : null };
+  });
+  if (issues.length > 0) {
+    throw new FeedbackError(source, issues);
+  }
+
+  return resolved.map(entry => {
+    const feedback = {
+      trend: entry!.trend,
+      domain: entry!.domain,
+      verdict: entry!.verdict,
+      relevance: entry!.relevance,
+      note: entry!.note ?? null,
+      source
+    };
+    const createdAt = new Date().toISOString();
+    return { id: store.recordFeedback(feedback, createdAt), createdAt, ...feedback };
+  });
+}
+
+// Newest judgement per trend and domain; an earlier verdict is replaced by a later one
+function latestJudgements(store: TrendStore, domain?: string): TrendFeedback[] {
+  const seen = new Set<string>();
+  return store.getFeedback(domain).filter(feedback => {
+    const key = `${feedback.domain}\u0000${trendKey(feedback.trend)}`;
+    return !seen.has(key) && seen.add(key);
+  });
+}
+
+/**
+ * The most recent relevant and irrelevant trends of every judged domain, `limit` of each, to be
+ * shown to the model next to the configured examples.
+ */
+function feedbackExamples(store: TrendStore, limit = DEFAULT_FEEDBACK_EXAMPLES): Record<string, DomainFeedbackExamples> {
+  const examples: Record<string, DomainFeedbackExamples> = {};
+  latestJudgements(store).forEach(feedback => {
+    const domainExamples = examples[feedback.domain] ??= { relevant: [], irrelevant: [] };
+    const list = domainExamples[feedback.verdict];
+    if (list.length < limit) {
+      list.push(feedback.trend);
+    }
+  });
+  return examples;
+}
+
+// Judged trends on the wrong side of a threshold: irrelevant ones at or over it, relevant ones under it
+function misjudged(judgements: TrendFeedback[], threshold: number): number {
+  return judgements.filter(feedback => feedback.relevance !== null && (feedback.relevance >= threshold) !== (feedback.verdict === 'relevant')).length;
+}
+
+/**
+ * Suggests domains.yaml changes from the judgements:
+ * - a threshold that puts more judged trends on the right side of it, when one does;
+ * - keywords shared by several relevant trends and no irrelevant one;
+ * - configured keywords that show up in irrelevant trends more than in relevant ones;
+ * - examples and negative examples: judged trends the model scored on the wrong side of the threshold.
+ */
+function suggestTuning(store: TrendStore, domains: DomainOfInterest[]): TuningSuggestion[] {
+  return domains.flatMap(domain => {
+    const judgements = latestJudgements(store, domain.name);
+    if (judgements.length === 0) {
+      return [];
+    }
+    const suggestions: TuningSuggestion[] = [];
+    const relevant = judgements.filter(feedback => feedback.verdict === 'relevant');
+    const irrelevant = judgements.filter(feedback => feedback.verdict === 'irrelevant');
+    const threshold = domain.threshold;
+
+    // Lowest error count wins, then the threshold closest to the current one
+    const scored = judgements.filter(feedback => feedback.relevance !== null);
+    if (scored.length >= MIN_THRESHOLD_JUDGEMENTS) {
+      const current = misjudged(scored, threshold);
+      const best = Array.from({ length: 11 }, (_, candidate) => candidate)
+        .map(candidate => ({ candidate, errors: misjudged(scored, candidate) }))
+        .sort((a, b) => a.errors - b.errors || Math.abs(a.candidate - threshold) - Math.abs(b.candidate - threshold))[0];
+      if (best.errors < current) {
+        suggestions.push({
+          domain: domain.name,
+          kind: 'threshold',
+          value: String(best.candidate),
+          reason: `${current} of ${scored.length} judged trends are on the wrong side of ${threshold}, ${best.errors} would be at ${best.candidate}`
+        });
+      }
+    }
+
+    const configured = domain.keywords.map(keyword => keyword.toLowerCase());
+    const count = (entries: TrendFeedback[], word: string) => entries.filter(feedback => mentions(feedback.trend, word)).length;
+    const relevantWords = [...new Set(relevant.flatMap(feedback => words(feedback.trend)))];
+    relevantWords
+      .filter(word => count(relevant, word) >= MIN_KEYWORD_TRENDS && count(irrelevant, word) === 0
+        && !configured.some(keyword => mentions(keyword, word)))
+      .sort((a, b) => count(relevant, b) - count(relevant, a))
+      .forEach(word => suggestions.push({
+        domain: domain.name,
+        kind: 'add-keyword',
+        value: word,
+        reason: `in ${count(relevant, word)} relevant trends and no irrelevant one`
+      }));
+    configured
+      .filter(keyword => count(irrelevant, keyword) >= MIN_KEYWORD_TRENDS && count(irrelevant, keyword) > count(relevant, keyword))
+      .forEach(keyword => suggestions.push({
+        domain: domain.name,
+        kind: 'remove-keyword',
+        value: keyword,
+        reason: `in ${count(irrelevant, keyword)} irrelevant trends but ${count(relevant, keyword)} relevant ones`
+      }));
+
+    const listed = new Set([...domain.examples, ...domain.negativeExamples].map(trendKey));
+    judgements
+      .filter(feedback => feedback.relevance !== null && !listed.has(trendKey(feedback.trend)))
+      .forEach(feedback => {
+        if (feedback.verdict === 'relevant' && (feedback.relevance as number) < threshold) {
+          suggestions.push({ domain: domain.name, kind: 'add-example', value: feedback.trend, reason: `judged relevant but scored ${feedback.relevance}/10` });
+        } else if (feedback.verdict === 'irrelevant' && (feedback.relevance as number) >= threshold) {
+          suggestions.push({ domain: domain.name, kind: 'add-negative-example', value: feedback.trend, reason: `judged irrelevant but scored ${feedback.relevance}/10` });
+        }
+      });
+
+    return suggestions;
+  });
+}
+
+function formatFeedback(feedback: TrendFeedback): string {
+  const icon = feedback.verdict === 'relevant' ? '👍' : '👎';
+  const score = feedback.relevance === null ? '' : ` (scored ${feedback.relevance}/10)`;
+  return `${icon} ${feedback.trend} → ${feedback.domain}${score}, ${feedback.createdAt.slice(0, 16).replace('T', ' ')}${feedback.note ? `: ${feedback.note}` : ''}`;
+}
+
+// Usage: feedback mark <trend> <relevant|irrelevant> [--domain <name>] [--note <text>]
+//        feedback import <feedback.yaml>
+//        feedback list [--domain <name>]
+//        feedback suggest
+// All take --db (default TRENDS_DB or trends.db) and --config (domains config)
+if (require.main === module) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      domain: { type: 'string' },
+      note: { type: 'string' },
+      db: { type: 'string' },
+      config: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+  const [command, ...args] = positionals;
+
+  (async () => {
+    const store = await TrendStore.open(values.db ?? process.env.TRENDS_DB ?? DEFAULT_STORE_PATH);
+    try {
+      const domains = resolveDomains(values.config);
+      switch (command) {
+        case 'mark': {
+          const [trend, verdict] = args;
+          const [input] = validateFeedbackFile([{ trend, verdict, domain: values.domain, note: values.note }], 'the command line');
+          recordFeedback(store, [input], domains, 'the command line').forEach(feedback => console.log(`💾 ${formatFeedback(feedback)}`));
+          break;
+        }
+        case 'import': {
+          if (!args[0]) {
+            throw new FeedbackError('the command line', ['name the feedback file to import']);
+          }
+          const recorded = recordFeedback(store, loadFeedbackFile(args[0]), domains, args[0]);
+          console.log(`💾 Imported ${recorded.length} judgements from ${args[0]}`);
+          break;
+        }
+        case 'list':
+          store.getFeedback(values.domain).forEach(feedback => console.log(formatFeedback(feedback)));
+          break;
+        case 'suggest': {
+          const suggestions = suggestTuning(store, domains);
+          if (suggestions.length === 0) {
+            console.log('✅ No changes to suggest from the judgements so far');
+          }
+          suggestions.forEach(suggestion => console.log(`💡 ${suggestion.domain}: ${suggestion.kind} "${suggestion.value}" (${suggestion.reason})`));
+          break;
+        }
+        default:
+          console.error('❌ Usage: feedback mark <trend> <relevant|irrelevant> [--domain <name>] [--note <text>] | import <file> | list | suggest');
+          process.exitCode = 1;
+      }
+    } catch (error) {
+      if (error instanceof FeedbackError || error instanceof DomainConfigError) {
+        console.error(`❌ ${error.message}`);
+      } else {
+        console.error('❌ Feedback failed:', error);
+      }
+      process.exitCode = 1;
+    } finally {
+      store.close();
+    }
+  })();
+}
+
+export {
+  DEFAULT_FEEDBACK_EXAMPLES,
+  DomainFeedbackExamples,
+  FeedbackInput,
+  TuningKind,
+  TuningSuggestion,
+  FeedbackError,
+  validateFeedbackFile,
+  loadFeedbackFile,
+  recordFeedback,
+  feedbackExamples,
+  suggestTuning,
+  formatFeedback
+};
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { Checkpoint, CheckpointMetadata, MemorySaver } from '@langchain/langgraph';
+
+// LangGraph checkpoints kept in a JSON file, so a failed pipeline run can resume in a later process
+const DEFAULT_CHECKPOINT_PATH = 'pipeline-checkpoints.json';
+
+type PendingWrite = Parameters<MemorySaver['putWrites']>[1][number];
+
+interface FileCheckpointOptions {
+  maxCheckpoints: number;   // kept per thread, newest first; resuming only needs the latest
+  retentionDays: number;    // how long a finished run stays in the file, e.g. for `--resume` to report it done
+}
+
+const DEFAULT_FILE_CHECKPOINT_OPTIONS: FileCheckpointOptions = {
+  maxCheckpoints: 3,
+  retentionDays: 7
+};
+
+interface StoredCheckpoints {
+  storage: MemorySaver['storage'];
+  writes: MemorySaver['writes'];
+  finished?: Record<string, string>;   // thread id -> when its run completed
+}
+
+// Pending writes are keyed by JSON.stringify([threadId, namespace, checkpointId])
+function parseWritesKey(key: string): { threadId: string; checkpointId: string } {
+  const [threadId, , checkpointId] = JSON.parse(key) as string[];
+  return { threadId, checkpointId };
+}
+
+// Checkpoints are serialized to bytes by LangGraph; bytes are stored as base64 strings
+function encodeBytes(_key: string, value: unknown): unknown {
+  return value instanceof Uint8Array ? { $bytes: Buffer.from(value).toString('base64') } : value;
+}
+
+function decodeBytes(_key: string, value: unknown): unknown {
+  const bytes = (value as { $bytes?: unknown } | null)?.$bytes;
+  return typeof bytes === 'string' ? new Uint8Array(Buffer.from(bytes, 'base64')) : value;
+}
+
+/**
+ * MemorySaver that writes every checkpoint through to a file. Small and dependency-free;
+ * fine for one pipeline at a time, not for concurrent writers. Only the latest few checkpoints
+ * of a thread are kept, and finished threads are dropped after the retention period.
+ */
+class FileCheckpointSaver extends MemorySaver {
+  private options: FileCheckpointOptions;
+  private finished: Record<string, string> = {};
+
+  constructor(private filePath: string = DEFAULT_CHECKPOINT_PATH, options: Partial<FileCheckpointOptions> = {}, now: Date = new Date()) {
+    super();
+    this.options = { ...DEFAULT_FILE_CHECKPOINT_OPTIONS, ...options };
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'), decodeBytes) as StoredCheckpoints;
+      this.storage = stored.storage ?? {};
+      this.writes = stored.writes ?? {};
+      this.finished = stored.finished ?? {};
+    }
+    if (this.dropExpiredThreads(now) > 0) {
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    const stored: StoredCheckpoints = { storage: this.storage, writes: this.writes, finished: this.finished };
+    fs.writeFileSync(this.filePath, JSON.stringify(stored, encodeBytes), 'utf8');
+  }
+
+  // Returns how many threads were dropped
+  private dropExpiredThreads(now: Date): number {
+    const cutoff = now.getTime() - this.options.retentionDays * 24 * 3600 * 1000;
+    const expired = Object.keys(this.finished).filter(threadId => new Date(this.finished[threadId]).getTime() < cutoff);
+    expired.forEach(threadId => this.forgetThread(threadId));
+    return expired.length;
+  }
+
+  private forgetThread(threadId: string): void {
+    delete this.storage[threadId];
+    delete this.finished[threadId];
+    Object.keys(this.writes)
+      .filter(key => parseWritesKey(key).threadId === threadId)
+      .forEach(key => delete this.writes[key]);
+  }
+
+  // Checkpoint ids sort by creation time, so everything before the newest maxCheckpoints goes
+  private pruneThread(threadId: string): void {
+    const dropped = new Set<string>();
+    Object.values(this.storage[threadId] ?? {}).forEach(checkpoints => {
+      Object.keys(checkpoints)
+        .sort((a, b) => b.localeCompare(a))
+        .slice(Math.max(1, this.options.maxCheckpoints))
+        .forEach(checkpointId => {
+          delete checkpoints[checkpointId];
+          dropped.add(checkpointId);
+        });
+    });
+    Object.keys(this.writes)
+      .filter(key => {
+        const { threadId: owner, checkpointId } = parseWritesKey(key);
+        return owner === threadId && dropped.has(checkpointId);
+      })
+      .forEach(key => delete this.writes[key]);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const saved = await super.put(config, checkpoint, metadata);
+    const threadId = saved.configurable?.thread_id as string;
+    // A thread id run again is live until it finishes again
+    delete this.finished[threadId];
+    this.pruneThread(threadId);
+    this.persist();
+    return saved;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    await super.putWrites(config, writes, taskId);
+    this.persist();
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await super.deleteThread(threadId);
+    delete this.finished[threadId];
+    this.persist();
+  }
+
+  // Records that a thread's run completed, starting its retention period
+  async finishThread(threadId: string, finishedAt: Date = new Date()): Promise<void> {
+    if (this.storage[threadId]) {
+      this.finished[threadId] = finishedAt.toISOString();
+      this.persist();
+    }
+  }
+}
+
+export {
+  DEFAULT_CHECKPOINT_PATH,
+  FileCheckpointOptions,
+  DEFAULT_FILE_CHECKPOINT_OPTIONS,
+  FileCheckpointSaver
+};
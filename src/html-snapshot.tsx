@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnapshotMetadata, categoryLabel } from './trends-query';
+
+// Saved pages start with a comment carrying the parameters they were scraped with
+const SNAPSHOT_MARKER = 'trends-snapshot:';
+const SNAPSHOT_HEADER_PATTERN = /^<!--\s*trends-snapshot:\s*(\{[\s\S]*?\})\s*-->\r?\n?/;
+
+interface HtmlSnapshot {
+  html: string;
+  metadata: SnapshotMetadata | null;
+}
+
+const SNAPSHOT_FILE_PREFIX = 'trending_topics_';
+
+function snapshotBaseName(metadata: SnapshotMetadata): string {
+  // Create timestamp for filename
+  const now = new Date(metadata.scrapedAt);
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hours = String(now.getHours()).padStart(2, '0');
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  const seconds = String(now.getSeconds()).padStart(2, '0');
+  
+  const timestamp = `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
+  const snapshotLabel = `${metadata.geo}_${metadata.hours}h_${categoryLabel(metadata.category)}${metadata.activeOnly ? '_active' : ''}`;
+  return `${SNAPSHOT_FILE_PREFIX}${snapshotLabel}_${timestamp}`;
+}
+
+// Most recently written snapshot file with the given extension (e.g. ".csv"), or null
+function findLatestSnapshot(extension: string, directory = '.'): string | null {
+  const candidates = fs.readdirSync(directory)
+    .filter(name => name.startsWith(SNAPSHOT_FILE_PREFIX) && name.endsWith(extension))
+    .map(name => path.join(directory, name))
+    .map(file => ({ file, modified: fs.statSync(file).mtimeMs }))
+    .sort((a, b) => b.modified - a.modified);
+  return candidates[0]?.file ?? null;
+}
+
+function saveHtmlSnapshot(filePath: string, html: string, metadata: SnapshotMetadata): void {
+  // "--" is not allowed inside an HTML comment; the \u002d escape keeps the JSON equivalent
+  const header = `<!-- ${SNAPSHOT_MARKER} ${JSON.stringify(metadata).replace(/--/g, '\\u002d\\u002d')} -->\n`;
+  fs.writeFileSync(filePath, header + html, 'utf8');
+}
+
+function loadHtmlSnapshot(filePath: string): HtmlSnapshot {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const match = content.match(SNAPSHOT_HEADER_PATTERN);
+  if (!match) {
+    // A page saved by hand from the browser: no recorded parameters
+    return { html: content, metadata: null };
+  }
+
+  let metadata: SnapshotMetadata;
+  try {
+    metadata = JSON.parse(match[1]);
+  } catch (error) {
+    throw new Error(`Invalid snapshot header in ${filePath}: ${(error as Error).message}`);
+  }
+  return { html: content.slice(match[0].length), metadata };
+}
+
+export {
+  HtmlSnapshot,
+  snapshotBaseName,
+  findLatestSnapshot,
+  saveHtmlSnapshot,
+  loadHtmlSnapshot
+};
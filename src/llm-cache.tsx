@@ -0,0 +1,225 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// Disk-backed cache of LLM answers, so recurring trends aren't re-asked every snapshot
+const DEFAULT_CACHE_PATH = 'llm-cache.json';
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// on: read and write; refresh: ignore cached answers but store new ones; off: no caching
+type CacheMode = 'on' | 'refresh' | 'off';
+
+// What an entry was computed from, kept readable so entries can be invalidated selectively
+interface CacheTags {
+  kind: string;          // e.g. "domain-evaluation" or "final-reasoning"
+  trend: string;         // normalized trend name
+  domain?: string;       // domain name, for per-domain entries
+  model: string;         // provider/model
+  promptVersion: string;
+}
+
+interface CacheEntry {
+  value: unknown;
+  createdAt: string;
+  tags: CacheTags;
+}
+
+interface CacheStats {
+  hits: number;
+  misses: number;
+  expired: number;
+  writes: number;
+}
+
+interface LLMCacheOptions {
+  filePath?: string | null; // null keeps the cache in memory only
+  ttlMs?: number;
+  mode?: CacheMode;
+  now?: () => number;       // swappable so tests control expiry
+}
+
+// Stable JSON: object keys sorted so equal inputs always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashValue(value: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+class LLMCache {
+  readonly stats: CacheStats = { hits: 0, misses: 0, expired: 0, writes: 0 };
+  private dirty = false;
+
+  private constructor(
+    private entries: Map<string, CacheEntry>,
+    private filePath: string | null,
+    private ttlMs: number,
+    private mode: CacheMode,
+    private now: () => number
+  ) {}
+
+  static load(options: LLMCacheOptions = {}): LLMCache {
+    const filePath = options.filePath === undefined ? DEFAULT_CACHE_PATH : options.filePath;
+    const entries = new Map<string, CacheEntry>();
+
+    if (filePath && fs.existsSync(filePath)) {
+      try {
+        const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, CacheEntry>;
+        Object.entries(stored).forEach(([key, entry]) => entries.set(key, entry));
+      } catch (error) {
+        // A corrupt cache is only a performance problem: start over
+        console.error(`⚠️ Ignoring unreadable LLM cache ${filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    return new LLMCache(entries, filePath, options.ttlMs ?? DEFAULT_TTL_MS, options.mode ?? 'on', options.now ?? Date.now);
+  }
+
+  /**
+   * Cache settings from LLM_CACHE (on, refresh, off), LLM_CACHE_PATH and LLM_CACHE_TTL_HOURS.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): LLMCache {
+    const mode = (['on', 'refresh', 'off'].includes(env.LLM_CACHE ?? '') ? env.LLM_CACHE : 'on') as CacheMode;
+    const ttlHours = Number(env.LLM_CACHE_TTL_HOURS);
+    return LLMCache.load({
+      filePath: mode === 'off' ? null : env.LLM_CACHE_PATH || DEFAULT_CACHE_PATH,
+      ttlMs: ttlHours > 0 ? ttlHours * 60 * 60 * 1000 : DEFAULT_TTL_MS,
+      mode
+    });
+  }
+
+  // The key covers every input of the answer: tags plus anything else passed in `inputs`
+  static key(tags: CacheTags, inputs: unknown): string {
+    return hashValue({ tags, inputs });
+  }
+
+  private isExpired(entry: CacheEntry, now = this.now()): boolean {
+    return now - new Date(entry.createdAt).getTime() > this.ttlMs;
+  }
+
+  get<T>(key: string): T | undefined {
+    if (this.mode !== 'on') {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && this.isExpired(entry)) {
+      this.entries.delete(key);
+      this.dirty = true;
+      this.stats.expired++;
+    } else if (entry) {
+      this.stats.hits++;
+      return entry.value as T;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  set(key: string, value: unknown, tags: CacheTags): void {
+    if (this.mode === 'off') {
+      return;
+    }
+    this.entries.set(key, { value, createdAt: new Date(this.now()).toISOString(), tags });
+    this.dirty = true;
+    this.stats.writes++;
+  }
+
+  /**
+   * Removes the entries matching every given tag (all entries when no tags are given).
+   * Returns how many were removed.
+   */
+  invalidate(match: Partial<CacheTags> = {}): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      const matches = (Object.keys(match) as (keyof CacheTags)[]).every(tag => entry.tags[tag] === match[tag]);
+      if (matches) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.dirty = this.dirty || removed > 0;
+    return removed;
+  }
+
+  // Drops expired entries; returns how many were removed
+  prune(): number {
+    const now = this.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry, now)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.dirty = this.dirty || removed > 0;
+    return removed;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  save(): void {
+    if (!this.filePath || !this.dirty) {
+      return;
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.entries)), 'utf8');
+    this.dirty = false;
+  }
+
+  report(): string {
+    const lookups = this.stats.hits + this.stats.misses;
+    const hitRate = lookups > 0 ? (this.stats.hits / lookups * 100).toFixed(1) : '0.0';
+    return `${this.stats.hits} hits, ${this.stats.misses} misses (${hitRate}% hit rate), ` +
+      `${this.stats.expired} expired, ${this.stats.writes} written` +
+      (this.mode !== 'on' ? ` [mode: ${this.mode}]` : '');
+  }
+}
+
+// Usage: llm-cache stats | prune | clear [--domain <name>] [--trend <name>] [--model <provider/model>]
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  const cache = LLMCache.load({ filePath: process.env.LLM_CACHE_PATH || DEFAULT_CACHE_PATH });
+
+  const match: Partial<CacheTags> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const tag = args[i].replace(/^--/, '') as keyof CacheTags;
+    match[tag] = args[i + 1];
+  }
+
+  switch (command) {
+    case 'stats':
+      console.log(`🗄️ ${cache.size} cached answers`);
+      break;
+    case 'prune':
+      console.log(`🧹 Removed ${cache.prune()} expired answers`);
+      break;
+    case 'clear':
+      console.log(`🧹 Removed ${cache.invalidate(match)} cached answers`);
+      break;
+    default:
+      console.error('❌ Usage: llm-cache stats | prune | clear [--domain <name>] [--trend <name>] [--model <provider/model>]');
+      process.exit(1);
+  }
+  cache.save();
+}
+
+export {
+  DEFAULT_CACHE_PATH,
+  CacheMode,
+  CacheTags,
+  CacheStats,
+  LLMCacheOptions,
+  LLMCache,
+  hashValue
+};
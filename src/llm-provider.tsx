@@ -0,0 +1,352 @@
+import { GoogleGenerativeAI, ResponseSchema } from "@google/generative-ai";
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { hashValue } from './llm-cache';
+
+// The subset of JSON Schema every provider can declare as a structured response format
+interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minimum?: number;   // validation-only keywords: checked on our side, not sent to Gemini
+  maximum?: number;
+  minLength?: number;
+}
+
+// Gemini's response schema rejects keywords it doesn't know, so only the structure is sent
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const { type, description, required } = schema;
+  const converted: Record<string, unknown> = { type, description, required };
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toGeminiSchema(property)])
+    );
+  }
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items);
+  }
+  return converted as unknown as ResponseSchema;
+}
+
+interface GenerateOptions {
+  responseSchema?: JsonSchema; // ask for JSON matching this schema
+}
+
+// Common surface for every model TopicEvaluator can talk to
+interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+class LLMProviderError extends Error {
+  constructor(message: string, public provider: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_GEMINI_MODEL) {
+    if (!apiKey) {
+      throw new LLMProviderError('GEMINI_API_KEY is not set', this.name);
+    }
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const generationConfig = options.responseSchema
+      ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(options.responseSchema) }
+      : undefined;
+    const result = await this.client.getGenerativeModel({ model: this.model, generationConfig }).generateContent(prompt);
+    return result.response.text();
+  }
+}
+
+interface OpenAICompatibleOptions {
+  baseUrl: string;     // e.g. https://api.openai.com/v1, http://localhost:11434/v1 (Ollama), http://localhost:8080/v1 (llama.cpp)
+  model: string;
+  apiKey?: string;     // local servers usually don't need one
+  timeoutMs?: number;  // per request; a hung server fails the attempt so it can be retried
+}
+
+// Local models can take minutes on a long batch prompt
+const DEFAULT_OPENAI_TIMEOUT_MS = 120000;
+
+// Any server implementing the OpenAI chat completions endpoint
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.model = options.model;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(options.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: options.responseSchema }
+          }
+        })
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_OPENAI_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new LLMProviderError(
+        `${this.options.baseUrl} responded ${response.status}: ${(await response.text()).slice(0, 200)}`,
+        this.name,
+        response.status
+      );
+    }
+
+    const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+    const content = body.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMProviderError('Response has no message content', this.name, response.status);
+    }
+    return content;
+  }
+}
+
+type ScriptedResponder = (prompt: string, callIndex: number, options: GenerateOptions) => string;
+
+/**
+ * Deterministic provider for tests and air-gapped runs: replays a fixed list of responses in
+ * order, or answers through a responder function. Every prompt it receives is kept in `prompts`.
+ */
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly prompts: string[] = [];
+
+  constructor(private script: string[] | ScriptedResponder, readonly model: string = 'scripted') {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const callIndex = this.prompts.length;
+    this.prompts.push(prompt);
+
+    if (typeof this.script === 'function') {
+      return this.script(prompt, callIndex, options);
+    }
+    if (callIndex >= this.script.length) {
+      throw new LLMProviderError(`Script exhausted after ${this.script.length} responses`, this.name);
+    }
+    return this.script[callIndex];
+  }
+}
+
+// Responses recorded from a real model, keyed by a hash of the prompt and response format
+interface Recording {
+  provider: string;
+  model: string;
+  responses: Record<string, string>;
+}
+
+/**
+ * Replays responses recorded from a real model, so evaluations can be repeated offline and give
+ * the same answers every time. Given a live provider, prompts missing from the recording are
+ * sent to it and added; `save()` writes the recording back (.yaml/.yml, or .json).
+ */
+class RecordedProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly stats = { replayed: 0, recorded: 0 };
+  private recording: Recording;
+
+  constructor(readonly recordingPath: string, private live: LLMProvider | null = null) {
+    if (fs.existsSync(recordingPath)) {
+      const content = fs.readFileSync(recordingPath, 'utf8');
+      this.recording = (path.extname(recordingPath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content)) as Recording;
+      if (typeof this.recording?.responses !== 'object' || this.recording.responses === null) {
+        throw new LLMProviderError(`${recordingPath} is not a recording of model responses`, 'recorded');
+      }
+    } else if (live) {
+      this.recording = { provider: live.name, model: live.model, responses: {} };
+    } else {
+      throw new LLMProviderError(`No recording at ${recordingPath}`, 'recorded');
+    }
+    // Recording goes through the live provider's rate limit; replaying isn't limited
+    this.name = live?.name ?? 'recorded';
+    this.model = this.recording.model;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const key = hashValue({ prompt, responseSchema: options.responseSchema ?? null });
+    const recorded = this.recording.responses[key];
+    if (recorded !== undefined) {
+      this.stats.replayed++;
+      return recorded;
+    }
+    if (!this.live) {
+      throw new LLMProviderError(`No recorded response for prompt ${key.slice(0, 12)} in ${this.recordingPath}; record it again with a live model`, 'recorded');
+    }
+    const response = await this.live.generate(prompt, options);
+    this.recording.responses[key] = response;
+    this.stats.recorded++;
+    return response;
+  }
+
+  save(): void {
+    if (this.stats.recorded === 0) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.recordingPath), { recursive: true });
+    fs.writeFileSync(this.recordingPath, path.extname(this.recordingPath).toLowerCase() === '.json'
+      ? JSON.stringify(this.recording, null, 2)
+      : stringifyYaml(this.recording, { lineWidth: 0 }));
+  }
+}
+
+// Smallest value matching a schema: empty lists, zero scores, false flags
+function emptyValueForSchema(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+        value[key] = emptyValueForSchema(property);
+      });
+      return value;
+    }
+    case 'array':
+      return [];
+    case 'string':
+      return 'Scripted mock response';
+    case 'boolean':
+      return false;
+    default:
+      return 0;
+  }
+}
+
+// Topics and domains listed in a batch evaluation prompt ("[0] Name: ...", "- Name: ...")
+function evaluationPromptListing(prompt: string): { topics: number[]; domains: { name: string; threshold: number }[] } {
+  const domainsAt = prompt.indexOf('DOMAINS TO EVALUATE:');
+  const topicsAt = prompt.indexOf('TRENDING TOPICS:');
+  if (domainsAt === -1 || topicsAt === -1) {
+    return { topics: [], domains: [] };
+  }
+  const domains = [...prompt.slice(domainsAt, topicsAt).matchAll(/^- Name: (.+)$[\s\S]*?^ {2}Match threshold: (\d+(?:\.\d+)?)$/gm)]
+    .map(match => ({ name: match[1].trim(), threshold: Number(match[2]) }));
+  const topics = [...new Set([...prompt.slice(topicsAt).matchAll(/^\[(\d+)\] Name:/gm)].map(match => Number(match[1])))];
+  return { topics, domains };
+}
+
+/**
+ * Default mock answer: never a match, so unconfigured runs don't invent relevant trends. Batch
+ * evaluation prompts get every listed topic scored 0 against every listed domain, which passes
+ * validation first time; any other structured request gets the emptiest valid value.
+ */
+const NOT_RELEVANT_RESPONDER: ScriptedResponder = (prompt, _callIndex, options) => {
+  if (!options.responseSchema) {
+    return 'Scripted mock response';
+  }
+  const { topics, domains } = evaluationPromptListing(prompt);
+  if (!options.responseSchema.properties?.trends || topics.length === 0) {
+    return JSON.stringify(emptyValueForSchema(options.responseSchema));
+  }
+  return JSON.stringify({
+    trends: topics.map(index => ({
+      index,
+      summary: 'Scripted mock response: not relevant to any domain',
+      domains: domains.map(domain => ({
+        domain: domain.name,
+        relevance: 0,
+        reasoning: 'Scripted mock response',
+        isMatch: 0 >= domain.threshold
+      }))
+    }))
+  });
+};
+
+interface ProviderConfig {
+  provider: 'gemini' | 'openai' | 'mock';
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs?: number;         // OpenAI-compatible requests only
+  mockResponsesPath?: string; // JSON array of responses for the mock provider
+}
+
+function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey ?? '', config.model);
+    case 'openai':
+      if (!config.baseUrl) {
+        throw new LLMProviderError('An OpenAI-compatible provider needs a base URL', 'openai');
+      }
+      if (!config.model) {
+        throw new LLMProviderError('An OpenAI-compatible provider needs a model name', 'openai');
+      }
+      return new OpenAICompatibleProvider({ baseUrl: config.baseUrl, model: config.model, apiKey: config.apiKey, timeoutMs: config.timeoutMs });
+    case 'mock': {
+      if (!config.mockResponsesPath) {
+        return new ScriptedProvider(NOT_RELEVANT_RESPONDER, config.model);
+      }
+      const responses = JSON.parse(fs.readFileSync(config.mockResponsesPath, 'utf8'));
+      if (!Array.isArray(responses)) {
+        throw new LLMProviderError(`${config.mockResponsesPath} must contain a JSON array of responses`, 'mock');
+      }
+      return new ScriptedProvider(responses.map(r => typeof r === 'string' ? r : JSON.stringify(r)), config.model);
+    }
+    default:
+      throw new LLMProviderError(`Unknown LLM provider "${(config as ProviderConfig).provider}"`, String((config as ProviderConfig).provider));
+  }
+}
+
+/**
+ * Builds the provider selected by LLM_PROVIDER (gemini, openai or mock; default gemini).
+ * LLM_MODEL overrides the model; OPENAI_BASE_URL / OPENAI_API_KEY / OPENAI_TIMEOUT_MS configure
+ * OpenAI-compatible servers and LLM_MOCK_RESPONSES points the mock at a recorded list of responses.
+ * Fields in overrides (e.g. a domain's own model) win over the environment.
+ */
+function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env, overrides: Partial<ProviderConfig> = {}): LLMProvider {
+  const provider = overrides.provider ?? (env.LLM_PROVIDER || 'gemini') as ProviderConfig['provider'];
+  return createProvider({
+    provider,
+    model: overrides.model ?? (env.LLM_MODEL || undefined),
+    apiKey: overrides.apiKey ?? (provider === 'gemini' ? env.GEMINI_API_KEY : env.OPENAI_API_KEY),
+    baseUrl: overrides.baseUrl ?? (env.OPENAI_BASE_URL || undefined),
+    timeoutMs: overrides.timeoutMs ?? (Number(env.OPENAI_TIMEOUT_MS) > 0 ? Number(env.OPENAI_TIMEOUT_MS) : undefined),
+    mockResponsesPath: overrides.mockResponsesPath ?? (env.LLM_MOCK_RESPONSES || undefined)
+  });
+}
+
+export {
+  JsonSchema,
+  GenerateOptions,
+  LLMProvider,
+  LLMProviderError,
+  GeminiProvider,
+  OpenAICompatibleProvider,
+  OpenAICompatibleOptions,
+  ScriptedProvider,
+  ScriptedResponder,
+  Recording,
+  RecordedProvider,
+  ProviderConfig,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_OPENAI_TIMEOUT_MS,
+  createProvider,
+  createProviderFromEnv
+};
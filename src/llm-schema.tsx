@@ -0,0 +1,106 @@
+import { JsonSchema } from './llm-provider';
+
+// One way an LLM response didn't match what was asked for
+interface ValidationIssue {
+  path: string;      // e.g. trends[2].domains[0].relevance
+  message: string;
+  attempt: number;   // 1 for the first answer, 2+ for repair attempts
+  resolved: boolean; // fixed by a later repair attempt
+}
+
+type SchemaIssue = Pick<ValidationIssue, 'path' | 'message'>;
+
+function describe(value: unknown): string {
+  if (value === null || Array.isArray(value)) {
+    return value === null ? 'null' : 'array';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return typeof value === 'object' ? 'object' : String(value);
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks a value against the declared JSON Schema subset (type, required, properties, items,
+ * minimum, maximum, minLength). Returns every issue, not just the first.
+ */
+function validateSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaIssue[] {
+  if (!matchesType(value, schema.type)) {
+    return [{ path, message: `expected ${schema.type}, got ${describe(value)}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        issues.push(...validateSchema(record[key], property, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      issues.push(...validateSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+
+  return issues;
+}
+
+/**
+ * Parses the JSON object in a model response. Providers without structured output may wrap
+ * it in prose or code fences, so the outermost {...} is used.
+ */
+function parseJsonResponse(response: string): { value: unknown; issue: SchemaIssue | null } {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { value: undefined, issue: { path: '$', message: 'no JSON object found in response' } };
+  }
+  try {
+    return { value: JSON.parse(jsonMatch[0]), issue: null };
+  } catch (error) {
+    return { value: undefined, issue: { path: '$', message: `invalid JSON: ${(error as Error).message}` } };
+  }
+}
+
+export {
+  ValidationIssue,
+  SchemaIssue,
+  validateSchema,
+  parseJsonResponse
+};
@@ -0,0 +1,267 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { Annotation, END, START, StateGraph } from '@langchain/langgraph';
+import { capture, replay, withBrowserPage } from './scraper';
+import { EvaluationFailure, EvaluationResult, UNCLASSIFIED, evaluateTopics } from './evaluator';
+import { DomainOfInterest } from './domain-config';
+import { LLMProvider, createProviderFromEnv } from './llm-provider';
+import { ResearchOptions, Researcher, researchOptionsFromEnv } from './research';
+import { DigestOptions, TrendBackground, writeDigest } from './digest';
+import { DeliveryReport, deliverDigest } from './delivery';
+import { TeamDelivery, resolveDeliveryConfig } from './delivery-config';
+import { TrendStore } from './trend-store';
+import { DEFAULT_CHECKPOINT_PATH, FileCheckpointSaver } from './file-checkpointer';
+import { SCRAPE_ARG_OPTIONS, ScrapeOptions, toScrapeRequest } from './trends-query';
+
+// Node outputs replace the previous value of their channel
+function replaced<T>(initial: () => T) {
+  return Annotation<T>({ reducer: (_current, next) => next, default: initial });
+}
+
+// Everything in the state is plain JSON, so each completed node can be checkpointed
+const PipelineState = Annotation.Root({
+  snapshots: replaced<ScrapeOptions[]>(() => []),
+  storePath: replaced<string>(() => 'trends.db'),
+  htmlFiles: replaced<string[]>(() => []),
+  csvFiles: replaced<string[]>(() => []),
+  results: replaced<EvaluationResult[]>(() => []),
+  failures: replaced<EvaluationFailure[]>(() => []),
+  backgrounds: replaced<TrendBackground[]>(() => []),
+  digestFiles: replaced<{ markdownPath: string; htmlPath: string } | null>(() => null),
+  deliveries: replaced<DeliveryReport[]>(() => [])
+});
+
+type PipelineStateValue = typeof PipelineState.State;
+type PipelineInput = Partial<PipelineStateValue>;
+
+interface PipelineOptions {
+  provider?: LLMProvider;        // defaults to the provider selected by the environment
+  domains?: DomainOfInterest[];  // defaults to resolveDomains()
+  checkpointPath?: string;       // defaults to pipeline-checkpoints.json
+  research?: Partial<ResearchOptions>; // defaults to RESEARCH_DEPTH / RESEARCH_MAX_ARTICLES
+  digest?: Partial<DigestOptions>;     // e.g. includeUnclassified or a template directory
+  teams?: TeamDelivery[] | null;       // delivery targets, defaults to resolveDeliveryConfig(); null to skip delivery
+  dryRun?: boolean;                    // log deliveries instead of sending them
+  outputDir?: string;                  // where pages, CSVs, results and digests are written
+  headless?: boolean;                  // defaults to resolveHeadless() (SCRAPE_HEADFUL)
+}
+
+function isMatched(result: EvaluationResult): boolean {
+  return result.classification !== UNCLASSIFIED;
+}
+
+// Start from the furthest stage the input allows: evaluate given CSVs, clean saved pages, or scrape
+function routeStart(state: PipelineStateValue): 'scrape' | 'clean' | 'evaluate' {
+  if (state.csvFiles.length > 0) {
+    return 'evaluate';
+  }
+  return state.htmlFiles.length > 0 ? 'clean' : 'scrape';
+}
+
+// Only trends that matched a domain are worth researching (news, plus their history in the store)
+function routeAfterEvaluation(state: PipelineStateValue): 'research' | 'digest' {
+  return state.results.some(isMatched) ? 'research' : 'digest';
+}
+
+function buildPipeline(
+  options: PipelineOptions = {},
+  checkpointer = new FileCheckpointSaver(options.checkpointPath ?? DEFAULT_CHECKPOINT_PATH)
+) {
+  const scrape = async (state: PipelineStateValue): Promise<PipelineInput> => {
+    const htmlFiles = await withBrowserPage(async page => {
+      const files: string[] = [];
+      for (const snapshot of state.snapshots) {
+        files.push(await capture(page, snapshot, options.outputDir));
+      }
+      return files;
+    }, options.headless);
+    return { htmlFiles };
+  };
+
+  const clean = async (state: PipelineStateValue): Promise<PipelineInput> => {
+    const store = await TrendStore.open(state.storePath);
+    try {
+      return { csvFiles: state.htmlFiles.map(file => replay(file, state.snapshots[0], store)) };
+    } finally {
+      store.close();
+    }
+  };
+
+  const evaluate = async (state: PipelineStateValue): Promise<PipelineInput> => {
+    const results: EvaluationResult[] = [];
+    const failures: EvaluationFailure[] = [];
+    for (const csvFile of state.csvFiles) {
+      const run = await evaluateTopics(csvFile, {
+        storePath: state.storePath,
+        provider: options.provider,
+        domains: options.domains,
+        outputDir: options.outputDir
+      });
+      // evaluateTopics reports its own errors; without an output file the node has to fail to be retried
+      if (!run.outputPath) {
+        throw new Error(`Evaluation of ${csvFile} did not complete`);
+      }
+      results.push(...run.results);
+      failures.push(...run.failures);
+    }
+    return { results, failures };
+  };
+
+  const research = async (state: PipelineStateValue): Promise<PipelineInput> => {
+    const researcher = new Researcher(options.provider ?? createProviderFromEnv(), options.research ?? researchOptionsFromEnv());
+    const results: EvaluationResult[] = [];
+    for (const result of state.results) {
+      if (!isMatched(result) || !result.geo) {
+        results.push(result);
+        continue;
+      }
+      try {
+        results.push({ ...result, research: await researcher.research({ trend: result.trend, geo: result.geo }) });
+      } catch (error) {
+        // A trend without research still makes the digest
+        console.warn(`⚠️ Research for ${result.trend} failed: ${(error as Error).message}`);
+        results.push(result);
+      }
+    }
+
+    const store = await TrendStore.open(state.storePath);
+    try {
+      return {
+        results,
+        backgrounds: results.filter(isMatched).map(result => {
+          const history = store.getTrendHistory(result.trend);
+          const observations = history.flatMap(entry => entry.observations);
+          const peak = observations.reduce<typeof observations[number] | null>((best, current) =>
+            best === null || (current.searchVolumeMin ?? -1) > (best.searchVolumeMin ?? -1) ? current : best, null);
+          return {
+            trend: result.trend,
+            classification: result.classification,
+            firstSeen: history.map(entry => entry.firstSeen).filter(Boolean).sort()[0] ?? '',
+            snapshotCount: observations.length,
+            peakSearchVolume: peak?.searchVolume ?? '',
+            previousClassifications: history.flatMap(entry => entry.classifications.map(c => c.classification))
+          };
+        })
+      };
+    } finally {
+      store.close();
+    }
+  };
+
+  const digest = async (state: PipelineStateValue): Promise<PipelineInput> => {
+    const basePath = path.join(options.outputDir ?? '.', `trend_digest_${new Date().toISOString().replace(/[:.]/g, '-')}`);
+    const digestFiles = writeDigest(state.results, basePath, {
+      ...options.digest,
+      backgrounds: state.backgrounds,
+      failureCount: state.failures.length
+    });
+    return { digestFiles };
+  };
+
+  const teams = options.teams === undefined ? resolveDeliveryConfig() : options.teams;
+  const deliver = async (state: PipelineStateValue): Promise<PipelineInput> => ({
+    deliveries: await deliverDigest(state.results, teams ?? [], {
+      dryRun: options.dryRun,
+      digest: { ...options.digest, failureCount: state.failures.length }
+    })
+  });
+
+  return new StateGraph(PipelineState)
+    .addNode('scrape', scrape)
+    .addNode('clean', clean)
+    .addNode('evaluate', evaluate)
+    .addNode('research', research)
+    .addNode('digest', digest)
+    .addNode('deliver', deliver)
+    .addConditionalEdges(START, routeStart, ['scrape', 'clean', 'evaluate'])
+    .addEdge('scrape', 'clean')
+    .addEdge('clean', 'evaluate')
+    .addConditionalEdges('evaluate', routeAfterEvaluation, ['research', 'digest'])
+    .addEdge('research', 'digest')
+    .addConditionalEdges('digest', () => teams && teams.length > 0 ? 'deliver' : END, ['deliver', END])
+    .addEdge('deliver', END)
+    .compile({ checkpointer });
+}
+
+/**
+ * Runs the pipeline under the given thread id. Every completed node is checkpointed, so after a
+ * failure `resume: true` continues from the last completed node instead of starting over.
+ */
+async function runPipeline(
+  input: PipelineInput | null,
+  threadId: string,
+  options: PipelineOptions & { resume?: boolean } = {}
+): Promise<PipelineStateValue> {
+  const checkpointer = new FileCheckpointSaver(options.checkpointPath ?? DEFAULT_CHECKPOINT_PATH);
+  const graph = buildPipeline(options, checkpointer);
+  const config = { configurable: { thread_id: threadId } };
+
+  if (options.resume) {
+    const saved = await graph.getState(config);
+    if (!saved.createdAt) {
+      throw new Error(`No checkpoint for pipeline run "${threadId}"`);
+    }
+    if (saved.next.length === 0) {
+      console.log(`✅ Pipeline run "${threadId}" already completed`);
+      await checkpointer.finishThread(threadId);
+      return saved.values as PipelineStateValue;
+    }
+    console.log(`⏩ Resuming "${threadId}" at: ${saved.next.join(', ')}`);
+  }
+  const state = await graph.invoke(options.resume ? null : input, config) as PipelineStateValue;
+  await checkpointer.finishThread(threadId);
+  return state;
+}
+
+// Usage: pipeline [--geo US --window 24h ...] [--headful] [--replay page.html] [--csv snapshot.csv] [--include-unclassified] [--dry-run] [--resume <run id>]
+if (require.main === module) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      ...SCRAPE_ARG_OPTIONS,
+      csv: { type: 'string', multiple: true },
+      resume: { type: 'string' },
+      checkpoints: { type: 'string' },
+      'include-unclassified': { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false }
+    },
+    allowPositionals: false
+  });
+  const request = toScrapeRequest(values);
+  const threadId = values.resume ?? `run-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const input: PipelineInput = {
+    snapshots: request.snapshots,
+    storePath: request.storePath,
+    htmlFiles: request.replayFiles,
+    csvFiles: values.csv ?? []
+  };
+
+  console.log(`🚀 Pipeline run "${threadId}"`);
+  runPipeline(input, threadId, {
+    resume: values.resume !== undefined,
+    checkpointPath: values.checkpoints,
+    dryRun: values['dry-run'],
+    headless: request.headless,
+    digest: { includeUnclassified: values['include-unclassified'] }
+  })
+    .then(state => {
+      console.log(`📈 ${state.results.length} trends evaluated, ${state.results.filter(isMatched).length} matched`);
+      if (state.deliveries.some(delivery => delivery.status === 'failed')) {
+        process.exitCode = 1;
+      }
+    })
+    .catch(error => {
+      console.error(`❌ Pipeline failed: ${(error as Error).message}`);
+      console.error(`   Resume from the last completed step with: npx tsx src/pipeline.tsx --resume ${threadId}`);
+      process.exit(1);
+    });
+}
+
+export {
+  PipelineState,
+  PipelineStateValue,
+  PipelineInput,
+  PipelineOptions,
+  buildPipeline,
+  runPipeline
+};
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// How trends are ranked, read from priority.yaml (or PRIORITY_CONFIG)
+const DEFAULT_PRIORITY_CONFIG_PATH = 'priority.yaml';
+
+const PRIORITY_FACTORS = ['relevance', 'volume', 'growth', 'recency', 'velocity'] as const;
+type PriorityFactorName = typeof PRIORITY_FACTORS[number];
+
+// Relative weight of each factor; only their proportions matter
+type PriorityWeights = Record<PriorityFactorName, number>;
+
+// Raw values a factor reaches its maximum at, so different units can be combined
+interface PriorityScales {
+  volume: number;                  // searches scoring 1, on a log scale
+  growth: number;                  // growth percentage scoring 1, on a log scale
+  recencyHalfLifeHours: number;    // age at which recency has dropped to 0.5
+  velocity: number;                // searches gained per hour scoring 1, on a log scale
+}
+
+interface PriorityConfig {
+  weights: PriorityWeights;
+  scales: PriorityScales;
+}
+
+class PriorityConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid priority config ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PriorityConfigError';
+  }
+}
+
+// Velocity needs the trend store's history, so it only counts when asked for
+const DEFAULT_PRIORITY_CONFIG: PriorityConfig = {
+  weights: { relevance: 0.5, volume: 0.2, growth: 0.15, recency: 0.15, velocity: 0 },
+  scales: { volume: 1000000, growth: 1000, recencyHalfLifeHours: 12, velocity: 10000 }
+};
+
+const TOP_LEVEL_KEYS = ['weights', 'scales'];
+const SCALE_KEYS = Object.keys(DEFAULT_PRIORITY_CONFIG.scales);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readSection(document: Record<string, unknown>, key: string, allowed: readonly string[], issues: string[]): Record<string, unknown> {
+  const section = document[key] ?? {};
+  if (!isRecord(section)) {
+    issues.push(`${key}: must be a mapping`);
+    return {};
+  }
+  Object.keys(section).filter(name => !allowed.includes(name)).forEach(name => {
+    issues.push(`${key}.${name}: unknown field (expected one of ${allowed.join(', ')})`);
+  });
+  return section;
+}
+
+function readNumber(value: unknown, field: string, fallback: number, issues: string[], positive: boolean): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || isNaN(value) || value < 0 || (positive && value === 0)) {
+    issues.push(`${field}: must be a ${positive ? 'positive number' : 'number of 0 or more'}, got ${JSON.stringify(value)}`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Validates a parsed priority config, collecting every problem like the domains config does.
+ * Missing weights and scales keep their defaults.
+ */
+function validatePriorityConfig(document: unknown, source: string): PriorityConfig {
+  if (!isRecord(document)) {
+    throw new PriorityConfigError(source, ['top level must be a mapping with "weights" and/or "scales"']);
+  }
+  const issues: string[] = [];
+  Object.keys(document).filter(key => !TOP_LEVEL_KEYS.includes(key)).forEach(key => {
+    issues.push(`${key}: unknown top-level field (expected one of ${TOP_LEVEL_KEYS.join(', ')})`);
+  });
+
+  const weightValues = readSection(document, 'weights', PRIORITY_FACTORS, issues);
+  const scaleValues = readSection(document, 'scales', SCALE_KEYS, issues);
+  const weights = Object.fromEntries(PRIORITY_FACTORS.map(factor =>
+    [factor, readNumber(weightValues[factor], `weights.${factor}`, DEFAULT_PRIORITY_CONFIG.weights[factor], issues, false)]
+  )) as PriorityWeights;
+  const scales = Object.fromEntries(SCALE_KEYS.map(key =>
+    [key, readNumber(scaleValues[key], `scales.${key}`, DEFAULT_PRIORITY_CONFIG.scales[key as keyof PriorityScales], issues, true)]
+  )) as unknown as PriorityScales;
+
+  if (Object.values(weights).every(weight => weight === 0)) {
+    issues.push('weights: at least one weight must be above 0');
+  }
+  if (issues.length > 0) {
+    throw new PriorityConfigError(source, issues);
+  }
+  return { weights, scales };
+}
+
+// Reads a .yaml/.yml or .json priority config
+function loadPriorityConfig(filePath: string): PriorityConfig {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new PriorityConfigError(filePath, [(error as Error).message]);
+  }
+  return validatePriorityConfig(document, filePath);
+}
+
+/**
+ * Ranking settings for this run: the explicit path, else PRIORITY_CONFIG, else priority.yaml
+ * when present, else the defaults.
+ */
+function resolvePriorityConfig(configPath?: string): PriorityConfig {
+  const explicit = configPath || process.env.PRIORITY_CONFIG;
+  if (explicit) {
+    return loadPriorityConfig(explicit);
+  }
+  if (fs.existsSync(DEFAULT_PRIORITY_CONFIG_PATH)) {
+    return loadPriorityConfig(DEFAULT_PRIORITY_CONFIG_PATH);
+  }
+  return DEFAULT_PRIORITY_CONFIG;
+}
+
+export {
+  DEFAULT_PRIORITY_CONFIG_PATH,
+  DEFAULT_PRIORITY_CONFIG,
+  PRIORITY_FACTORS,
+  PriorityFactorName,
+  PriorityWeights,
+  PriorityScales,
+  PriorityConfig,
+  PriorityConfigError,
+  validatePriorityConfig,
+  loadPriorityConfig,
+  resolvePriorityConfig
+};
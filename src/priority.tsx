@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { EvaluationResult, UNCLASSIFIED } from './evaluator';
+import { findLatestEvaluations } from './digest';
+import {
+  DEFAULT_PRIORITY_CONFIG, PRIORITY_FACTORS, PriorityConfig, PriorityConfigError, PriorityFactorName, resolvePriorityConfig
+} from './priority-config';
+
+interface PriorityFactor {
+  input: number | null;    // raw value: relevance 0-10, searches, growth %, hours since the trend started (as of scoring), searches gained per hour
+  value: number;           // normalized to 0-1
+  weight: number;          // share of the score; the configured weights scaled to add up to 1
+  contribution: number;    // points of the score: value × weight × 100
+}
+
+// One trend's place in the ranking, with what each factor added to it
+interface PriorityScore {
+  score: number;           // 0-100
+  factors: Record<PriorityFactorName, PriorityFactor>;
+}
+
+// log(1 + x) / log(1 + scale), so 200K and 2M searches stay apart without 2M drowning out everything else
+function logScale(value: number | null, scale: number): number {
+  if (value === null || value <= 0) {
+    return 0;
+  }
+  return Math.min(1, Math.log1p(value) / Math.log1p(scale));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Scores one result from its domain relevance × confidence, search volume, growth, how recently
+ * it started and, when the trend store knows it, how fast its volume is changing. Recency is the
+ * trend's age at `now`, not at the scrape, so a re-ranking of old results sees them as old.
+ * Unclassified trends score 0: the factors are kept for reference, but nothing is added up.
+ */
+function scorePriority(result: EvaluationResult, config: PriorityConfig = DEFAULT_PRIORITY_CONFIG, now: Date = new Date()): PriorityScore {
+  const evaluations = result.domainEvaluations ?? [];
+  const domain = evaluations.find(evaluation => evaluation.domain === result.classification)
+    ?? evaluations.reduce<typeof evaluations[number] | undefined>((best, current) => !best || current.relevance > best.relevance ? current : best, undefined);
+  // startedAt is the scrape time minus the "3 hours ago" shown then
+  const startedAt = result.normalized?.startedAt ? new Date(result.normalized.startedAt).getTime() : NaN;
+  const hoursAgo = Number.isNaN(startedAt) ? null : Math.max(0, now.getTime() - startedAt) / 3600000;
+  const velocity = result.lifecycle?.velocity ?? null;
+  const matched = result.classification !== UNCLASSIFIED;
+
+  const inputs: Record<PriorityFactorName, number | null> = {
+    relevance: domain?.relevance ?? null,
+    volume: result.normalized?.searchVolumeMin ?? null,
+    growth: result.normalized?.growthPercent ?? null,
+    recency: hoursAgo === null ? null : round(hoursAgo, 2),
+    velocity: velocity === null ? null : round(velocity, 2)
+  };
+  const values: Record<PriorityFactorName, number> = {
+    relevance: ((domain?.relevance ?? 0) / 10) * result.confidence,
+    volume: logScale(inputs.volume, config.scales.volume),
+    growth: logScale(inputs.growth, config.scales.growth),
+    recency: hoursAgo === null ? 0 : 0.5 ** (hoursAgo / config.scales.recencyHalfLifeHours),
+    velocity: logScale(velocity, config.scales.velocity)
+  };
+  if (!matched) {
+    PRIORITY_FACTORS.forEach(factor => {
+      values[factor] = 0;
+    });
+  }
+
+  const totalWeight = PRIORITY_FACTORS.reduce((sum, factor) => sum + config.weights[factor], 0);
+  const factors = Object.fromEntries(PRIORITY_FACTORS.map(factor => {
+    const weight = config.weights[factor] / totalWeight;
+    return [factor, {
+      input: inputs[factor],
+      value: round(values[factor], 4),
+      weight: round(weight, 4),
+      contribution: round(values[factor] * weight * 100, 2)
+    }];
+  })) as Record<PriorityFactorName, PriorityFactor>;
+
+  return {
+    score: round(PRIORITY_FACTORS.reduce((sum, factor) => sum + values[factor] * (config.weights[factor] / totalWeight) * 100, 0), 1),
+    factors
+  };
+}
+
+/**
+ * Scores every result as of `now` (filling in `priority`) and returns them highest first. Ties go
+ * to the more confident classification.
+ */
+function rankByPriority(results: EvaluationResult[], config: PriorityConfig = DEFAULT_PRIORITY_CONFIG, now: Date = new Date()): EvaluationResult[] {
+  results.forEach(result => {
+    result.priority = scorePriority(result, config, now);
+  });
+  return [...results].sort((a, b) =>
+    (b.priority?.score ?? 0) - (a.priority?.score ?? 0) || b.confidence - a.confidence);
+}
+
+// "72.4 = relevance 45.0 + volume 14.1 + growth 8.3 + recency 5.0", leaving out factors that added nothing
+function explainPriority(priority: PriorityScore): string {
+  const parts = PRIORITY_FACTORS
+    .filter(factor => priority.factors[factor].contribution > 0)
+    .map(factor => `${factor} ${priority.factors[factor].contribution.toFixed(1)}`);
+  return `${priority.score.toFixed(1)} = ${parts.join(' + ') || '0'}`;
+}
+
+// Usage: priority [trend_evaluations_<timestamp>.json] [--config priority.yaml] [--top 10] [--write]
+// Re-ranks saved results with the current weights, without asking the model again
+if (require.main === module) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      config: { type: 'string' },
+      top: { type: 'string', default: '10' },
+      write: { type: 'boolean', default: false }
+    },
+    allowPositionals: true
+  });
+
+  let config: PriorityConfig;
+  try {
+    config = resolvePriorityConfig(values.config);
+  } catch (error) {
+    console.error(`❌ ${(error as PriorityConfigError).message}`);
+    process.exit(1);
+  }
+  const inputPath = positionals[0] ?? findLatestEvaluations();
+  if (!inputPath) {
+    console.error('❌ No trend_evaluations_*.json found; run the evaluator first or pass a results file');
+    process.exit(1);
+  }
+
+  const ranked = rankByPriority(JSON.parse(fs.readFileSync(inputPath, 'utf8')) as EvaluationResult[], config);
+  console.log(`🏆 ${inputPath} by priority (weights: ${PRIORITY_FACTORS.map(factor => `${factor} ${config.weights[factor]}`).join(', ')})`);
+  ranked.slice(0, Number(values.top) || 10).forEach((result, index) => {
+    console.log(`${String(index + 1).padStart(3)}. ${result.trend} (${result.classification})`);
+    console.log(`     ${explainPriority(result.priority as PriorityScore)}`);
+  });
+  if (values.write) {
+    fs.writeFileSync(inputPath, JSON.stringify(ranked, null, 2));
+    console.log(`💾 Saved the new ranking to ${inputPath}`);
+  }
+}
+
+export {
+  PriorityFactor,
+  PriorityScore,
+  scorePriority,
+  rankByPriority,
+  explainPriority
+};
@@ -0,0 +1,363 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HTMLElement, parse } from 'node-html-parser';
+import * as dotenv from 'dotenv';
+import { JsonSchema, LLMProvider, createProviderFromEnv } from './llm-provider';
+import { RetryOptions, withRetry } from './retry';
+import { SchemaIssue, parseJsonResponse, validateSchema } from './llm-schema';
+import { trendKey } from './trend-store';
+
+// Load environment variables
+dotenv.config();
+
+// headlines: summarize from the linked headlines only; articles: also fetch and read each article
+type ResearchDepth = 'headlines' | 'articles';
+
+interface ResearchOptions {
+  depth: ResearchDepth;
+  maxArticles: number;         // news links used per trend
+  maxCharsPerArticle: number;  // article text sent to the model is cut off after this
+  fetcher: HttpFetcher;
+  retry?: Partial<RetryOptions>;
+}
+
+// A news article Google Trends links to for a trend
+interface NewsLink {
+  title: string;
+  url: string;
+  source: string;
+}
+
+interface NewsArticle extends NewsLink {
+  text: string | null;  // null at headlines depth, or when the article couldn't be fetched
+  error?: string;
+}
+
+interface KeyFact {
+  fact: string;
+  sources: number[];    // indexes into TrendResearch.sources
+}
+
+interface TrendEntity {
+  name: string;
+  type: string;         // person, organization, place, product, event or other
+}
+
+interface TrendResearch {
+  summary: string;
+  keyFacts: KeyFact[];
+  entities: TrendEntity[];
+  whyNow: string;
+  sources: NewsArticle[];
+  depth: ResearchDepth;
+  researchedAt: string;
+}
+
+// What to research: a trend and the geo whose trend feed links its news
+interface ResearchSubject {
+  trend: string;
+  geo: string;
+}
+
+class HttpError extends Error {
+  constructor(message: string, public url: string, public status?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Swappable so research can run against local fixtures instead of the network
+interface HttpFetcher {
+  fetchText(url: string): Promise<string>;
+}
+
+class NetworkFetcher implements HttpFetcher {
+  constructor(private timeoutMs = 15000) {}
+
+  async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; google-trends-digestion-agent)' },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    if (!response.ok) {
+      throw new HttpError(`${url} responded ${response.status}`, url, response.status);
+    }
+    return response.text();
+  }
+}
+
+/**
+ * Serves fixed responses keyed by URL. fromDirectory reads a fixtures.json mapping each URL
+ * to a file in the same directory; unknown URLs fail like a 404.
+ */
+class FixtureFetcher implements HttpFetcher {
+  readonly requested: string[] = [];
+
+  constructor(private fixtures: Record<string, string>) {}
+
+  static fromDirectory(directory: string): FixtureFetcher {
+    const manifest = JSON.parse(fs.readFileSync(path.join(directory, 'fixtures.json'), 'utf8')) as Record<string, string>;
+    const fixtures: Record<string, string> = {};
+    Object.entries(manifest).forEach(([url, file]) => {
+      fixtures[url] = fs.readFileSync(path.join(directory, file), 'utf8');
+    });
+    return new FixtureFetcher(fixtures);
+  }
+
+  async fetchText(url: string): Promise<string> {
+    this.requested.push(url);
+    if (!(url in this.fixtures)) {
+      throw new HttpError(`No fixture for ${url}`, url, 404);
+    }
+    return this.fixtures[url];
+  }
+}
+
+const DEFAULT_RESEARCH_OPTIONS: Omit<ResearchOptions, 'fetcher'> = {
+  depth: 'articles',
+  maxArticles: 3,
+  maxCharsPerArticle: 4000
+};
+
+function trendsFeedUrl(geo: string): string {
+  return `https://trends.google.com/trending/rss?${new URLSearchParams({ geo })}`;
+}
+
+function elementText(element: HTMLElement | undefined): string {
+  return (element?.text ?? '').replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim();
+}
+
+function childElements(element: HTMLElement, tagName: string): HTMLElement[] {
+  return element.childNodes.filter((node): node is HTMLElement =>
+    node instanceof HTMLElement && node.rawTagName?.toLowerCase() === tagName);
+}
+
+/**
+ * News links per trend from the Google Trends RSS feed: the same articles the trend's detail
+ * panel shows, as <ht:news_item> entries of each <item>. Keyed by trendKey.
+ */
+function parseTrendsFeed(xml: string): Map<string, NewsLink[]> {
+  const links = new Map<string, NewsLink[]>();
+  for (const item of parse(xml).querySelectorAll('item')) {
+    const title = elementText(childElements(item, 'title')[0]);
+    if (!title) {
+      continue;
+    }
+    const news = childElements(item, 'ht:news_item').map(entry => ({
+      title: elementText(childElements(entry, 'ht:news_item_title')[0]),
+      url: elementText(childElements(entry, 'ht:news_item_url')[0]),
+      source: elementText(childElements(entry, 'ht:news_item_source')[0])
+    })).filter(link => link.url);
+    links.set(trendKey(title), news);
+  }
+  return links;
+}
+
+// Readable text of an article page: paragraphs of the <article> (or <main>), without page chrome
+function extractArticleText(html: string, maxChars: number): string {
+  const root = parse(html);
+  root.querySelectorAll('script, style, noscript, nav, header, footer, aside, form').forEach(node => node.remove());
+  const container = root.querySelector('article') ?? root.querySelector('main') ?? root;
+  const paragraphs = container.querySelectorAll('p')
+    .map(paragraph => paragraph.text.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 40);
+  const text = paragraphs.length > 0 ? paragraphs.join('\n\n') : container.text.replace(/\s+/g, ' ').trim();
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+const RESEARCH_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'What the trend is about, 2-3 sentences', minLength: 1 },
+    keyFacts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          fact: { type: 'string', minLength: 1 },
+          sources: { type: 'array', items: { type: 'integer', minimum: 0 }, description: 'Numbers of the sources stating the fact' }
+        },
+        required: ['fact', 'sources']
+      }
+    },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          type: { type: 'string', description: 'person, organization, place, product, event or other' }
+        },
+        required: ['name', 'type']
+      }
+    },
+    whyNow: { type: 'string', description: 'Why people are searching for this right now', minLength: 1 }
+  },
+  required: ['summary', 'keyFacts', 'entities', 'whyNow']
+};
+
+// Source numbers must point at a listed article; the schema can't express that
+function checkResearchResponse(value: unknown, sourceCount: number): SchemaIssue[] {
+  const issues = validateSchema(value, RESEARCH_SCHEMA);
+  const facts = (value as { keyFacts?: unknown } | null)?.keyFacts;
+  (Array.isArray(facts) ? facts : []).forEach((fact, index) => {
+    const sources = (fact as { sources?: unknown } | null)?.sources;
+    (Array.isArray(sources) ? sources : []).forEach(source => {
+      if (typeof source === 'number' && source >= sourceCount) {
+        issues.push({ path: `$.keyFacts[${index}].sources`, message: `there is no source [${source}]` });
+      }
+    });
+  });
+  return issues;
+}
+
+class Researcher {
+  private options: ResearchOptions;
+  private feeds = new Map<string, Promise<Map<string, NewsLink[]>>>();
+
+  constructor(private provider: LLMProvider, options: Partial<ResearchOptions> = {}) {
+    this.options = { ...DEFAULT_RESEARCH_OPTIONS, fetcher: new NetworkFetcher(), ...options };
+  }
+
+  private fetchText(url: string): Promise<string> {
+    return withRetry(() => this.options.fetcher.fetchText(url), { retries: 2, ...this.options.retry });
+  }
+
+  // The trend feed of a geo is fetched once and shared by every trend researched from it
+  private newsFeed(geo: string): Promise<Map<string, NewsLink[]>> {
+    if (!this.feeds.has(geo)) {
+      const feed = this.fetchText(trendsFeedUrl(geo)).then(parseTrendsFeed);
+      feed.catch(() => this.feeds.delete(geo));
+      this.feeds.set(geo, feed);
+    }
+    return this.feeds.get(geo) as Promise<Map<string, NewsLink[]>>;
+  }
+
+  async collectArticles(subject: ResearchSubject): Promise<NewsArticle[]> {
+    const links = ((await this.newsFeed(subject.geo)).get(trendKey(subject.trend)) ?? []).slice(0, this.options.maxArticles);
+    if (this.options.depth === 'headlines') {
+      return links.map(link => ({ ...link, text: null }));
+    }
+
+    // One unreachable article shouldn't sink the research; it's kept as a headline
+    return Promise.all(links.map(async link => {
+      try {
+        return { ...link, text: extractArticleText(await this.fetchText(link.url), this.options.maxCharsPerArticle) };
+      } catch (error) {
+        return { ...link, text: null, error: (error as Error).message };
+      }
+    }));
+  }
+
+  /**
+   * Sourced summary of why a trend is trending, from the news Google Trends links to it.
+   * Returns null when the trend feed has no news for it.
+   */
+  async research(subject: ResearchSubject): Promise<TrendResearch | null> {
+    console.log(`🔎 Researching: ${subject.trend}`);
+    const sources = await this.collectArticles(subject);
+    if (sources.length === 0) {
+      console.log(`   No news linked to ${subject.trend} in the ${subject.geo} trend feed`);
+      return null;
+    }
+
+    const prompt = `
+You are a news researcher. Explain why "${subject.trend}" is trending in ${subject.geo}, using only the sources below.
+
+SOURCES:
+${sources.map((source, index) => `
+[${index}] ${source.title} (${source.source || 'unknown source'})
+    ${source.text ? source.text.replace(/\n+/g, '\n    ') : '(headline only)'}`).join('\n')}
+
+Provide:
+1. A short summary of what the trend is about (2-3 sentences)
+2. The key facts, each with the numbers of the sources that state it
+3. The main entities involved (people, organizations, places, products, events)
+4. Why people are searching for it right now
+
+Respond in JSON format:
+{
+  "summary": "<summary>",
+  "keyFacts": [{ "fact": "<fact>", "sources": [<source number>] }],
+  "entities": [{ "name": "<name>", "type": "person|organization|place|product|event|other" }],
+  "whyNow": "<explanation>"
+}
+`;
+
+    let attemptPrompt = prompt;
+    let issues: SchemaIssue[] = [];
+    // One repair attempt: research is a nice-to-have, not worth many requests
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const response = await withRetry(() => this.provider.generate(attemptPrompt, { responseSchema: RESEARCH_SCHEMA }), this.options.retry);
+      const { value, issue } = parseJsonResponse(response);
+      issues = issue ? [issue] : checkResearchResponse(value, sources.length);
+      if (issues.length === 0) {
+        const answer = value as Omit<TrendResearch, 'sources' | 'depth' | 'researchedAt'>;
+        return { ...answer, sources, depth: this.options.depth, researchedAt: new Date().toISOString() };
+      }
+      attemptPrompt = `${prompt}
+Your previous answer was invalid:
+${response}
+
+Problems found:
+${issues.map(found => `- ${found.path}: ${found.message}`).join('\n')}
+
+Respond again with the complete, corrected JSON.
+`;
+    }
+    throw new Error(`Invalid research response for ${subject.trend}: ${issues.map(found => `${found.path} ${found.message}`).join('; ')}`);
+  }
+}
+
+/**
+ * Research settings from RESEARCH_DEPTH (headlines or articles) and RESEARCH_MAX_ARTICLES.
+ */
+function researchOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<ResearchOptions> {
+  const options: Partial<ResearchOptions> = {};
+  if (env.RESEARCH_DEPTH === 'headlines' || env.RESEARCH_DEPTH === 'articles') {
+    options.depth = env.RESEARCH_DEPTH;
+  }
+  const maxArticles = Number(env.RESEARCH_MAX_ARTICLES);
+  if (maxArticles > 0) {
+    options.maxArticles = maxArticles;
+  }
+  return options;
+}
+
+// Usage: research "<trend name>" [geo]
+if (require.main === module) {
+  const [trend, geo = 'US'] = process.argv.slice(2);
+  if (!trend) {
+    console.error('❌ Usage: research "<trend name>" [geo]');
+    process.exit(1);
+  }
+
+  new Researcher(createProviderFromEnv(), researchOptionsFromEnv())
+    .research({ trend, geo: geo.toUpperCase() })
+    .then(result => console.log(JSON.stringify(result, null, 2)))
+    .catch(error => {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
+    });
+}
+
+export {
+  ResearchDepth,
+  ResearchOptions,
+  ResearchSubject,
+  NewsLink,
+  NewsArticle,
+  KeyFact,
+  TrendEntity,
+  TrendResearch,
+  HttpError,
+  HttpFetcher,
+  NetworkFetcher,
+  FixtureFetcher,
+  DEFAULT_RESEARCH_OPTIONS,
+  trendsFeedUrl,
+  parseTrendsFeed,
+  extractArticleText,
+  Researcher,
+  researchOptionsFromEnv
+};
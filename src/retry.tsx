@@ -0,0 +1,79 @@
+// Retries with exponential backoff and full jitter, shared by every network-facing stage
+
+interface RetryOptions {
+  retries: number;                                  // attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isRetryable?: (error: unknown) => boolean;        // defaults to isTransientError
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  sleep?: (ms: number) => Promise<void>;            // swappable so tests don't wait
+  random?: () => number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Thrown once every attempt has failed; keeps the last error and the attempt count
+class RetryError extends Error {
+  constructor(public lastError: unknown, public attempts: number) {
+    super(`Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+    this.name = 'RetryError';
+  }
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Rate limiting (429), server errors (5xx) and network failures are worth retrying;
+ * anything else (bad request, auth, bad output) will fail the same way again.
+ */
+function isTransientError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|5\d\d)\b|fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|timeout/i.test(message);
+}
+
+function backoffDelay(attempt: number, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs' | 'random'>): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling * (options.random ?? Math.random)());
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+  const settings: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const isRetryable = settings.isRetryable ?? isTransientError;
+  const sleep = settings.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > settings.retries || !isRetryable(error)) {
+        throw new RetryError(error, attempt);
+      }
+      const delayMs = backoffDelay(attempt, settings);
+      settings.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+export {
+  RetryOptions,
+  DEFAULT_RETRY_OPTIONS,
+  RetryError,
+  errorStatus,
+  isTransientError,
+  backoffDelay,
+  withRetry
+};
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { CronExpressionParser } from 'cron-parser';
+import { ScrapeOptions, toScrapeRequest } from './trends-query';
+
+// When the scheduler runs the pipeline, read from schedule.yaml (or SCHEDULE_CONFIG)
+const DEFAULT_SCHEDULE_CONFIG_PATH = 'schedule.yaml';
+const DEFAULT_LOCK_PATH = 'scheduler.lock';
+
+interface ScheduledJob {
+  name: string;
+  cron: string;                    // standard 5-field expression, or 6 fields with seconds
+  timezone: string | null;         // IANA zone the expression is read in; null for the machine's
+  snapshots: ScrapeOptions[];      // every geo × window × category the job captures
+}
+
+// How much of the downtime to make up for when the scheduler starts again
+interface CatchUpPolicy {
+  maxRuns: number;                 // missed runs per job to make up for, most recent first; 0 to skip them all
+  maxAgeHours: number;             // missed runs older than this are never made up for
+}
+
+interface ScheduleConfig {
+  jobs: ScheduledJob[];
+  catchUp: CatchUpPolicy;
+  lockFile: string;                // held while a run is in progress, so runs can't overlap
+}
+
+class ScheduleConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid schedule config ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ScheduleConfigError';
+  }
+}
+
+const TOP_LEVEL_KEYS = ['jobs', 'catchUp', 'lockFile'];
+const JOB_KEYS = ['name', 'cron', 'timezone', 'geo', 'window', 'category', 'activeOnly'];
+const CATCH_UP_KEYS = ['maxRuns', 'maxAgeHours'];
+const DEFAULT_CATCH_UP: CatchUpPolicy = { maxRuns: 1, maxAgeHours: 24 };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// "US, BE" or [US, BE]
+function readList(value: unknown, field: string, issues: string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+    issues.push(`${field}: must be a list or a comma separated string`);
+    return [];
+  }
+  return items.map(item => String(item).trim()).filter(Boolean);
+}
+
+function readWholeNumber(value: unknown, field: string, fallback: number, issues: string[]): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    issues.push(`${field}: must be a whole number of 0 or more`);
+    return fallback;
+  }
+  return value as number;
+}
+
+function validateCron(expression: string, timezone: string | null, field: string, issues: string[]): void {
+  try {
+    CronExpressionParser.parse(expression, { tz: timezone ?? undefined });
+  } catch (error) {
+    issues.push(`${field}: invalid cron expression "${expression}" (${(error as Error).message})`);
+  }
+}
+
+function validateTimezone(timezone: string, field: string, issues: string[]): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    issues.push(`${field}: unknown time zone "${timezone}"`);
+  }
+}
+
+function validateJob(value: unknown, index: number, issues: string[]): ScheduledJob | null {
+  const field = `jobs[${index}]`;
+  if (!isRecord(value)) {
+    issues.push(`${field}: must be a mapping`);
+    return null;
+  }
+  Object.keys(value).filter(key => !JOB_KEYS.includes(key)).forEach(key => {
+    issues.push(`${field}.${key}: unknown field (expected one of ${JOB_KEYS.join(', ')})`);
+  });
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    issues.push(`${field}.name: is required`);
+  }
+  const label = name ? `${field} (${name})` : field;
+
+  const cron = typeof value.cron === 'string' ? value.cron.trim() : '';
+  const timezone = typeof value.timezone === 'string' ? value.timezone.trim() : null;
+  if (value.timezone !== undefined && !timezone) {
+    issues.push(`${label}.timezone: must be a time zone name, e.g. Europe/Brussels`);
+  } else if (timezone) {
+    validateTimezone(timezone, `${label}.timezone`, issues);
+  }
+  if (!cron) {
+    issues.push(`${label}.cron: is required`);
+  } else {
+    validateCron(cron, timezone, `${label}.cron`, issues);
+  }
+  if (value.activeOnly !== undefined && typeof value.activeOnly !== 'boolean') {
+    issues.push(`${label}.activeOnly: must be true or false`);
+  }
+
+  // Same values as the --geo/--window/--category flags
+  let snapshots: ScrapeOptions[] = [];
+  try {
+    snapshots = toScrapeRequest({
+      geo: readList(value.geo, `${label}.geo`, issues),
+      window: readList(value.window, `${label}.window`, issues),
+      category: readList(value.category, `${label}.category`, issues),
+      'active-only': value.activeOnly === true
+    }).snapshots;
+  } catch (error) {
+    issues.push(`${label}: ${(error as Error).message}`);
+  }
+
+  return { name, cron, timezone, snapshots };
+}
+
+/**
+ * Validates a parsed schedule config, collecting every problem like the domains config does.
+ */
+function validateScheduleConfig(document: unknown, source: string): ScheduleConfig {
+  if (!isRecord(document) || !Array.isArray(document.jobs) || document.jobs.length === 0) {
+    throw new ScheduleConfigError(source, ['top level must be a mapping with a non-empty "jobs" list']);
+  }
+  const issues: string[] = [];
+  Object.keys(document).filter(key => !TOP_LEVEL_KEYS.includes(key)).forEach(key => {
+    issues.push(`${key}: unknown top-level field (expected one of ${TOP_LEVEL_KEYS.join(', ')})`);
+  });
+
+  const catchUp = document.catchUp === undefined ? {} : document.catchUp;
+  if (!isRecord(catchUp)) {
+    issues.push('catchUp: must be a mapping');
+  } else {
+    Object.keys(catchUp).filter(key => !CATCH_UP_KEYS.includes(key)).forEach(key => {
+      issues.push(`catchUp.${key}: unknown field (expected one of ${CATCH_UP_KEYS.join(', ')})`);
+    });
+  }
+  const policy = isRecord(catchUp) ? catchUp : {};
+  const maxRuns = readWholeNumber(policy.maxRuns, 'catchUp.maxRuns', DEFAULT_CATCH_UP.maxRuns, issues);
+  const maxAgeHours = readWholeNumber(policy.maxAgeHours, 'catchUp.maxAgeHours', DEFAULT_CATCH_UP.maxAgeHours, issues);
+
+  if (document.lockFile !== undefined && (typeof document.lockFile !== 'string' || !document.lockFile.trim())) {
+    issues.push('lockFile: must be a file path');
+  }
+
+  const jobs = document.jobs.map((job, index) => validateJob(job, index, issues));
+  const seen = new Set<string>();
+  jobs.forEach((job, index) => {
+    if (job?.name && seen.has(job.name.toLowerCase())) {
+      issues.push(`jobs[${index}].name: duplicate job "${job.name}"`);
+    }
+    seen.add(job?.name.toLowerCase() ?? '');
+  });
+
+  if (issues.length > 0) {
+    throw new ScheduleConfigError(source, issues);
+  }
+  return {
+    jobs: jobs as ScheduledJob[],
+    catchUp: { maxRuns, maxAgeHours },
+    lockFile: typeof document.lockFile === 'string' ? document.lockFile.trim() : DEFAULT_LOCK_PATH
+  };
+}
+
+// Reads a .yaml/.yml or .json schedule config
+function loadScheduleConfig(filePath: string): ScheduleConfig {
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ScheduleConfigError(filePath, [(error as Error).message]);
+  }
+  return validateScheduleConfig(document, filePath);
+}
+
+/**
+ * The schedule: the explicit path, else SCHEDULE_CONFIG, else schedule.yaml when present.
+ * Null when nothing is configured.
+ */
+function resolveScheduleConfig(configPath?: string): ScheduleConfig | null {
+  const explicit = configPath || process.env.SCHEDULE_CONFIG;
+  if (explicit) {
+    return loadScheduleConfig(explicit);
+  }
+  return fs.existsSync(DEFAULT_SCHEDULE_CONFIG_PATH) ? loadScheduleConfig(DEFAULT_SCHEDULE_CONFIG_PATH) : null;
+}
+
+export {
+  DEFAULT_SCHEDULE_CONFIG_PATH,
+  DEFAULT_LOCK_PATH,
+  ScheduledJob,
+  CatchUpPolicy,
+  ScheduleConfig,
+  ScheduleConfigError,
+  validateScheduleConfig,
+  loadScheduleConfig,
+  resolveScheduleConfig
+};
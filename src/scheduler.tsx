@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { parseArgs } from 'util';
+import { CronExpressionParser } from 'cron-parser';
+import { PipelineOptions, runPipeline } from './pipeline';
+import { CatchUpPolicy, ScheduleConfig, ScheduleConfigError, ScheduledJob, resolveScheduleConfig } from './schedule-config';
+import { DEFAULT_STORE_PATH, ScheduledRun, ScheduledRunStatus, TrendStore } from './trend-store';
+
+// setTimeout can't wait longer than ~24.8 days, and clocks drift; wake up at least hourly
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+// An unreadable lock younger than this may still be being written by whoever took it
+const LOCK_WRITE_GRACE_MS = 60 * 1000;
+
+// Who holds the lock file, written into it as JSON
+interface LockHolder {
+  pid: number;
+  host: string;
+  job: string;
+  acquiredAt: string;
+}
+
+class LockError extends Error {
+  constructor(message: string, public lockPath: string, public holder: LockHolder | null) {
+    super(message);
+    this.name = 'LockError';
+  }
+}
+
+interface SchedulerOptions {
+  storePath: string;               // trend store the run status is recorded in
+  pipeline: PipelineOptions;       // provider, domains, delivery and output directory, shared by every job
+  now?: () => Date;                // swappable so catch-up can be tried without waiting
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function readLockHolder(lockPath: string): LockHolder | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf8')) as LockHolder;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the lock is currently held: by a live process on this machine, by any process on
+ * another machine (which can't be checked), or half-written moments ago.
+ */
+function isLockHeld(lockPath: string): boolean {
+  if (!fs.existsSync(lockPath)) {
+    return false;
+  }
+  const holder = readLockHolder(lockPath);
+  if (!holder) {
+    return Date.now() - fs.statSync(lockPath).mtimeMs < LOCK_WRITE_GRACE_MS;
+  }
+  return holder.host !== os.hostname() || isProcessAlive(holder.pid);
+}
+
+function releaseLock(lockPath: string): void {
+  if (readLockHolder(lockPath)?.pid === process.pid) {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Takes the lock file, or throws LockError when another run holds it. A lock left behind by a
+ * process that no longer exists is taken over. Returns the function that releases it.
+ */
+function acquireLock(lockPath: string, job: string): () => void {
+  const holder: LockHolder = { pid: process.pid, host: os.hostname(), job, acquiredAt: new Date().toISOString() };
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(holder), { flag: 'wx' });
+      return () => releaseLock(lockPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      const current = readLockHolder(lockPath);
+      if (isLockHeld(lockPath)) {
+        const by = current ? `${current.job} (pid ${current.pid} on ${current.host} since ${current.acquiredAt})` : 'another run';
+        throw new LockError(`${lockPath} is held by ${by}`, lockPath, current);
+      }
+      console.warn(`⚠️ Removing stale lock ${lockPath}${current ? ` left by pid ${current.pid}` : ''}`);
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+  throw new LockError(`Could not take ${lockPath}`, lockPath, readLockHolder(lockPath));
+}
+
+function nextOccurrence(job: ScheduledJob, after: Date): Date {
+  return CronExpressionParser.parse(job.cron, { currentDate: after, tz: job.timezone ?? undefined }).next().toDate();
+}
+
+/**
+ * Occurrences of a job after its last recorded run that never ran, limited by the catch-up
+ * policy: the most recent maxRuns of them, none older than maxAgeHours. A job that never ran
+ * has nothing to make up for. `skipped` counts the ones within maxAgeHours left out.
+ */
+function missedRuns(job: ScheduledJob, lastScheduledFor: Date | null, now: Date, policy: CatchUpPolicy): { runs: Date[]; skipped: number } {
+  if (!lastScheduledFor) {
+    return { runs: [], skipped: 0 };
+  }
+  const oldest = new Date(now.getTime() - policy.maxAgeHours * 3600 * 1000);
+  const from = lastScheduledFor > oldest ? lastScheduledFor : oldest;
+  if (from >= now) {
+    return { runs: [], skipped: 0 };
+  }
+
+  const expression = CronExpressionParser.parse(job.cron, { currentDate: from, endDate: now, tz: job.timezone ?? undefined });
+  const occurrences: Date[] = [];
+  while (expression.hasNext()) {
+    occurrences.push(expression.next().toDate());
+  }
+  const runs = policy.maxRuns > 0 ? occurrences.slice(-policy.maxRuns) : [];
+  return { runs, skipped: occurrences.length - runs.length };
+}
+
+function threadIdFor(job: ScheduledJob, scheduledFor: Date): string {
+  const slug = job.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}-${scheduledFor.toISOString().replace(/[:.]/g, '-')}`;
+}
+
+/**
+ * Runs the pipeline for each job on its cron schedule, one run at a time. Runs that are due
+ * while another is in progress wait for it; the lock file keeps other schedulers (or a second
+ * copy of this one) from overlapping with them. Every run is recorded in the trend store.
+ */
+class Scheduler {
+  private nextRuns = new Map<string, Date>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private active: { runId: number; job: string; threadId: string; release: () => void } | null = null;
+  private stopping = false;
+
+  constructor(private config: ScheduleConfig, private options: SchedulerOptions) {}
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date();
+  }
+
+  // Opened for each write: the pipeline saves the same file in between
+  private async withStore<T>(work: (store: TrendStore) => T): Promise<T> {
+    const store = await TrendStore.open(this.options.storePath);
+    try {
+      return work(store);
+    } finally {
+      store.close();
+    }
+  }
+
+  /**
+   * Makes up for runs missed while the scheduler was down, then waits for the next ones.
+   */
+  async start(): Promise<void> {
+    const now = this.now();
+    if (!isLockHeld(this.config.lockFile)) {
+      const interrupted = await this.withStore(store => store.interruptRunningRuns('scheduler stopped before the run finished'));
+      if (interrupted > 0) {
+        console.warn(`⚠️ Marked ${interrupted} unfinished run(s) as interrupted`);
+      }
+    }
+
+    for (const job of this.config.jobs) {
+      const last = await this.withStore(store => store.getLastScheduledRun(job.name));
+      const { runs, skipped } = missedRuns(job, last ? new Date(last.scheduledFor) : null, now, this.config.catchUp);
+      if (skipped > 0) {
+        console.log(`⏩ ${job.name}: not making up for ${skipped} missed run(s) (catch-up limit ${this.config.catchUp.maxRuns})`);
+      }
+      runs.forEach(scheduledFor => this.enqueue(job, scheduledFor, true));
+
+      const next = nextOccurrence(job, now);
+      this.nextRuns.set(job.name, next);
+      console.log(`🗓️ ${job.name} (${job.cron}${job.timezone ? ` ${job.timezone}` : ''}): next run at ${next.toISOString()}`);
+    }
+    this.arm();
+  }
+
+  private arm(): void {
+    if (this.stopping) {
+      return;
+    }
+    const next = Math.min(...[...this.nextRuns.values()].map(date => date.getTime()));
+    const delay = Math.max(0, Math.min(MAX_TIMER_MS, next - this.now().getTime()));
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(): void {
+    const now = this.now();
+    for (const job of this.config.jobs) {
+      const due = this.nextRuns.get(job.name);
+      if (due && due <= now) {
+        this.enqueue(job, due, false);
+        this.nextRuns.set(job.name, nextOccurrence(job, now));
+      }
+    }
+    this.arm();
+  }
+
+  private enqueue(job: ScheduledJob, scheduledFor: Date, catchUp: boolean): void {
+    this.queue = this.queue.then(() => this.runJob(job, scheduledFor, catchUp));
+  }
+
+  /**
+   * Runs one occurrence of a job and records how it went. Never throws: a failed run is
+   * recorded as failed, one that couldn't take the lock as skipped. Null once stopping.
+   */
+  async runJob(job: ScheduledJob, scheduledFor: Date = this.now(), catchUp = false): Promise<ScheduledRunStatus | null> {
+    if (this.stopping) {
+      return null;
+    }
+    const threadId = threadIdFor(job, scheduledFor);
+    const run = { job: job.name, scheduledFor: scheduledFor.toISOString(), threadId, catchUp };
+
+    let release: () => void;
+    try {
+      release = acquireLock(this.config.lockFile, job.name);
+    } catch (error) {
+      console.warn(`⏩ ${job.name}: skipped the run for ${run.scheduledFor}: ${(error as Error).message}`);
+      await this.withStore(store => store.recordScheduledRun({ ...run, status: 'skipped', error: (error as Error).message }));
+      return 'skipped';
+    }
+
+    let status: Exclude<ScheduledRunStatus, 'running'> = 'succeeded';
+    let reason: string | null = null;
+    try {
+      const runId = await this.withStore(store => store.recordScheduledRun(run));
+      this.active = { runId, job: job.name, threadId, release };
+      console.log(`🚀 ${job.name}: run for ${run.scheduledFor}${catchUp ? ' (catch-up)' : ''} as "${threadId}"`);
+
+      try {
+        const state = await runPipeline(
+          { snapshots: job.snapshots, storePath: this.options.storePath, htmlFiles: [], csvFiles: [] },
+          threadId,
+          this.options.pipeline
+        );
+        const failed = state.deliveries.filter(delivery => delivery.status === 'failed');
+        if (failed.length > 0) {
+          status = 'failed';
+          reason = `delivery failed: ${failed.map(delivery => `${delivery.team} → ${delivery.target}: ${delivery.error}`).join('; ')}`;
+        }
+      } catch (error) {
+        status = 'failed';
+        reason = (error as Error).message ?? String(error);
+      }
+
+      await this.withStore(store => store.finishScheduledRun(runId, status, reason));
+    } finally {
+      this.active = null;
+      release();
+    }
+
+    if (status === 'succeeded') {
+      console.log(`✅ ${job.name}: run for ${run.scheduledFor} finished`);
+    } else {
+      console.error(`❌ ${job.name}: run for ${run.scheduledFor} failed: ${reason}`);
+      console.error(`   Resume it with: trends run --resume ${threadId}`);
+    }
+    return status;
+  }
+
+  /**
+   * Stops scheduling and waits for the run in progress, if any. Queued runs are dropped;
+   * the next start makes up for them within the catch-up limit.
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.active) {
+      console.log(`⏳ Waiting for ${this.active.job} ("${this.active.threadId}") to finish`);
+    }
+    await this.queue;
+  }
+
+  // Gives up on the run in progress without waiting for it, recording why
+  async abort(reason: string): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    const active = this.active;
+    if (active) {
+      await this.withStore(store => store.finishScheduledRun(active.runId, 'interrupted', reason));
+      active.release();
+      console.warn(`⚠️ ${active.job} interrupted; resume it with: trends run --resume ${active.threadId}`);
+    }
+  }
+}
+
+/**
+ * Runs the scheduler until SIGTERM or SIGINT. The first signal lets the run in progress finish,
+ * a second one stops right away and records the run as interrupted. Resolves with the exit code.
+ */
+function runScheduler(config: ScheduleConfig, options: SchedulerOptions): Promise<number> {
+  const scheduler = new Scheduler(config, options);
+  return new Promise((resolve, reject) => {
+    let signals = 0;
+    const onSignal = (signal: NodeJS.Signals) => {
+      signals++;
+      if (signals === 1) {
+        console.log(`🛑 ${signal}: stopping after the run in progress (send it again to stop now)`);
+        scheduler.stop().then(() => resolve(0), reject);
+      } else {
+        scheduler.abort(`stopped by ${signal}`).then(() => resolve(1), reject);
+      }
+    };
+    process.on('SIGTERM', onSignal);
+    process.on('SIGINT', onSignal);
+    scheduler.start().catch(reject);
+  });
+}
+
+const STATUS_ICONS: Record<ScheduledRunStatus, string> = {
+  running: '⏳',
+  succeeded: '✅',
+  failed: '❌',
+  skipped: '⏩',
+  interrupted: '⚠️'
+};
+
+function formatScheduledRun(run: ScheduledRun): string {
+  const seconds = run.finishedAt ? Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000) : null;
+  return [
+    `${STATUS_ICONS[run.status]} ${run.job} ${run.scheduledFor} ${run.status}${run.catchUp ? ' (catch-up)' : ''}`,
+    seconds !== null ? ` in ${seconds}s` : '',
+    run.threadId ? ` [${run.threadId}]` : '',
+    run.error ? `\n   ${run.error}` : ''
+  ].join('');
+}
+
+// Usage: scheduler [--schedule schedule.yaml] [--once <job>] [--dry-run] [--db trends.db]
+//        scheduler status [--job <name>] [--limit 20] [--db trends.db]
+if (require.main === module) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      schedule: { type: 'string' },
+      once: { type: 'string' },
+      job: { type: 'string' },
+      limit: { type: 'string', default: '20' },
+      db: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false }
+    },
+    allowPositionals: true
+  });
+  const storePath = values.db ?? process.env.TRENDS_DB ?? DEFAULT_STORE_PATH;
+
+  if (positionals[0] === 'status') {
+    TrendStore.open(storePath).then(store => {
+      const runs = store.getScheduledRuns(values.job, Number(values.limit) || 20);
+      store.close();
+      if (runs.length === 0) {
+        console.log('No scheduled runs recorded yet');
+      }
+      runs.forEach(run => console.log(formatScheduledRun(run)));
+    }).catch(console.error);
+  } else {
+    let config: ScheduleConfig | null;
+    try {
+      config = resolveScheduleConfig(values.schedule);
+    } catch (error) {
+      console.error(`❌ ${(error as ScheduleConfigError).message}`);
+      process.exit(1);
+    }
+    if (!config) {
+      console.error('❌ No schedule: create schedule.yaml (see schedule.example.yaml) or set SCHEDULE_CONFIG');
+      process.exit(1);
+    }
+
+    const options: SchedulerOptions = { storePath, pipeline: { dryRun: values['dry-run'] } };
+    const job = values.once ? config.jobs.find(candidate => candidate.name === values.once) : undefined;
+    if (values.once && !job) {
+      console.error(`❌ No job named "${values.once}" in the schedule`);
+      process.exit(1);
+    }
+    const done = job
+      ? new Scheduler(config, options).runJob(job).then(status => (status === 'succeeded' ? 0 : 1))
+      : runScheduler(config, options);
+    done.then(code => process.exit(code), error => {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
+    });
+  }
+}
+
+export {
+  LockHolder,
+  LockError,
+  SchedulerOptions,
+  Scheduler,
+  acquireLock,
+  isLockHeld,
+  nextOccurrence,
+  missedRuns,
+  runScheduler,
+  formatScheduledRun
+};
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import { HTMLElement, parse } from 'node-html-parser';
+import { CleanedTrendData } from './data-cleaner';
+import { loadHtmlSnapshot } from './html-snapshot';
+import { TREND_COLUMN_HEADERS, TREND_ROW_SELECTOR, extractHeaders, extractTrends } from './trend-extractor';
+import { DEFAULT_SCRAPE_OPTIONS, SnapshotMetadata } from './trends-query';
+
+// Fields every scraped trend should have; a column that keeps coming back empty means its markup moved
+type RequiredTrendField = 'trendName' | 'searchVolume' | 'timeAgo';
+
+interface ScrapeHealthOptions {
+  minRows: number;                         // trends a page must yield
+  requiredFields: RequiredTrendField[];
+  maxMissingShare: number;                 // share (0-1) of trends allowed to miss a required field
+}
+
+// A filtered window (one category, active only) can legitimately be short, so one row is the floor
+const DEFAULT_SCRAPE_HEALTH_OPTIONS: ScrapeHealthOptions = {
+  minRows: 1,
+  requiredFields: ['trendName', 'searchVolume', 'timeAgo'],
+  maxMissingShare: 0.2
+};
+
+interface ScrapeHealthReport {
+  rows: number;                            // rows matching the table row selector, header included
+  trends: number;
+  headers: string[];
+  issues: string[];
+}
+
+// Thrown instead of writing a CSV from a page that no longer looks like the trending table
+class ScrapeHealthError extends Error {
+  constructor(public source: string, public issues: string[], public artifacts: string[] = []) {
+    super([
+      `Scrape health check failed for ${source}:`,
+      ...issues.map(issue => `  - ${issue}`),
+      ...(artifacts.length > 0 ? [`Saved for inspection: ${artifacts.join(', ')}`] : [])
+    ].join('\n'));
+    this.name = 'ScrapeHealthError';
+  }
+}
+
+// Defaults, with SCRAPE_MIN_ROWS raising the floor for snapshots known to be long
+function resolveScrapeHealthOptions(options: Partial<ScrapeHealthOptions> = {}): ScrapeHealthOptions {
+  const minRows = Number(process.env.SCRAPE_MIN_ROWS);
+  return {
+    ...DEFAULT_SCRAPE_HEALTH_OPTIONS,
+    ...(process.env.SCRAPE_MIN_ROWS && Number.isInteger(minRows) && minRows >= 0 ? { minRows } : {}),
+    ...options
+  };
+}
+
+function checkHeaders(headers: string[]): string | null {
+  const expected = Object.entries(TREND_COLUMN_HEADERS).map(([column, label]) => ({ column: Number(column), label: label as string }));
+  const expectedLabels = expected.map(({ label }) => label).join(', ');
+  if (headers.length === 0) {
+    return `no table header found; expected columns ${expectedLabels}`;
+  }
+  const mismatched = expected.filter(({ column, label }) => !(headers[column] ?? '').toLowerCase().startsWith(label.toLowerCase()));
+  if (mismatched.length === 0) {
+    return null;
+  }
+  return `header layout changed: expected ${expectedLabels}, found ${headers.map(header => header || '(empty)').join(', ')}`;
+}
+
+/**
+ * Checks that a parsed page still looks like the trending table the extractor was written for:
+ * enough trends, the required fields filled in, and the column headers in the expected order.
+ * Collects every problem rather than stopping at the first.
+ */
+function checkScrapeHealth(root: HTMLElement, trends: CleanedTrendData[], options: Partial<ScrapeHealthOptions> = {}): ScrapeHealthReport {
+  const settings = resolveScrapeHealthOptions(options);
+  const rows = root.querySelectorAll(TREND_ROW_SELECTOR).length;
+  const headers = extractHeaders(root);
+  const issues: string[] = [];
+
+  if (trends.length < settings.minRows) {
+    issues.push(rows === 0
+      ? `no rows match ${TREND_ROW_SELECTOR}; the table markup may have changed`
+      : `${trends.length} trend${trends.length === 1 ? '' : 's'} read from ${rows} table rows, expected at least ${settings.minRows}`);
+  }
+  if (trends.length > 0) {
+    settings.requiredFields.forEach(field => {
+      const missing = trends.filter(trend => !trend[field]).length;
+      if (missing / trends.length > settings.maxMissingShare) {
+        issues.push(`${field} missing in ${missing} of ${trends.length} trends`);
+      }
+    });
+  }
+  const headerIssue = checkHeaders(headers);
+  if (headerIssue) {
+    issues.push(headerIssue);
+  }
+  return { rows, trends: trends.length, headers, issues };
+}
+
+// Throws a ScrapeHealthError listing every anomaly of the page, if it has any
+function assertScrapeHealth(source: string, root: HTMLElement, trends: CleanedTrendData[], options: Partial<ScrapeHealthOptions> = {}): ScrapeHealthReport {
+  const report = checkScrapeHealth(root, trends, options);
+  if (report.issues.length > 0) {
+    throw new ScrapeHealthError(source, report.issues);
+  }
+  return report;
+}
+
+// Usage: scrape-health <page.html>...
+// Checks saved pages without writing anything; exits 1 when any of them fails
+if (require.main === module) {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    console.error('❌ Usage: scrape-health <page.html>...');
+    process.exit(1);
+  }
+  files.forEach(file => {
+    const snapshot = loadHtmlSnapshot(file);
+    const metadata: SnapshotMetadata = snapshot.metadata
+      ?? { ...DEFAULT_SCRAPE_OPTIONS, scrapedAt: fs.statSync(file).mtime.toISOString() };
+    const root = parse(snapshot.html);
+    const report = checkScrapeHealth(root, extractTrends(root, metadata));
+    if (report.issues.length === 0) {
+      console.log(`✅ ${file}: ${report.trends} trends, columns ${report.headers.join(', ')}`);
+    } else {
+      console.error(`❌ ${new ScrapeHealthError(file, report.issues).message}`);
+      process.exitCode = 1;
+    }
+  });
+}
+
+export {
+  RequiredTrendField,
+  ScrapeHealthOptions,
+  DEFAULT_SCRAPE_HEALTH_OPTIONS,
+  ScrapeHealthReport,
+  ScrapeHealthError,
+  resolveScrapeHealthOptions,
+  checkScrapeHealth,
+  assertScrapeHealth
+};
@@ -1,98 +1,231 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { chromium, errors, Browser, BrowserContext, ConsoleMessage, Page } from 'playwright';
 import * as fs from 'fs';
+import * as path from 'path';
 import { parse } from 'node-html-parser';
-import { cleanTrendsDataArray, convertCleanedDataToCSV, CleanedTrendData } from './data-cleaner';
+import { convertCleanedDataToCSV, CleanedTrendData } from './data-cleaner';
+import { TREND_ROW_SELECTOR, extractTrends } from './trend-extractor';
+import { loadHtmlSnapshot, saveHtmlSnapshot, snapshotBaseName } from './html-snapshot';
+import { TrendStore } from './trend-store';
+import { ScrapeHealthError, assertScrapeHealth } from './scrape-health';
+import { RetryOptions, withRetry } from './retry';
+import { SnapshotLifecycles, computeSnapshotLifecycles } from './trend-lifecycle';
+import { ScrapeOptions, SnapshotMetadata, buildTrendsUrl, parseScrapeArgs, resolveHeadless } from './trends-query';
 
-async function run(): Promise<void> {
+function logLifecycleSummary({ lifecycles, gone }: SnapshotLifecycles): void {
+  const counts: Record<string, number> = {};
+  lifecycles.forEach(lifecycle => {
+    counts[lifecycle.stage] = (counts[lifecycle.stage] || 0) + 1;
+  });
+  counts.gone = gone.length;
+  console.log(`Lifecycle: ${Object.entries(counts).map(([stage, count]) => `${stage} ${count}`).join(', ')}`);
+}
+
+// Navigation timeouts are usually a slow or throttled page, so they are retried; other failures are not
+const NAVIGATION_RETRY: Partial<RetryOptions> = {
+  retries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  isRetryable: error => error instanceof errors.TimeoutError
+};
+
+const NAVIGATION_TIMEOUT_MS = 30000;
+
+// Screenshot, HTML and console log of a failed capture: scrape_failure_trending_topics_<snapshot>_<timestamp>.*
+const FAILURE_FILE_PREFIX = 'scrape_failure_';
+
+function processSnapshot(html: string, metadata: SnapshotMetadata, csvPath: string, store?: TrendStore, source = csvPath): string {
   /**
-   * Launches a Chromium browser and extracts trending topics from Google Trends.
+   * Runs the parse/clean/CSV pipeline on a page's HTML. Needs no browser or network,
+   * so live scrapes and replays of saved pages go through the exact same code.
+   * Throws a ScrapeHealthError, before anything is written, when the page no longer
+   * looks like the trending table.
    */
-  const browser: Browser = await chromium.launch({ headless: false });
   
-  // Create a new browser context
-  const context: BrowserContext = await browser.newContext();
+  // Parse the HTML content using node-html-parser
+  const root = parse(html);
   
-  // Open a new page in the browser context
-  const page: Page = await context.newPage();
+  // Read each table column straight into typed trend fields
+  const cleanedData: CleanedTrendData[] = extractTrends(root, metadata);
+  console.log(`Extracted ${cleanedData.length} trends`);
   
-  // Navigate to the Google Trends page for the US
-  await page.goto("https://trends.google.com/trending?geo=US");
-  await page.waitForLoadState('load', { timeout: 30000 });
+  // An empty or half-read table is a changed page, not a quiet hour
+  assertScrapeHealth(source, root, cleanedData);
   
-  // Get the page content as a string
-  const response: string = await page.content();
-  console.log(response.length);
+  // Create CSV content from cleaned data, recording the snapshot parameters in the output
+  const csvContent: string = convertCleanedDataToCSV(cleanedData, metadata);
   
-  // Parse the HTML content using node-html-parser
-  const root = parse(response);
+  // Write the extracted data to a CSV file with snapshot parameters and timestamp
+  fs.writeFileSync(csvPath, csvContent, 'utf8');
+  console.log(`Data saved to: ${csvPath}`);
   
-  // Extract all row elements containing trending topics
-  const rows = root.querySelectorAll('tr[role="row"]');
-  console.log(rows.length);
+  // Link this snapshot to earlier runs in the historical store
+  if (store) {
+    logLifecycleSummary(computeSnapshotLifecycles(store, metadata, cleanedData));
+    store.recordSnapshot(metadata, cleanedData, csvPath);
+    store.save();
+  }
   
-  // Initialize an array to store the extracted data
-  const data: string[][] = [];
+  return csvPath;
+}
+
+async function saveFailureArtifacts(page: Page, basePath: string, consoleLines: string[], metadata: SnapshotMetadata): Promise<string[]> {
+  /**
+   * Saves what is needed to see why a capture failed: a full-page screenshot, the HTML as the
+   * browser had it and the page's console output. Best effort, as the page may be half loaded.
+   */
+  const artifacts: string[] = [];
+  try {
+    await page.screenshot({ path: `${basePath}.png`, fullPage: true });
+    artifacts.push(`${basePath}.png`);
+  } catch (error) {
+    console.error(`⚠️  No screenshot: ${(error as Error).message}`);
+  }
+  try {
+    saveHtmlSnapshot(`${basePath}.html`, await page.content(), metadata);
+    artifacts.push(`${basePath}.html`);
+  } catch (error) {
+    console.error(`⚠️  No page HTML: ${(error as Error).message}`);
+  }
+  fs.writeFileSync(`${basePath}.console.log`, consoleLines.join('\n') + (consoleLines.length > 0 ? '\n' : ''), 'utf8');
+  artifacts.push(`${basePath}.console.log`);
+  return artifacts;
+}
+
+async function capture(page: Page, options: ScrapeOptions, outputDir = '.', retry: Partial<RetryOptions> = {}): Promise<string> {
+  /**
+   * Loads the Google Trends page for a single (geo, window, category) snapshot and saves it,
+   * with its parameters, as an HTML snapshot. Returns the path of the saved page.
+   * Navigation is retried with backoff on timeouts (`retry` overrides the schedule). When it still fails,
+   * or the page fails the health checks, a screenshot, the HTML and the console log are saved and the error says where.
+   */
+  const metadata: SnapshotMetadata = { ...options, scrapedAt: new Date().toISOString() };
+  const htmlPath = path.join(outputDir, `${snapshotBaseName(metadata)}.html`);
+  const url = buildTrendsUrl(options);
   
-  // Iterate over each row and extract relevant data
-  for (const element of rows) {
-    const rowData: string[] = [];
-    
-    // Extract text from td/div elements
-    const tdDivs = element.querySelectorAll('td div');
-    tdDivs.forEach(div => {
-      const text = div.text.trim();
-      if (text) {
-        rowData.push(text);
-      }
+  // Keep the page's console output in case the capture has to be debugged
+  const consoleLines: string[] = [];
+  const onConsole = (message: ConsoleMessage) => consoleLines.push(`[${message.type()}] ${message.text()}`);
+  const onPageError = (error: Error) => consoleLines.push(`[pageerror] ${error.message}`);
+  page.on('console', onConsole);
+  page.on('pageerror', onPageError);
+  
+  try {
+    // Navigate to the Google Trends page for the requested parameters
+    console.log(`Scraping: ${url}`);
+    await withRetry(async () => {
+      await page.goto(url, { timeout: NAVIGATION_TIMEOUT_MS });
+      await page.waitForLoadState('load', { timeout: NAVIGATION_TIMEOUT_MS });
+    }, {
+      ...NAVIGATION_RETRY,
+      ...retry,
+      onRetry: (_error, attempt, delayMs) => console.warn(`⏳ Navigation timed out (attempt ${attempt}), retrying in ${Math.round(delayMs / 1000)}s`)
     });
     
-    // Extract text from td/div/div elements
-    const tdDivDivs = element.querySelectorAll('td div div');
-    if (tdDivDivs.length > 0) {
-      const text = tdDivDivs[0].text.trim();
-      if (text) {
-        rowData.push(text);
-      }
-    }
+    // The table is rendered by script; when it never shows up the health check says so
+    await page.waitForSelector(TREND_ROW_SELECTOR, { timeout: NAVIGATION_TIMEOUT_MS }).catch(() => undefined);
     
-    if (rowData.length > 0) {
-      data.push(rowData);
+    // Get the page content as a string
+    const response: string = await page.content();
+    console.log(`Page loaded: ${response.length} characters`);
+    
+    // Check the page before saving it, so a changed layout never reaches the clean step
+    const root = parse(response);
+    assertScrapeHealth(url, root, extractTrends(root, metadata));
+    
+    // Keep the raw page so parsing failures can be reproduced offline
+    saveHtmlSnapshot(htmlPath, response, metadata);
+    console.log(`Page saved to: ${htmlPath}`);
+    return htmlPath;
+  } catch (error) {
+    // Named apart from snapshots so the clean step never picks up a failed page
+    const artifacts = await saveFailureArtifacts(page, path.join(outputDir, `${FAILURE_FILE_PREFIX}${snapshotBaseName(metadata)}`), consoleLines, metadata);
+    if (error instanceof ScrapeHealthError) {
+      throw new ScrapeHealthError(error.source, error.issues, artifacts);
     }
+    throw new Error(`Failed to load ${url}: ${(error as Error).message}\nSaved for inspection: ${artifacts.join(', ')}`);
+  } finally {
+    page.off('console', onConsole);
+    page.off('pageerror', onPageError);
   }
+}
+
+async function run(page: Page, options: ScrapeOptions, store?: TrendStore): Promise<string> {
+  /**
+   * Extracts trending topics from Google Trends for a single (geo, window, category) snapshot
+   * and returns the path of the CSV it wrote. The raw page is saved next to it for replays.
+   */
+  const htmlPath = await capture(page, options);
+  return replay(htmlPath, options, store);
+}
+
+async function withBrowserPage<T>(work: (page: Page) => Promise<T>, headless: boolean = resolveHeadless()): Promise<T> {
+  const browser: Browser = await chromium.launch({ headless });
   
-  // Clean the extracted data
-  const cleanedData: CleanedTrendData[] = cleanTrendsDataArray(data);
-  
-  // Create CSV content from cleaned data
-  const csvContent: string = convertCleanedDataToCSV(cleanedData);
-  
-  // Create timestamp for filename
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const hours = String(now.getHours()).padStart(2, '0');
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  const seconds = String(now.getSeconds()).padStart(2, '0');
+  // Create a new browser context
+  const context: BrowserContext = await browser.newContext();
   
-  const timestamp = `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
-  const filename = `trending_topics_${timestamp}.csv`;
+  // Open a new page in the browser context
+  const page: Page = await context.newPage();
   
-  // Write the extracted data to a CSV file with timestamp
-  fs.writeFileSync(filename, csvContent, 'utf8');
-  console.log(`Data saved to: ${filename}`);
+  try {
+    return await work(page);
+  } finally {
+    // Close the browser context and browser
+    await context.close();
+    await browser.close();
+  }
+}
+
+function replay(htmlPath: string, fallback: ScrapeOptions, store?: TrendStore, outputDir?: string): string {
+  /**
+   * Re-runs the pipeline against a saved page. Pages saved without a snapshot header
+   * (e.g. straight from the browser) use the command line parameters and file time instead.
+   * The CSV goes next to the page unless an output directory is given.
+   */
+  const snapshot = loadHtmlSnapshot(htmlPath);
+  const metadata: SnapshotMetadata = snapshot.metadata
+    ?? { ...fallback, scrapedAt: fs.statSync(htmlPath).mtime.toISOString() };
   
-  // Close the browser context and browser
-  await context.close();
-  await browser.close();
+  console.log(`Replaying: ${htmlPath}`);
+  const csvPath = path.join(outputDir ?? path.dirname(htmlPath), `${path.basename(htmlPath, path.extname(htmlPath))}.csv`);
+  return processSnapshot(snapshot.html, metadata, csvPath, store, htmlPath);
 }
 
-async function main(): Promise<void> {
+async function main(argv: string[] = process.argv.slice(2)): Promise<string[]> {
   /**
-   * Runs the Playwright script.
+   * Runs the Playwright script once per requested (geo, window, category) combination,
+   * or replays saved pages offline when `--replay` is given.
    */
-  await run();
+  const { snapshots, replayFiles, storePath, headless } = parseScrapeArgs(argv);
+  const store = await TrendStore.open(storePath);
+  
+  if (replayFiles.length > 0) {
+    try {
+      return replayFiles.map(file => replay(file, snapshots[0], store));
+    } finally {
+      store.close();
+    }
+  }
+  
+  try {
+    return await withBrowserPage(async page => {
+      const files: string[] = [];
+      for (const options of snapshots) {
+        files.push(await run(page, options, store));
+      }
+      return files;
+    }, headless);
+  } finally {
+    store.close();
+  }
 }
 
 // Execute the main function
-main().catch(console.error);
\ No newline at end of file
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
+}
+
+export { capture, run, replay, processSnapshot, withBrowserPage, main };
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import { CleanedTrendData, CleanedTrendRecord, TrendStatus, parseCleanedDataCSV } from './data-cleaner';
+import { trendKey } from './trend-store';
+
+// Why two trends were put in the same story
+type ClusterLinkReason = 'related-search' | 'shared-related' | 'token-overlap' | 'entity';
+
+interface ClusterLink {
+  from: string;
+  to: string;
+  reason: ClusterLinkReason;
+  detail: string;                  // the search, tokens or entity the trends have in common
+}
+
+interface ClusterOptions {
+  minSharedRelated: number;        // related searches two trends need in common; one trend named in the other's always counts
+  minTokenOverlap: number;         // Jaccard overlap (0-1) of the name tokens
+  matchEntities: boolean;          // link trends naming the same team, person, place...
+  maxClusterSize: number;          // a story stops taking members here, so links can't chain into one big cluster
+}
+
+const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  minSharedRelated: 2,
+  minTokenOverlap: 0.6,
+  matchEntities: true,
+  maxClusterSize: 5
+};
+
+// Stronger reasons are joined first, so a full cluster keeps its best-linked members
+const LINK_STRENGTH: ClusterLinkReason[] = ['related-search', 'shared-related', 'token-overlap', 'entity'];
+
+// One event, made of every trend of a snapshot that is about it
+interface StoryCluster {
+  id: string;                      // trend key of the canonical member
+  title: string;                   // the member most people searched for
+  members: CleanedTrendRecord[];   // canonical member first, then by volume
+  links: ClusterLink[];
+  trend: CleanedTrendData;         // the members merged into one trend, which is what gets evaluated
+  snapshot: CleanedTrendRecord['snapshot'];
+}
+
+// What a result keeps of the cluster it stands for
+interface ClusterSummary {
+  id: string;
+  members: { trend: string; searchVolume: string; timeAgo: string }[];
+  links: ClusterLink[];
+}
+
+// Words that say nothing about which story a trend belongs to
+const STOPWORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'at', 'for', 'to', 'vs', 'v', 'versus', 'de', 'la', 'el', 'le', 'x']);
+
+// Trailing words that turn an entity into a search about it: "rutgers football" is about "rutgers"
+const GENERIC_WORDS = new Set([
+  'football', 'basketball', 'baseball', 'soccer', 'hockey', 'game', 'games', 'match', 'score', 'scores', 'live',
+  'stream', 'today', 'tonight', 'news', 'highlights', 'schedule', 'tickets', 'results', 'result', 'update', 'updates',
+  'weather', 'stock', 'price', 'release', 'date', 'time', 'movie', 'trailer', 'documentary', 'death', 'age', 'net', 'worth'
+]);
+
+// Words of a name that can tell stories apart: "iowa football" and "iowa state football" only share "iowa"
+function tokens(text: string): string[] {
+  return trendKey(text).replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/)
+    .filter(token => token && !STOPWORDS.has(token) && !GENERIC_WORDS.has(token));
+}
+
+/**
+ * Entities a trend is about: "iowa vs rutgers" → iowa, rutgers; "cruz azul - juárez" → cruz azul,
+ * juárez; "rutgers football" → rutgers. Years and generic words around them are dropped.
+ */
+function entityPhrases(trendName: string): string[] {
+  return trendKey(trendName)
+    .split(/\s+(?:vs\.?|v\.?|versus|and|&|x)\s+|\s+[-–—|:]\s+|,/)
+    .map(part => {
+      const words = part.replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+      while (words.length > 0 && (GENERIC_WORDS.has(words[words.length - 1]) || /^\d+$/.test(words[words.length - 1]))) {
+        words.pop();
+      }
+      return words.join(' ');
+    })
+    .filter(phrase => phrase.length >= 3 && !STOPWORDS.has(phrase));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter(item => b.has(item)).length;
+  return a.size + b.size === shared ? 0 : shared / (a.size + b.size - shared);
+}
+
+// "250K+" style label for an aggregated lower bound
+function formatSearchVolume(volume: number | null): string {
+  if (volume === null) {
+    return '';
+  }
+  if (volume >= 1e6) {
+    return `${+(volume / 1e6).toFixed(1)}M+`;
+  }
+  return volume >= 1e3 ? `${+(volume / 1e3).toFixed(1)}K+` : `${volume}+`;
+}
+
+// The strongest reason to put two trends in one story, or null when they look unrelated
+function findLink(a: CleanedTrendData, b: CleanedTrendData, options: ClusterOptions): ClusterLink | null {
+  const keyA = trendKey(a.trendName);
+  const keyB = trendKey(b.trendName);
+  const relatedA = new Set(a.relatedSearches.map(trendKey));
+  const relatedB = new Set(b.relatedSearches.map(trendKey));
+
+  if (relatedA.has(keyB) || relatedB.has(keyA)) {
+    return { from: a.trendName, to: b.trendName, reason: 'related-search', detail: relatedA.has(keyB) ? keyB : keyA };
+  }
+  const sharedRelated = [...relatedA].filter(search => relatedB.has(search));
+  if (sharedRelated.length >= options.minSharedRelated) {
+    return { from: a.trendName, to: b.trendName, reason: 'shared-related', detail: sharedRelated.join(', ') };
+  }
+  const tokensA = new Set(tokens(a.trendName));
+  const tokensB = new Set(tokens(b.trendName));
+  if (jaccard(tokensA, tokensB) >= options.minTokenOverlap) {
+    return { from: a.trendName, to: b.trendName, reason: 'token-overlap', detail: [...tokensA].filter(token => tokensB.has(token)).join(' ') };
+  }
+  if (options.matchEntities) {
+    // An entity both names mention, or one name's entity in the other's related searches
+    // ("kanye west" and "kanye documentary", searched along with "kanye west documentary").
+    // One word is too common to go on alone: "india vs oman" and "india vs pakistan" also need a related search in common
+    const isSpecific = (entity: string) => entity.includes(' ') || sharedRelated.length > 0;
+    const namedA = new Set(entityPhrases(a.trendName));
+    const namedB = new Set(entityPhrases(b.trendName));
+    const relatedEntitiesA = new Set(a.relatedSearches.flatMap(entityPhrases));
+    const relatedEntitiesB = new Set(b.relatedSearches.flatMap(entityPhrases));
+    const shared = [...namedA].find(entity => (namedB.has(entity) || relatedEntitiesB.has(entity)) && isSpecific(entity))
+      ?? [...namedB].find(entity => relatedEntitiesA.has(entity) && isSpecific(entity));
+    if (shared) {
+      return { from: a.trendName, to: b.trendName, reason: 'entity', detail: shared };
+    }
+  }
+  return null;
+}
+
+// Members merged into the trend the model sees: the canonical name, with the others as context
+function mergeMembers(members: CleanedTrendData[]): CleanedTrendData {
+  const [canonical] = members;
+  if (members.length === 1) {
+    return canonical;
+  }
+  const volumes = members.map(member => member.normalized.searchVolumeMin).filter((volume): volume is number => volume !== null);
+  const growths = members.map(member => member.normalized.growthPercent).filter((growth): growth is number => growth !== null);
+  const starts = members.map(member => member.normalized.startedAt).filter((start): start is string => start !== null).sort();
+  const earliest = members.find(member => member.normalized.startedAt === starts[0]) ?? canonical;
+  const volume = volumes.length > 0 ? volumes.reduce((sum, value) => sum + value, 0) : null;
+  const growth = growths.length > 0 ? Math.max(...growths) : null;
+  const status: TrendStatus = members.some(member => member.status === 'active') ? 'active'
+    : members.every(member => member.status === 'ended') ? 'ended' : 'unknown';
+
+  const seen = new Set<string>([trendKey(canonical.trendName)]);
+  const relatedSearches = [...members.slice(1).map(member => member.trendName), ...members.flatMap(member => member.relatedSearches)]
+    .filter(search => !seen.has(trendKey(search)) && seen.add(trendKey(search)));
+
+  return {
+    ...canonical,
+    searchVolume: formatSearchVolume(volume),
+    timeAgo: earliest.timeAgo,
+    status,
+    growthPercentage: growth === null ? canonical.growthPercentage : `${growth.toLocaleString('en-US')}%`,
+    relatedSearches,
+    normalized: { searchVolumeMin: volume, startedAt: starts[0] ?? null, growthPercent: growth }
+  };
+}
+
+function clusterGroup(records: CleanedTrendRecord[], options: ClusterOptions): StoryCluster[] {
+  // Union-find over the trends, remembering the link that joined each pair
+  const parent = records.map((_, index) => index);
+  const size = records.map(() => 1);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+  const links: { index: number; link: ClusterLink }[] = [];
+  const degree = records.map(() => 0);
+
+  const candidates: { i: number; j: number; link: ClusterLink }[] = [];
+  for (let i = 0; i < records.length; i++) {
+    for (let j = i + 1; j < records.length; j++) {
+      const link = findLink(records[i].trend, records[j].trend, options);
+      if (link) {
+        candidates.push({ i, j, link });
+      }
+    }
+  }
+
+  candidates
+    .sort((a, b) => LINK_STRENGTH.indexOf(a.link.reason) - LINK_STRENGTH.indexOf(b.link.reason))
+    .forEach(({ i, j, link }) => {
+      const [rootI, rootJ] = [find(i), find(j)];
+      if (rootI !== rootJ) {
+        if (size[rootI] + size[rootJ] > options.maxClusterSize) {
+          return;
+        }
+        parent[rootJ] = rootI;
+        size[rootI] += size[rootJ];
+      }
+      links.push({ index: i, link });
+      degree[i]++;
+      degree[j]++;
+    });
+
+  const groups = new Map<number, number[]>();
+  records.forEach((_, index) => {
+    groups.set(find(index), [...(groups.get(find(index)) ?? []), index]);
+  });
+
+  return [...groups.values()].map(indexes => {
+    // Canonical: the largest volume, then the best connected (the match rather than one team), then the shortest name
+    const ordered = [...indexes].sort((a, b) =>
+      (records[b].trend.normalized.searchVolumeMin ?? -1) - (records[a].trend.normalized.searchVolumeMin ?? -1)
+      || degree[b] - degree[a]
+      || records[a].trend.trendName.length - records[b].trend.trendName.length);
+    const members = ordered.map(index => records[index]);
+    const canonical = members[0].trend;
+    return {
+      id: trendKey(canonical.trendName),
+      title: canonical.trendName,
+      members,
+      links: links.filter(({ index }) => find(index) === find(ordered[0])).map(({ link }) => link),
+      trend: mergeMembers(members.map(member => member.trend)),
+      snapshot: members[0].snapshot
+    };
+  });
+}
+
+/**
+ * Groups trends about the same event into story clusters. Trends are only compared within their
+ * own snapshot, so the same name in two geos stays two stories. Clusters keep the order of their
+ * first member in the input; unrelated trends become clusters of one, as does every trend when
+ * clustering is turned off with `false`.
+ */
+function clusterTrends(records: CleanedTrendRecord[], options: Partial<ClusterOptions> | false = {}): StoryCluster[] {
+  if (options === false) {
+    return records.map(record => ({
+      id: trendKey(record.trend.trendName),
+      title: record.trend.trendName,
+      members: [record],
+      links: [],
+      trend: record.trend,
+      snapshot: record.snapshot
+    }));
+  }
+  const settings = { ...DEFAULT_CLUSTER_OPTIONS, ...options };
+  const bySnapshot = new Map<string, CleanedTrendRecord[]>();
+  records.forEach(record => {
+    const key = JSON.stringify(record.snapshot);
+    bySnapshot.set(key, [...(bySnapshot.get(key) ?? []), record]);
+  });
+
+  const position = new Map(records.map((record, index) => [record, index]));
+  return [...bySnapshot.values()]
+    .flatMap(group => clusterGroup(group, settings))
+    .sort((a, b) => Math.min(...a.members.map(member => position.get(member) ?? 0)) - Math.min(...b.members.map(member => position.get(member) ?? 0)));
+}
+
+function summarizeCluster(cluster: StoryCluster): ClusterSummary {
+  return {
+    id: cluster.id,
+    members: cluster.members.map(({ trend }) => ({ trend: trend.trendName, searchVolume: trend.searchVolume, timeAgo: trend.timeAgo })),
+    links: cluster.links
+  };
+}
+
+// Usage: story-clusters <snapshot.csv>
+if (require.main === module) {
+  const [csvFile] = process.argv.slice(2);
+  if (!csvFile) {
+    console.error('❌ Usage: story-clusters <snapshot.csv>');
+    process.exit(1);
+  }
+  const records = parseCleanedDataCSV(fs.readFileSync(csvFile, 'utf8'));
+  const clusters = clusterTrends(records);
+  console.log(`🧩 ${records.length} trends in ${clusters.length} stories`);
+  clusters.filter(cluster => cluster.members.length > 1).forEach(cluster => {
+    console.log(`\n📰 ${cluster.title} (${cluster.trend.searchVolume || 'n/a'} searches, ${cluster.members.length} trends)`);
+    cluster.links.forEach(link => console.log(`   ${link.from} ↔ ${link.to}: ${link.reason} (${link.detail})`));
+  });
+}
+
+export {
+  ClusterLinkReason,
+  ClusterLink,
+  ClusterOptions,
+  DEFAULT_CLUSTER_OPTIONS,
+  StoryCluster,
+  ClusterSummary,
+  entityPhrases,
+  formatSearchVolume,
+  clusterTrends,
+  summarizeCluster
+};
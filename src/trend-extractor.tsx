@@ -0,0 +1,189 @@
+import { HTMLElement, Node, NodeType } from 'node-html-parser';
+import { CleanedTrendData, TrendStatus, normalizeTrendMetrics } from './data-cleaner';
+import { ScrapeOptions, SnapshotMetadata } from './trends-query';
+
+// Column order of the trending table (after the optional selection checkbox)
+enum TrendColumn {
+  Name = 0,
+  Volume = 1,
+  Started = 2,
+  Breakdown = 3,
+  Actions = 4
+}
+
+// Rows of the trending table, header included
+const TREND_ROW_SELECTOR = 'tr[role="row"]';
+
+// Header labels the columns above are expected under; the actions column has none
+const TREND_COLUMN_HEADERS: Partial<Record<TrendColumn, string>> = {
+  [TrendColumn.Name]: 'Trends',
+  [TrendColumn.Volume]: 'Search volume',
+  [TrendColumn.Started]: 'Started',
+  [TrendColumn.Breakdown]: 'Trend breakdown'
+};
+
+// Explore page `date` values matching each trending window. Explore has no "now 2-d" preset, so
+// 48h uses an hourly UTC range ending at the scrape (see exploreDateRange); 7 days only without one
+const EXPLORE_DATE_RANGES: Record<number, string> = {
+  4: 'now 4-H',
+  24: 'now 1-d',
+  48: 'now 7-d',
+  168: 'now 7-d'
+};
+
+// "2025-09-18T08 2025-09-20T08": the hourly range form Explore accepts for the past week
+function exploreDateRange(hours: number, scrapedAt?: string): string {
+  const end = scrapedAt ? new Date(scrapedAt) : null;
+  if (hours !== 48 || !end || isNaN(end.getTime())) {
+    return EXPLORE_DATE_RANGES[hours] ?? 'now 1-d';
+  }
+  const start = new Date(end.getTime() - hours * 3600 * 1000);
+  return `${start.toISOString().slice(0, 13)} ${end.toISOString().slice(0, 13)}`;
+}
+
+// Text of the element itself, ignoring nested elements such as material icons
+function ownText(element: HTMLElement): string {
+  return element.childNodes
+    .filter((child: Node) => child.nodeType === NodeType.TEXT_NODE)
+    .map(child => child.text)
+    .join('')
+    .trim();
+}
+
+// All non-empty text fragments inside a cell, in document order
+function textFragments(cell: HTMLElement): string[] {
+  return [cell, ...cell.querySelectorAll('*')]
+    .filter(element => element.tagName !== 'I')
+    .map(ownText)
+    .filter(Boolean);
+}
+
+function isSelectionCell(cell: HTMLElement): boolean {
+  return cell.querySelector('input[type="checkbox"], [role="checkbox"]') !== null
+    || textFragments(cell).every(text => /^(checklist|check_box|Select)/.test(text));
+}
+
+function extractVolume(cell: HTMLElement | undefined): { searchVolume: string; growthPercentage: string } {
+  const fragments = cell ? textFragments(cell) : [];
+  const volume = fragments.find(text => /^\d[\d.,]*\s*[KMB]?\+?$/i.test(text));
+  const growth = fragments.map(text => text.match(/(\d[\d,]*%)/)?.[1]).find(Boolean);
+  return {
+    searchVolume: volume ?? '',
+    growthPercentage: growth ?? ''
+  };
+}
+
+function extractStarted(cell: HTMLElement | undefined): { timeAgo: string; status: TrendStatus } {
+  const fragments = cell ? textFragments(cell) : [];
+  const timeAgo = fragments.find(text => /\bago$/i.test(text));
+  let status: TrendStatus = 'unknown';
+  if (fragments.some(text => /^Active$/i.test(text))) {
+    status = 'active';
+  } else if (fragments.some(text => /^(Lasted|Ended)\b/i.test(text))) {
+    status = 'ended';
+  }
+  return { timeAgo: timeAgo ?? '', status };
+}
+
+function extractRelatedSearches(cell: HTMLElement | undefined, trendName: string): string[] {
+  if (!cell) {
+    return [];
+  }
+
+  // Breakdown chips carry the query in `data-term`, including the ones hidden behind "+ N more"
+  let terms = cell.querySelectorAll('[data-term]').map(chip => chip.getAttribute('data-term')?.trim() ?? '');
+  if (terms.length === 0) {
+    terms = cell.querySelectorAll('button').map(chip => textFragments(chip).join(' '));
+  }
+
+  const related = terms.filter(term =>
+    term &&
+    term.toLowerCase() !== trendName.toLowerCase() &&
+    !/^\+\s*\d+\s*more$/i.test(term) &&
+    term !== 'Search term'
+  );
+  return Array.from(new Set(related));
+}
+
+function buildExploreLink(trendName: string, options: ScrapeOptions & { scrapedAt?: string }): string {
+  const params = new URLSearchParams({
+    q: trendName,
+    date: exploreDateRange(options.hours, options.scrapedAt),
+    geo: options.geo
+  });
+  // No `cat`: Explore numbers its categories differently (its 18 is Shopping, the trending page's is Technology)
+  return `https://trends.google.com/trends/explore?${params.toString()}`;
+}
+
+function extractExploreLink(row: HTMLElement, trendName: string, options: SnapshotMetadata): string {
+  const anchor = row.querySelector('a[href*="/explore"]');
+  const href = anchor?.getAttribute('href');
+  if (href) {
+    return new URL(href, 'https://trends.google.com').toString();
+  }
+  return buildExploreLink(trendName, options);
+}
+
+/**
+ * Reads one trending table row column by column into a CleanedTrendData.
+ * Returns null for rows without data cells (header rows, spacers).
+ */
+function extractTrendRow(row: HTMLElement, metadata: SnapshotMetadata): CleanedTrendData | null {
+  let cells = row.querySelectorAll('td');
+  if (cells.length > 0 && isSelectionCell(cells[0])) {
+    cells = cells.slice(1);
+  }
+
+  const nameCell = cells[TrendColumn.Name];
+  const trendName = nameCell ? textFragments(nameCell)[0] ?? '' : '';
+  if (!trendName) {
+    return null;
+  }
+
+  const { searchVolume, growthPercentage } = extractVolume(cells[TrendColumn.Volume]);
+  const { timeAgo, status } = extractStarted(cells[TrendColumn.Started]);
+
+  return {
+    trendName,
+    searchVolume,
+    timeAgo,
+    status,
+    growthPercentage,
+    relatedSearches: extractRelatedSearches(cells[TrendColumn.Breakdown], trendName),
+    exploreLink: extractExploreLink(row, trendName, metadata),
+    normalized: normalizeTrendMetrics({ searchVolume, timeAgo, growthPercentage }, new Date(metadata.scrapedAt))
+  };
+}
+
+// Extracts every trend row of a parsed trending page
+function extractTrends(root: HTMLElement, metadata: SnapshotMetadata): CleanedTrendData[] {
+  return root.querySelectorAll(TREND_ROW_SELECTOR)
+    .map(row => extractTrendRow(row, metadata))
+    .filter((trend): trend is CleanedTrendData => trend !== null);
+}
+
+/**
+ * Labels of the trending table's header cells, in column order and without the selection column
+ * or sort icons. Empty when the page has no header row.
+ */
+function extractHeaders(root: HTMLElement): string[] {
+  const header = root.querySelectorAll('tr').find(row => row.querySelector('th') !== null);
+  if (!header) {
+    return [];
+  }
+  let cells = header.querySelectorAll('th');
+  if (cells.length > 0 && isSelectionCell(cells[0])) {
+    cells = cells.slice(1);
+  }
+  return cells.map(cell => textFragments(cell).join(' '));
+}
+
+export {
+  TrendColumn,
+  TREND_ROW_SELECTOR,
+  TREND_COLUMN_HEADERS,
+  extractTrendRow,
+  extractTrends,
+  extractHeaders,
+  buildExploreLink
+};
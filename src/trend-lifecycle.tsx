@@ -0,0 +1,103 @@
+import { CleanedTrendData } from './data-cleaner';
+import { SnapshotMetadata } from './trends-query';
+import { TrendObservation, TrendStore, trendKey } from './trend-store';
+
+type LifecycleStage = 'new' | 'rising' | 'peaking' | 'fading' | 'gone';
+
+interface TrendLifecycle {
+  stage: LifecycleStage;
+  velocity: number | null;          // change in search volume lower bound per hour
+  previousScrapedAt: string | null; // snapshot the comparison was made against
+}
+
+type LifecycleObservation = Pick<TrendObservation, 'scrapedAt' | 'searchVolumeMin' | 'growthPercent' | 'status' | 'startedAt'>;
+
+interface SnapshotLifecycles {
+  lifecycles: Map<string, TrendLifecycle>; // keyed by trendKey
+  gone: string[];                          // names of previous-snapshot trends missing from this one
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursBetween(from: string | null, to: string): number | null {
+  if (!from) {
+    return null;
+  }
+  const hours = (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+  return isNaN(hours) || hours <= 0 ? null : hours;
+}
+
+/**
+ * Labels a trend by comparing its observation in two consecutive snapshots of the same
+ * (geo, window, category). Volume buckets decide first; within the same bucket, growth and
+ * active status tell rising from peaking and fading.
+ */
+function classifyLifecycle(previous: LifecycleObservation | null, current: LifecycleObservation | null): TrendLifecycle {
+  if (!current) {
+    return { stage: 'gone', velocity: null, previousScrapedAt: previous?.scrapedAt ?? null };
+  }
+
+  if (!previous) {
+    // Without an earlier snapshot, velocity is the volume gained since the trend started
+    const hours = hoursBetween(current.startedAt, current.scrapedAt);
+    const velocity = hours !== null && current.searchVolumeMin !== null ? current.searchVolumeMin / hours : null;
+    return { stage: 'new', velocity, previousScrapedAt: null };
+  }
+
+  const hours = hoursBetween(previous.scrapedAt, current.scrapedAt);
+  const volumeChange = current.searchVolumeMin !== null && previous.searchVolumeMin !== null
+    ? current.searchVolumeMin - previous.searchVolumeMin
+    : null;
+  const velocity = volumeChange !== null && hours !== null ? volumeChange / hours : null;
+  const growthChange = current.growthPercent !== null && previous.growthPercent !== null
+    ? current.growthPercent - previous.growthPercent
+    : 0;
+
+  let stage: LifecycleStage;
+  if (volumeChange !== null && volumeChange < 0) {
+    stage = 'fading';
+  } else if (current.status === 'ended') {
+    stage = volumeChange !== null && volumeChange > 0 ? 'peaking' : 'fading';
+  } else if ((volumeChange !== null && volumeChange > 0) || growthChange > 0) {
+    stage = 'rising';
+  } else {
+    stage = 'peaking';
+  }
+
+  return { stage, velocity, previousScrapedAt: previous.scrapedAt };
+}
+
+/**
+ * Lifecycle of every trend in a snapshot, compared with the previous stored snapshot taken
+ * with the same parameters.
+ */
+function computeSnapshotLifecycles(store: TrendStore, metadata: SnapshotMetadata, trends: CleanedTrendData[]): SnapshotLifecycles {
+  const previousSnapshot = store.getPreviousSnapshot(metadata);
+  const previous = previousSnapshot ? store.getSnapshotObservations(previousSnapshot.id) : new Map<string, TrendObservation>();
+
+  const lifecycles = new Map<string, TrendLifecycle>();
+  for (const trend of trends) {
+    const key = trendKey(trend.trendName);
+    lifecycles.set(key, classifyLifecycle(previous.get(key) ?? null, {
+      scrapedAt: metadata.scrapedAt,
+      searchVolumeMin: trend.normalized.searchVolumeMin,
+      growthPercent: trend.normalized.growthPercent,
+      status: trend.status,
+      startedAt: trend.normalized.startedAt
+    }));
+  }
+
+  const gone = Array.from(previous.entries())
+    .filter(([key]) => !lifecycles.has(key))
+    .map(([, observation]) => observation.trendName);
+  return { lifecycles, gone };
+}
+
+export {
+  LifecycleStage,
+  TrendLifecycle,
+  LifecycleObservation,
+  SnapshotLifecycles,
+  classifyLifecycle,
+  computeSnapshotLifecycles
+};
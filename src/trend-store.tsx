@@ -0,0 +1,621 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import * as fs from 'fs';
+import { CleanedTrendData } from './data-cleaner';
+import { SnapshotMetadata } from './trends-query';
+
+// Local SQLite file linking every scrape snapshot and evaluation across runs
+const DEFAULT_STORE_PATH = 'trends.db';
+
+// Taken only while a store writes its file; no save holds it longer than this, so an older lock was left behind
+const SAVE_LOCK_TIMEOUT_MS = 10 * 1000;
+const SAVE_LOCK_POLL_MS = 50;
+
+// SQLite treats NULLs as distinct in UNIQUE constraints, so "all categories" is stored as 0
+const ALL_CATEGORIES = 0;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  geo TEXT NOT NULL,
+  hours INTEGER NOT NULL,
+  category INTEGER NOT NULL,
+  active_only INTEGER NOT NULL,
+  scraped_at TEXT NOT NULL,
+  source TEXT,
+  UNIQUE (geo, hours, category, active_only, scraped_at)
+);
+CREATE TABLE IF NOT EXISTS trends (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trend_key TEXT NOT NULL,
+  geo TEXT NOT NULL,
+  name TEXT NOT NULL,
+  UNIQUE (trend_key, geo)
+);
+CREATE TABLE IF NOT EXISTS observations (
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots(id),
+  trend_id INTEGER NOT NULL REFERENCES trends(id),
+  search_volume TEXT,
+  search_volume_min INTEGER,
+  time_ago TEXT,
+  started_at TEXT,
+  growth_percentage TEXT,
+  growth_percent REAL,
+  status TEXT,
+  related_searches TEXT,
+  explore_link TEXT,
+  PRIMARY KEY (snapshot_id, trend_id)
+);
+CREATE TABLE IF NOT EXISTS evaluations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trend_id INTEGER NOT NULL REFERENCES trends(id),
+  snapshot_id INTEGER REFERENCES snapshots(id),
+  evaluated_at TEXT NOT NULL,
+  classification TEXT NOT NULL,
+  confidence REAL NOT NULL,
+  reasoning TEXT,
+  domain_evaluations TEXT
+);
+CREATE TABLE IF NOT EXISTS scheduled_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job TEXT NOT NULL,
+  scheduled_for TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  finished_at TEXT,
+  status TEXT NOT NULL,
+  error TEXT,
+  thread_id TEXT,
+  catch_up INTEGER NOT NULL DEFAULT 0
+);
+CREATE TABLE IF NOT EXISTS feedback (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trend_key TEXT NOT NULL,
+  trend_name TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  verdict TEXT NOT NULL,
+  relevance INTEGER,
+  note TEXT,
+  source TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_observations_trend ON observations (trend_id);
+CREATE INDEX IF NOT EXISTS idx_evaluations_trend ON evaluations (trend_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_runs_job ON scheduled_runs (job, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_feedback_domain ON feedback (domain, created_at);
+`;
+
+interface TrendObservation {
+  trendName: string;
+  snapshotId: number;
+  scrapedAt: string;
+  hours: number;
+  category: number | null;
+  searchVolume: string;
+  searchVolumeMin: number | null;
+  growthPercent: number | null;
+  startedAt: string | null;
+  status: string;
+}
+
+interface TrendClassification {
+  evaluatedAt: string;
+  snapshotId: number | null;
+  classification: string;
+  confidence: number;
+  reasoning: string;
+}
+
+interface TrendHistory {
+  trendKey: string;
+  trendName: string;
+  geo: string;
+  firstSeen: string;
+  lastSeen: string;
+  peakVolumeMin: number | null;
+  peakSearchVolume: string;
+  observations: TrendObservation[];
+  classifications: TrendClassification[];
+}
+
+// The parts of an EvaluationResult the store keeps
+interface StoredEvaluation {
+  trend: string;
+  classification: string;
+  confidence: number;
+  reasoning: string;
+  domainEvaluations: unknown[];
+}
+
+// The latest classification of a trend in any geo, with its score for every domain
+interface LatestEvaluation {
+  evaluatedAt: string;
+  classification: string;
+  domainEvaluations: { domain: string; relevance: number }[];
+}
+
+type FeedbackVerdict = 'relevant' | 'irrelevant';
+
+// A reader's judgement of whether a trend belongs in a domain
+interface TrendFeedback {
+  id: number;
+  trend: string;
+  domain: string;
+  verdict: FeedbackVerdict;
+  relevance: number | null;      // the model's 0-10 score for the domain when the trend was judged, when known
+  note: string | null;
+  source: string | null;         // "the command line" or the feedback file it was imported from
+  createdAt: string;
+}
+
+type ScheduledRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped' | 'interrupted';
+
+// One run of a scheduled job, as recorded by the scheduler
+interface ScheduledRun {
+  id: number;
+  job: string;
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt: string | null;
+  status: ScheduledRunStatus;
+  error: string | null;
+  threadId: string | null;       // pipeline run id, for `--resume`
+  catchUp: boolean;              // run late to make up for downtime
+}
+
+const OBSERVATION_QUERY = `
+  SELECT t.trend_key, t.name, o.snapshot_id, s.scraped_at, s.hours, s.category, o.search_volume,
+         o.search_volume_min, o.growth_percent, o.started_at, o.status
+  FROM observations o
+  JOIN snapshots s ON s.id = o.snapshot_id
+  JOIN trends t ON t.id = o.trend_id`;
+
+function toObservation(row: Record<string, SqlValue>): TrendObservation {
+  return {
+    trendName: row.name as string,
+    snapshotId: row.snapshot_id as number,
+    scrapedAt: row.scraped_at as string,
+    hours: row.hours as number,
+    category: row.category === ALL_CATEGORIES ? null : row.category as number,
+    searchVolume: (row.search_volume as string) ?? '',
+    searchVolumeMin: row.search_volume_min as number | null,
+    growthPercent: row.growth_percent as number | null,
+    startedAt: row.started_at as string | null,
+    status: (row.status as string) ?? 'unknown'
+  };
+}
+
+function toFeedback(row: Record<string, SqlValue>): TrendFeedback {
+  return {
+    id: row.id as number,
+    trend: row.trend_name as string,
+    domain: row.domain as string,
+    verdict: row.verdict as FeedbackVerdict,
+    relevance: row.relevance as number | null,
+    note: row.note as string | null,
+    source: row.source as string | null,
+    createdAt: row.created_at as string
+  };
+}
+
+function toScheduledRun(row: Record<string, SqlValue>): ScheduledRun {
+  return {
+    id: row.id as number,
+    job: row.job as string,
+    scheduledFor: row.scheduled_for as string,
+    startedAt: row.started_at as string,
+    finishedAt: row.finished_at as string | null,
+    status: row.status as ScheduledRunStatus,
+    error: row.error as string | null,
+    threadId: row.thread_id as string | null,
+    catchUp: row.catch_up === 1
+  };
+}
+
+// Identifies the file as it was last read or written, to notice another process saving in between
+function fileVersion(filePath: string): string | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  const stat = fs.statSync(filePath);
+  return `${stat.mtimeMs}:${stat.size}`;
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Takes <file>.lock for the duration of a save, waiting for another process's save to finish.
+ * Returns the function that releases it.
+ */
+function acquireSaveLock(filePath: string): () => void {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + SAVE_LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+      return () => fs.rmSync(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      if (Date.now() >= deadline) {
+        console.warn(`⚠️ Removing stale lock ${lockPath}`);
+        fs.rmSync(lockPath, { force: true });
+      } else {
+        sleepSync(SAVE_LOCK_POLL_MS);
+      }
+    }
+  }
+}
+
+// Identical trends share one row: case and whitespace differences don't make a new trend
+function trendKey(trendName: string): string {
+  return trendName.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * The history database. sql.js keeps it in memory and writes the whole file on save, and the
+ * scheduler, the pipeline and the CLI commands each open their own copy of the same file. So
+ * every write is also kept in a journal: when the file was saved by someone else since this
+ * store read it, save re-reads it and replays the journal on top instead of overwriting it.
+ */
+class TrendStore {
+  private journal: (() => void)[] = [];
+
+  private constructor(private SQL: SqlJsStatic, private db: Database, private filePath: string | null, private version: string | null) {}
+
+  /**
+   * Opens (or creates) the store at filePath. Pass null for a throwaway in-memory store.
+   */
+  static async open(filePath: string | null = DEFAULT_STORE_PATH): Promise<TrendStore> {
+    const SQL = await initSqlJs();
+    const version = filePath ? fileVersion(filePath) : null;
+    const db = filePath && version
+      ? new SQL.Database(fs.readFileSync(filePath))
+      : new SQL.Database();
+    db.exec(SCHEMA);
+    return new TrendStore(SQL, db, filePath, version);
+  }
+
+  // Applies a write now and keeps it to be replayed if the file changes underneath
+  private write<T>(apply: () => T, replay: () => void = apply): T {
+    const value = apply();
+    this.journal.push(replay);
+    return value;
+  }
+
+  private rows(sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private scalar(sql: string, params: SqlValue[] = []): SqlValue | undefined {
+    const [row] = this.rows(sql, params);
+    return row ? Object.values(row)[0] : undefined;
+  }
+
+  findSnapshotId(metadata: SnapshotMetadata): number | null {
+    const id = this.scalar(
+      `SELECT id FROM snapshots WHERE geo = ? AND hours = ? AND category = ? AND active_only = ? AND scraped_at = ?`,
+      [metadata.geo, metadata.hours, metadata.category ?? ALL_CATEGORIES, metadata.activeOnly ? 1 : 0, metadata.scrapedAt]
+    );
+    return typeof id === 'number' ? id : null;
+  }
+
+  private upsertTrend(trendName: string, geo: string): number {
+    const key = trendKey(trendName);
+    this.db.run(`INSERT OR IGNORE INTO trends (trend_key, geo, name) VALUES (?, ?, ?)`, [key, geo, trendName]);
+    return this.scalar(`SELECT id FROM trends WHERE trend_key = ? AND geo = ?`, [key, geo]) as number;
+  }
+
+  /**
+   * Records a snapshot and its trends. Recording the same snapshot twice (e.g. a replay of a
+   * saved page) updates its observations instead of duplicating them. Returns the snapshot id.
+   */
+  recordSnapshot(metadata: SnapshotMetadata, trends: CleanedTrendData[], source = ''): number {
+    return this.write(() => this.insertSnapshot(metadata, trends, source));
+  }
+
+  private insertSnapshot(metadata: SnapshotMetadata, trends: CleanedTrendData[], source: string): number {
+    this.db.run(
+      `INSERT OR IGNORE INTO snapshots (geo, hours, category, active_only, scraped_at, source) VALUES (?, ?, ?, ?, ?, ?)`,
+      [metadata.geo, metadata.hours, metadata.category ?? ALL_CATEGORIES, metadata.activeOnly ? 1 : 0, metadata.scrapedAt, source]
+    );
+    const snapshotId = this.findSnapshotId(metadata) as number;
+
+    for (const trend of trends) {
+      const trendId = this.upsertTrend(trend.trendName, metadata.geo);
+      this.db.run(
+        `INSERT OR REPLACE INTO observations
+          (snapshot_id, trend_id, search_volume, search_volume_min, time_ago, started_at,
+           growth_percentage, growth_percent, status, related_searches, explore_link)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          snapshotId, trendId, trend.searchVolume, trend.normalized.searchVolumeMin, trend.timeAgo,
+          trend.normalized.startedAt, trend.growthPercentage, trend.normalized.growthPercent,
+          trend.status, JSON.stringify(trend.relatedSearches), trend.exploreLink
+        ]
+      );
+    }
+
+    return snapshotId;
+  }
+
+  recordEvaluation(evaluation: StoredEvaluation, geo: string, snapshotId: number | null, evaluatedAt = new Date().toISOString()): void {
+    // Snapshot ids differ between copies of the file, its parameters don't
+    const snapshot = snapshotId === null ? null : this.snapshotMetadata(snapshotId);
+    this.write(
+      () => this.insertEvaluation(evaluation, geo, snapshotId, evaluatedAt),
+      () => this.insertEvaluation(evaluation, geo, snapshot && this.findSnapshotId(snapshot), evaluatedAt)
+    );
+  }
+
+  private snapshotMetadata(snapshotId: number): SnapshotMetadata | null {
+    const [row] = this.rows(`SELECT geo, hours, category, active_only, scraped_at FROM snapshots WHERE id = ?`, [snapshotId]);
+    return row ? {
+      geo: row.geo as string,
+      hours: row.hours as SnapshotMetadata['hours'],
+      category: row.category as number,
+      activeOnly: row.active_only === 1,
+      scrapedAt: row.scraped_at as string
+    } : null;
+  }
+
+  private insertEvaluation(evaluation: StoredEvaluation, geo: string, snapshotId: number | null, evaluatedAt: string): void {
+    const trendId = this.upsertTrend(evaluation.trend, geo);
+    this.db.run(
+      `INSERT INTO evaluations (trend_id, snapshot_id, evaluated_at, classification, confidence, reasoning, domain_evaluations)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        trendId, snapshotId, evaluatedAt, evaluation.classification, evaluation.confidence,
+        evaluation.reasoning, JSON.stringify(evaluation.domainEvaluations)
+      ]
+    );
+  }
+
+  // Latest earlier snapshot taken with the same (geo, window, category, active-only) parameters
+  getPreviousSnapshot(metadata: SnapshotMetadata): { id: number; scrapedAt: string } | null {
+    const [row] = this.rows(
+      `SELECT id, scraped_at FROM snapshots
+       WHERE geo = ? AND hours = ? AND category = ? AND active_only = ? AND scraped_at < ?
+       ORDER BY scraped_at DESC LIMIT 1`,
+      [metadata.geo, metadata.hours, metadata.category ?? ALL_CATEGORIES, metadata.activeOnly ? 1 : 0, metadata.scrapedAt]
+    );
+    return row ? { id: row.id as number, scrapedAt: row.scraped_at as string } : null;
+  }
+
+  // Observations of one snapshot, keyed by trendKey
+  getSnapshotObservations(snapshotId: number): Map<string, TrendObservation> {
+    const rows = this.rows(`${OBSERVATION_QUERY} WHERE o.snapshot_id = ?`, [snapshotId]);
+    return new Map(rows.map(row => [row.trend_key as string, toObservation(row)]));
+  }
+
+  /**
+   * History of a trend across every stored snapshot: first/last seen, peak volume and
+   * every classification it received. One entry per geo unless geo is given.
+   */
+  getTrendHistory(trendName: string, geo?: string): TrendHistory[] {
+    const trends = this.rows(
+      `SELECT id, trend_key, geo, name FROM trends WHERE trend_key = ?${geo ? ' AND geo = ?' : ''} ORDER BY geo`,
+      geo ? [trendKey(trendName), geo] : [trendKey(trendName)]
+    );
+
+    return trends.map(trend => {
+      const observations: TrendObservation[] = this.rows(
+        `${OBSERVATION_QUERY} WHERE o.trend_id = ? ORDER BY s.scraped_at`,
+        [trend.id]
+      ).map(toObservation);
+
+      const classifications: TrendClassification[] = this.rows(
+        `SELECT evaluated_at, snapshot_id, classification, confidence, reasoning
+         FROM evaluations WHERE trend_id = ? ORDER BY evaluated_at`,
+        [trend.id]
+      ).map(row => ({
+        evaluatedAt: row.evaluated_at as string,
+        snapshotId: row.snapshot_id as number | null,
+        classification: row.classification as string,
+        confidence: row.confidence as number,
+        reasoning: (row.reasoning as string) ?? ''
+      }));
+
+      const peak = observations.reduce<TrendObservation | null>((best, current) =>
+        best === null || (current.searchVolumeMin ?? -1) > (best.searchVolumeMin ?? -1) ? current : best, null);
+
+      return {
+        trendKey: trend.trend_key as string,
+        trendName: trend.name as string,
+        geo: trend.geo as string,
+        firstSeen: observations[0]?.scrapedAt ?? '',
+        lastSeen: observations[observations.length - 1]?.scrapedAt ?? '',
+        peakVolumeMin: peak?.searchVolumeMin ?? null,
+        peakSearchVolume: peak?.searchVolume ?? '',
+        observations,
+        classifications
+      };
+    });
+  }
+
+  getLatestEvaluation(trendName: string): LatestEvaluation | null {
+    const [row] = this.rows(
+      `SELECT e.evaluated_at, e.classification, e.domain_evaluations FROM evaluations e
+       JOIN trends t ON t.id = e.trend_id WHERE t.trend_key = ? ORDER BY e.evaluated_at DESC, e.id DESC LIMIT 1`,
+      [trendKey(trendName)]
+    );
+    return row ? {
+      evaluatedAt: row.evaluated_at as string,
+      classification: row.classification as string,
+      domainEvaluations: JSON.parse((row.domain_evaluations as string) || '[]')
+    } : null;
+  }
+
+  recordFeedback(feedback: Omit<TrendFeedback, 'id' | 'createdAt'>, createdAt = new Date().toISOString()): number {
+    return this.write(() => this.insertFeedback(feedback, createdAt));
+  }
+
+  private insertFeedback(feedback: Omit<TrendFeedback, 'id' | 'createdAt'>, createdAt: string): number {
+    this.db.run(
+      `INSERT INTO feedback (trend_key, trend_name, domain, verdict, relevance, note, source, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        trendKey(feedback.trend), feedback.trend, feedback.domain, feedback.verdict, feedback.relevance,
+        feedback.note, feedback.source, createdAt
+      ]
+    );
+    return this.scalar(`SELECT last_insert_rowid()`) as number;
+  }
+
+  // Newest first, optionally for one domain; a trend judged again keeps every judgement
+  getFeedback(domain?: string, limit = 1000): TrendFeedback[] {
+    return this.rows(
+      `SELECT * FROM feedback${domain ? ' WHERE domain = ?' : ''} ORDER BY created_at DESC, id DESC LIMIT ?`,
+      domain ? [domain, limit] : [limit]
+    ).map(toFeedback);
+  }
+
+  // Records a scheduled run as started (or as skipped, with the reason) and returns its id
+  recordScheduledRun(
+    run: Pick<ScheduledRun, 'job' | 'scheduledFor' | 'threadId' | 'catchUp'> & { status?: ScheduledRunStatus; error?: string | null },
+    startedAt = new Date().toISOString()
+  ): number {
+    const id = this.insertScheduledRun(run, startedAt, null);
+    // The scheduler finishes the run by this id later, so a replay keeps it unless it was taken meanwhile
+    this.journal.push(() => {
+      const taken = this.scalar(`SELECT id FROM scheduled_runs WHERE id = ?`, [id]) !== undefined;
+      this.insertScheduledRun(run, startedAt, taken ? null : id);
+    });
+    return id;
+  }
+
+  private insertScheduledRun(
+    run: Pick<ScheduledRun, 'job' | 'scheduledFor' | 'threadId' | 'catchUp'> & { status?: ScheduledRunStatus; error?: string | null },
+    startedAt: string,
+    id: number | null
+  ): number {
+    const status = run.status ?? 'running';
+    this.db.run(
+      `INSERT INTO scheduled_runs (id, job, scheduled_for, started_at, finished_at, status, error, thread_id, catch_up)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, run.job, run.scheduledFor, startedAt, status === 'running' ? null : startedAt, status,
+        run.error ?? null, run.threadId, run.catchUp ? 1 : 0
+      ]
+    );
+    return this.scalar(`SELECT last_insert_rowid()`) as number;
+  }
+
+  finishScheduledRun(id: number, status: Exclude<ScheduledRunStatus, 'running'>, error: string | null = null, finishedAt = new Date().toISOString()): void {
+    const [run] = this.rows(`SELECT job, scheduled_for, started_at FROM scheduled_runs WHERE id = ?`, [id]);
+    const update = `UPDATE scheduled_runs SET status = ?, error = ?, finished_at = ?`;
+    this.write(
+      () => this.db.run(`${update} WHERE id = ?`, [status, error, finishedAt, id]),
+      // Found again by job and times, in case the replayed row got another id
+      () => run
+        ? this.db.run(`${update} WHERE job = ? AND scheduled_for = ? AND started_at = ?`, [status, error, finishedAt, run.job, run.scheduled_for, run.started_at])
+        : this.db.run(`${update} WHERE id = ?`, [status, error, finishedAt, id])
+    );
+  }
+
+  /**
+   * Marks runs still recorded as running as interrupted, e.g. after the scheduler was killed.
+   * Returns how many there were.
+   */
+  interruptRunningRuns(reason: string, finishedAt = new Date().toISOString()): number {
+    const count = this.scalar(`SELECT COUNT(*) FROM scheduled_runs WHERE status = 'running'`) as number;
+    this.write(() => this.db.run(`UPDATE scheduled_runs SET status = 'interrupted', error = ?, finished_at = ? WHERE status = 'running'`, [reason, finishedAt]));
+    return count;
+  }
+
+  // Most recent occurrence of a job that was recorded, whatever its outcome
+  getLastScheduledRun(job: string): ScheduledRun | null {
+    const [row] = this.rows(`SELECT * FROM scheduled_runs WHERE job = ? ORDER BY scheduled_for DESC, id DESC LIMIT 1`, [job]);
+    return row ? toScheduledRun(row) : null;
+  }
+
+  // Newest first, optionally for one job
+  getScheduledRuns(job?: string, limit = 20): ScheduledRun[] {
+    return this.rows(
+      `SELECT * FROM scheduled_runs${job ? ' WHERE job = ?' : ''} ORDER BY started_at DESC, id DESC LIMIT ?`,
+      job ? [job, limit] : [limit]
+    ).map(toScheduledRun);
+  }
+
+  /**
+   * Writes the database to its file; a no-op for in-memory stores. When another process saved the
+   * file since it was read, the file is read again and this store's writes are replayed on it first.
+   */
+  save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    const release = acquireSaveLock(this.filePath);
+    try {
+      const version = fileVersion(this.filePath);
+      if (version && version !== this.version) {
+        const db = new this.SQL.Database(fs.readFileSync(this.filePath));
+        db.exec(SCHEMA);
+        this.db.close();
+        this.db = db;
+        this.journal.forEach(replay => replay());
+      }
+      fs.writeFileSync(this.filePath, Buffer.from(this.db.export()));
+      this.version = fileVersion(this.filePath);
+      this.journal = [];
+    } finally {
+      release();
+    }
+  }
+
+  close(): void {
+    this.save();
+    this.db.close();
+  }
+}
+
+// Usage: print the stored history of a trend
+if (require.main === module) {
+  const [trendName, geo] = process.argv.slice(2);
+  if (!trendName) {
+    console.error('❌ Usage: trend-store <trend name> [geo]');
+    process.exit(1);
+  }
+
+  TrendStore.open(process.env.TRENDS_DB || DEFAULT_STORE_PATH).then(store => {
+    const history = store.getTrendHistory(trendName, geo);
+    if (history.length === 0) {
+      console.log(`No history for "${trendName}"`);
+    }
+    history.forEach(entry => {
+      console.log(`\n📈 ${entry.trendName} (${entry.geo})`);
+      console.log(`   First seen: ${entry.firstSeen}`);
+      console.log(`   Last seen:  ${entry.lastSeen}`);
+      console.log(`   Peak volume: ${entry.peakSearchVolume || 'n/a'} in ${entry.observations.length} snapshots`);
+      entry.classifications.forEach(c => {
+        console.log(`   ${c.evaluatedAt}: ${c.classification} (${(c.confidence * 100).toFixed(1)}%)`);
+      });
+    });
+  }).catch(console.error);
+}
+
+export {
+  DEFAULT_STORE_PATH,
+  TrendStore,
+  TrendHistory,
+  TrendObservation,
+  TrendClassification,
+  StoredEvaluation,
+  LatestEvaluation,
+  FeedbackVerdict,
+  TrendFeedback,
+  ScheduledRun,
+  ScheduledRunStatus,
+  trendKey
+};
@@ -0,0 +1,196 @@
+import { parseArgs } from 'util';
+
+// Trending windows supported by https://trends.google.com/trending (in hours)
+const TREND_WINDOWS = [4, 24, 48, 168] as const;
+type TrendWindowHours = typeof TREND_WINDOWS[number];
+
+// Category ids used by the `category` query parameter on the trending page
+const TREND_CATEGORIES: Record<string, number> = {
+  'autos-and-vehicles': 1,
+  'beauty-and-fashion': 2,
+  'business-and-finance': 3,
+  'entertainment': 4,
+  'food-and-drink': 5,
+  'games': 6,
+  'health': 7,
+  'hobbies-and-leisure': 8,
+  'jobs-and-education': 9,
+  'law-and-government': 10,
+  'other': 11,
+  'pets-and-animals': 13,
+  'politics': 14,
+  'science': 15,
+  'shopping': 16,
+  'sports': 17,
+  'technology': 18,
+  'travel-and-transportation': 19,
+  'climate': 20
+};
+
+interface ScrapeOptions {
+  geo: string;
+  hours: TrendWindowHours;
+  category: number | null; // null means all categories
+  activeOnly: boolean;
+}
+
+// Parameters a snapshot was captured with, recorded next to every row in the output
+interface SnapshotMetadata extends ScrapeOptions {
+  scrapedAt: string;
+}
+
+const DEFAULT_SCRAPE_OPTIONS: ScrapeOptions = {
+  geo: 'US',
+  hours: 24,
+  category: null,
+  activeOnly: false
+};
+
+function buildTrendsUrl(options: ScrapeOptions): string {
+  const params = new URLSearchParams({ geo: options.geo, hours: String(options.hours) });
+  if (options.category !== null) {
+    params.set('category', String(options.category));
+  }
+  if (options.activeOnly) {
+    params.set('status', 'active');
+  }
+  return `https://trends.google.com/trending?${params.toString()}`;
+}
+
+function parseTrendWindow(value: string): TrendWindowHours {
+  // Accept "4", "4h", "7d" style values
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([hd]?)$/);
+  const hours = match ? Number(match[1]) * (match[2] === 'd' ? 24 : 1) : NaN;
+  const window = TREND_WINDOWS.find(w => w === hours);
+  if (window === undefined) {
+    throw new Error(`Unsupported trend window "${value}" (expected one of ${TREND_WINDOWS.join(', ')} hours, or 7d)`);
+  }
+  return window;
+}
+
+function parseTrendCategory(value: string): number | null {
+  // "Business & Finance", "business_and_finance" and "business-and-finance" all resolve to the same id
+  const normalized = value.trim().toLowerCase().replace(/\s*&\s*/g, '-and-').replace(/[\s_]+/g, '-');
+  if (normalized === 'all' || normalized === '') {
+    return null;
+  }
+  if (/^\d+$/.test(normalized)) {
+    return Number(normalized);
+  }
+  const byName = TREND_CATEGORIES[normalized];
+  if (byName === undefined) {
+    throw new Error(`Unknown trend category "${value}" (expected "all", a category id, or one of: ${Object.keys(TREND_CATEGORIES).join(', ')})`);
+  }
+  return byName;
+}
+
+function categoryLabel(category: number | null): string {
+  if (category === null) {
+    return 'all';
+  }
+  const name = Object.keys(TREND_CATEGORIES).find(key => TREND_CATEGORIES[key] === category);
+  return name ?? String(category);
+}
+
+// Every (geo, window, category) combination becomes its own snapshot
+function expandScrapeMatrix(
+  geos: string[],
+  windows: TrendWindowHours[],
+  categories: (number | null)[],
+  activeOnly: boolean
+): ScrapeOptions[] {
+  const combinations: ScrapeOptions[] = [];
+  for (const geo of geos) {
+    for (const hours of windows) {
+      for (const category of categories) {
+        combinations.push({ geo, hours, category, activeOnly });
+      }
+    }
+  }
+  return combinations;
+}
+
+function splitList(values: string[] | undefined): string[] {
+  return (values ?? []).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
+interface ScrapeRequest {
+  snapshots: ScrapeOptions[];
+  replayFiles: string[]; // saved pages to parse offline instead of scraping
+  storePath: string;     // historical trend store the snapshots are recorded in
+  headless: boolean;     // false opens a visible browser window for live captures
+}
+
+// Command line options shared by every command that scrapes or replays snapshots
+const SCRAPE_ARG_OPTIONS = {
+  geo: { type: 'string', multiple: true },
+  window: { type: 'string', multiple: true },
+  category: { type: 'string', multiple: true },
+  'active-only': { type: 'boolean', default: false },
+  replay: { type: 'string', multiple: true },
+  db: { type: 'string' },
+  headful: { type: 'boolean', default: false }
+} as const;
+
+interface ScrapeArgValues {
+  geo?: string[];
+  window?: string[];
+  category?: string[];
+  'active-only'?: boolean;
+  replay?: string[];
+  db?: string;
+  headful?: boolean;
+}
+
+// Captures run without a window; --headful or SCRAPE_HEADFUL=1 shows the browser, e.g. to watch a capture fail
+function resolveHeadless(headful = false): boolean {
+  return !(headful || ['1', 'true', 'yes'].includes((process.env.SCRAPE_HEADFUL ?? '').toLowerCase()));
+}
+
+function toScrapeRequest(values: ScrapeArgValues): ScrapeRequest {
+  const geos = splitList(values.geo).map(geo => geo.toUpperCase());
+  const windows = splitList(values.window).map(parseTrendWindow);
+  const categories = splitList(values.category).map(parseTrendCategory);
+
+  const snapshots = expandScrapeMatrix(
+    geos.length > 0 ? geos : [DEFAULT_SCRAPE_OPTIONS.geo],
+    windows.length > 0 ? windows : [DEFAULT_SCRAPE_OPTIONS.hours],
+    categories.length > 0 ? categories : [DEFAULT_SCRAPE_OPTIONS.category],
+    values['active-only'] ?? DEFAULT_SCRAPE_OPTIONS.activeOnly
+  );
+  return {
+    snapshots,
+    replayFiles: values.replay ?? [],
+    storePath: values.db ?? process.env.TRENDS_DB ?? 'trends.db',
+    headless: resolveHeadless(values.headful)
+  };
+}
+
+/**
+ * Parses `--geo US,BE --window 4h,24h --category technology --active-only` style arguments
+ * into the list of snapshots to capture, and `--replay page.html` into saved pages to re-parse.
+ */
+function parseScrapeArgs(argv: string[]): ScrapeRequest {
+  const { values } = parseArgs({ args: argv, options: SCRAPE_ARG_OPTIONS, allowPositionals: false });
+  return toScrapeRequest(values);
+}
+
+export {
+  TREND_WINDOWS,
+  TrendWindowHours,
+  TREND_CATEGORIES,
+  ScrapeOptions,
+  ScrapeRequest,
+  SnapshotMetadata,
+  DEFAULT_SCRAPE_OPTIONS,
+  buildTrendsUrl,
+  parseTrendWindow,
+  parseTrendCategory,
+  categoryLabel,
+  expandScrapeMatrix,
+  SCRAPE_ARG_OPTIONS,
+  ScrapeArgValues,
+  resolveHeadless,
+  toScrapeRequest,
+  parseScrapeArgs
+};
@@ -0,0 +1,62 @@
+import * as path from 'path';
+import { test, expect } from '@playwright/test';
+import { diffReports, loadGoldenDataset, runBenchmark } from '../../src/benchmark';
+import { loadDomainsConfig } from '../../src/domain-config';
+import { RecordedProvider, ScriptedProvider } from '../../src/llm-provider';
+
+const ROOT = path.join(__dirname, '..', '..');
+const dataset = loadGoldenDataset(path.join(ROOT, 'benchmark', 'golden.yaml'));
+const domainsSource = path.join(ROOT, 'benchmark', 'domains.yaml');
+const domains = loadDomainsConfig(domainsSource);
+
+test.describe('benchmark harness', () => {
+  test('replays the committed reference recording offline with known metrics', async () => {
+    const provider = new RecordedProvider(path.join(ROOT, 'benchmark', 'recordings', 'reference.yaml'));
+
+    const report = await runBenchmark(dataset, { provider, domains, domainsSource });
+
+    expect(provider.stats).toEqual({ replayed: 3, recorded: 0 });
+    expect(report.failed).toBe(0);
+    expect(report.micro).toEqual({ precision: 0.9706, recall: 0.9167, f1: 0.9429 });
+    expect(report.exactMatch).toBe(0.8667);
+    expect(report.cases.filter(prediction => !prediction.exact).map(prediction => prediction.trend))
+      .toEqual(['openai lawsuit', 'ai regulation bill', 'tesla earnings', 'kat abughazaleh']);
+    // Subdomain labels imply their parent
+    expect(report.cases.find(prediction => prediction.trend === 'chatgpt down')?.expected).toEqual(['Technology & AI', 'LLMs']);
+  });
+
+  test('counts unanswered cases as failed and leaves them out of the metrics', async () => {
+    const provider = new ScriptedProvider(() => JSON.stringify({ trends: [] }));
+
+    const report = await runBenchmark(dataset, { provider, domains, domainsSource });
+
+    expect(report.failed).toBe(dataset.cases.length);
+    expect(report.cases.every(prediction => prediction.error === 'no answer for any domain' && !prediction.exact)).toBe(true);
+    expect(report.domains).toEqual([]);
+    expect(report.calibration.bins.every(bin => bin.count === 0)).toBe(true);
+  });
+
+  test('fails a replay whose prompts are not in the recording', async () => {
+    const provider = new RecordedProvider(path.join(ROOT, 'benchmark', 'recordings', 'reference.yaml'));
+
+    const report = await runBenchmark(dataset, { provider, domains, domainsSource, batchSize: 5 });
+
+    expect(report.failed).toBe(dataset.cases.length);
+    expect(report.cases[0].error).toContain('No recorded response');
+  });
+
+  test('diffs two reports case by case', async () => {
+    const reference = await runBenchmark(dataset, {
+      provider: new RecordedProvider(path.join(ROOT, 'benchmark', 'recordings', 'reference.yaml')), domains, domainsSource
+    });
+    const candidate = JSON.parse(JSON.stringify(reference));
+    candidate.cases.find((prediction: { trend: string }) => prediction.trend === 'tesla earnings').exact = true;
+    candidate.cases.find((prediction: { trend: string }) => prediction.trend === 'dodgers').exact = false;
+
+    const diff = diffReports(reference, candidate);
+
+    expect(diff.comparable).toBe(true);
+    expect(diff.fixed).toEqual(['tesla earnings']);
+    expect(diff.broken).toEqual(['dodgers']);
+  });
+});
@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, main } from '../../src/cli';
+import { tempDir } from './helpers';
+
+const PAGES_DIR = path.join(__dirname, 'fixtures', 'pages');
+
+// Runs the CLI with stdout and stderr captured instead of written
+async function runCli(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const output = { stdout: '', stderr: '' };
+  const write = { stdout: process.stdout.write, stderr: process.stderr.write };
+  process.stdout.write = ((chunk: string | Uint8Array) => {
+    output.stdout += chunk.toString();
+    return true;
+  }) as typeof process.stdout.write;
+  process.stderr.write = ((chunk: string | Uint8Array) => {
+    output.stderr += chunk.toString();
+    return true;
+  }) as typeof process.stderr.write;
+  try {
+    const code = await main(argv);
+    return { code, ...output };
+  } finally {
+    process.stdout.write = write.stdout;
+    process.stderr.write = write.stderr;
+  }
+}
+
+test.describe('trends CLI', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = tempDir('cli');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('prints the usage to stdout, exiting 2 when no command is given', async () => {
+    const bare = await runCli([]);
+    expect(bare.code).toBe(EXIT_USAGE);
+    expect(bare.stdout).toContain('scrape');
+
+    const help = await runCli(['clean', '--help']);
+    expect(help.code).toBe(EXIT_OK);
+    expect(help.stdout).toContain('clean [page.html ...]');
+    expect(help.stderr).toBe('');
+  });
+
+  test('exits 2 with the usage on stderr for an unknown command or bad arguments', async () => {
+    const unknown = await runCli(['scrap']);
+    expect(unknown.code).toBe(EXIT_USAGE);
+    expect(unknown.stdout).toBe('');
+    expect(unknown.stderr).toMatch(/^Unknown command "scrap"/);
+
+    const badFlag = await runCli(['scrape', '--dry-run', '--windw', '4h']);
+    expect(badFlag.code).toBe(EXIT_USAGE);
+    expect(badFlag.stdout).toBe('');
+    expect(badFlag.stderr).toContain("Unknown option '--windw'");
+
+    const missing = await runCli(['clean', path.join(dir, 'missing.html')]);
+    expect(missing.code).toBe(EXIT_USAGE);
+    expect(missing.stderr).toContain('No such file:');
+  });
+
+  test('prints only its results to stdout and logs progress to stderr', async () => {
+    const { code, stdout, stderr } = await runCli(['clean', path.join(PAGES_DIR, 'us-24h-all.html'), '--out-dir', dir, '--db', path.join(dir, 'trends.db')]);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe(`${path.join(dir, 'us-24h-all.csv')}\n`);
+    expect(stderr).toContain('Extracted 4 trends');
+    expect(fs.existsSync(path.join(dir, 'us-24h-all.csv'))).toBe(true);
+  });
+
+  test('prints the URLs of a dry run without opening them', async () => {
+    const { code, stdout } = await runCli(['scrape', '--dry-run', '--geo', 'US,BE', '--window', '4h']);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout.trim().split('\n')).toEqual([
+      'https://trends.google.com/trending?geo=US&hours=4',
+      'https://trends.google.com/trending?geo=BE&hours=4'
+    ]);
+  });
+
+  test('exits 1 with the error on stderr when the command fails', async () => {
+    const { code, stdout, stderr } = await runCli(['clean', path.join(PAGES_DIR, 'us-24h-empty.html'), '--out-dir', dir, '--db', path.join(dir, 'trends.db')]);
+
+    expect(code).toBe(EXIT_FAILURE);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('❌ Scrape health check failed');
+    expect(fs.readdirSync(dir).filter(file => file.endsWith('.csv'))).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { CSVParseError, parseCSV, parseCSVRecords, stringifyCSV } from '../../src/csv';
+import { convertCleanedDataToCSV, parseCleanedDataCSV } from '../../src/data-cleaner';
+import { SCRAPED_AT, trend } from './helpers';
+
+test.describe('CSV reader/writer', () => {
+  test('round-trips fields with separators, quotes, line breaks and empty values', () => {
+    const rows = [
+      ['trend', 'related', 'note'],
+      ['cruz azul - juárez', 'liga mx, cruz azul', 'said "golazo"'],
+      ['multi\nline', 'crlf\r\nline', ''],
+      [''],
+      ['; semicolons; stay', ' padded ', '"']
+    ];
+    expect(parseCSV(stringifyCSV(rows))).toEqual(rows);
+  });
+
+  test('reads LF line endings, a byte order mark and a missing final line break', () => {
+    expect(parseCSV('\uFEFFa,b\n1,"x\ny"')).toEqual([['a', 'b'], ['1', 'x\ny']]);
+  });
+
+  test('reports the line of malformed quoting', () => {
+    expect(() => parseCSV('a,b\r\n1,"open')).toThrow(CSVParseError);
+    expect(() => parseCSV('a,b\r\n1,x"y')).toThrow(/line 2/);
+  });
+
+  test('keys records by header, skipping blank lines and filling missing fields', () => {
+    expect(parseCSVRecords('name,volume\r\ndodgers,50K+\r\n\r\nemmys\r\n')).toEqual([
+      { name: 'dodgers', volume: '50K+' },
+      { name: 'emmys', volume: '' }
+    ]);
+  });
+});
+
+test.describe('trend CSV', () => {
+  test('keeps related searches containing semicolons, commas and quotes', () => {
+    const relatedSearches = ['tickets; prices', 'cruz azul, juárez', 'said "golazo"', '[live]'];
+    const csv = convertCleanedDataToCSV([trend('cruz azul - juárez', { relatedSearches }), trend('h1b visa')],
+      { geo: 'MX', hours: 24, category: null, activeOnly: false, scrapedAt: SCRAPED_AT.toISOString() });
+
+    const [withSearches, without] = parseCleanedDataCSV(csv);
+    expect(withSearches.trend.relatedSearches).toEqual(relatedSearches);
+    expect(without.trend.relatedSearches).toEqual([]);
+  });
+
+  test('reads the "; " separated related searches of older files', () => {
+    const [record] = parseCleanedDataCSV('Trend Name,Related Searches\r\niowa vs rutgers,"rutgers football; iowa football; rutgers"\r\n');
+    expect(record.trend.relatedSearches).toEqual(['rutgers football', 'iowa football', 'rutgers']);
+  });
+});
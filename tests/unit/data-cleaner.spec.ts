@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { normalizeTrendMetrics, parseGrowthPercentage, parseSearchVolume, parseTimeAgoMs } from '../../src/data-cleaner';
+import { SCRAPED_AT } from './helpers';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+test.describe('parseSearchVolume', () => {
+  const cases: [string, number | null][] = [
+    ['200K+', 200000],
+    ['2M+ searches', 2000000],
+    ['1.5M+', 1500000],
+    ['500+', 500],
+    ['1,000+', 1000],
+    ['10k+', 10000],
+    ['', null],
+    ['N/A', null],
+    ['Trending', null]
+  ];
+  for (const [input, expected] of cases) {
+    test(`reads ${JSON.stringify(input)} as ${expected}`, () => {
+      expect(parseSearchVolume(input)).toBe(expected);
+    });
+  }
+});
+
+test.describe('parseTimeAgoMs', () => {
+  const cases: [string, number | null][] = [
+    ['19 hours ago', 19 * HOUR_MS],
+    ['11h ago', 11 * HOUR_MS],
+    ['1 hr ago', HOUR_MS],
+    ['50m ago', 50 * MINUTE_MS],
+    ['50 minutes ago', 50 * MINUTE_MS],
+    ['30 seconds ago', 30 * 1000],
+    ['2 days ago', 48 * HOUR_MS],
+    ['  3 hours ago ', 3 * HOUR_MS],
+    ['', null],
+    ['yesterday', null],
+    ['3 hours', null],
+    ['Lasted 8 hrs', null],
+    ['about 3 hours ago', null]
+  ];
+  for (const [input, expected] of cases) {
+    test(`reads ${JSON.stringify(input)} as ${expected}`, () => {
+      expect(parseTimeAgoMs(input)).toBe(expected);
+    });
+  }
+});
+
+test.describe('parseGrowthPercentage', () => {
+  const cases: [string, number | null][] = [
+    ['1,000%', 1000],
+    ['500%', 500],
+    ['+200%', 200],
+    ['-20%', -20],
+    ['12.5 %', 12.5],
+    ['', null],
+    ['Breakout', null],
+    ['1,000', null]
+  ];
+  for (const [input, expected] of cases) {
+    test(`reads ${JSON.stringify(input)} as ${expected}`, () => {
+      expect(parseGrowthPercentage(input)).toBe(expected);
+    });
+  }
+});
+
+test('normalizeTrendMetrics leaves what it cannot read empty', () => {
+  expect(normalizeTrendMetrics({ searchVolume: '2M+ searches', timeAgo: '19 hours ago', growthPercentage: '1,000%' }, SCRAPED_AT)).toEqual({
+    searchVolumeMin: 2000000,
+    startedAt: '2025-09-19T13:00:00.000Z',
+    growthPercent: 1000
+  });
+  expect(normalizeTrendMetrics({ searchVolume: 'N/A', timeAgo: 'yesterday', growthPercentage: 'Breakout' }, SCRAPED_AT)).toEqual({
+    searchVolumeMin: null,
+    startedAt: null,
+    growthPercent: null
+  });
+  expect(normalizeTrendMetrics({ searchVolume: '200K+', timeAgo: '3 hours ago', growthPercentage: '500%' }, new Date('not a date')).startedAt).toBeNull();
+});
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { once } from 'events';
+import { AddressInfo, Server } from 'net';
+import { test, expect } from '@playwright/test';
+import { EmailTarget, FeedTarget, TeamDelivery, WebhookTarget } from '../../src/delivery-config';
+import { deliverDigest, toSlackText } from '../../src/delivery';
+import { startSmtpSink, startWebhookSink } from '../../src/delivery-sinks';
+import { result, tempDir } from './helpers';
+
+const results = [
+  result('nvidia earnings', 'Technology & AI', {
+    labels: [{ domain: 'Technology & AI', score: 0.9, relevance: 9, via: null, path: ['Technology & AI'] }]
+  }),
+  result('dodgers', 'Sports', {
+    labels: [{ domain: 'Sports', score: 0.8, relevance: 8, via: null, path: ['Sports'] }]
+  })
+];
+
+// Retries without waiting
+const retry = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+function team(targets: TeamDelivery['targets'], domains: string[] = []): TeamDelivery {
+  return { name: 'Tech desk', domains, includeUnclassified: false, targets };
+}
+
+async function listening(server: Server): Promise<number> {
+  if (!server.listening) {
+    await once(server, 'listening');
+  }
+  return (server.address() as AddressInfo).port;
+}
+
+function feedTarget(filePath: string, format: FeedTarget['format'], maxEntries = 10): FeedTarget {
+  return { type: 'feed', path: filePath, format, title: 'Tech trends', link: 'https://example.com/', maxEntries };
+}
+
+test.describe('deliverDigest against local sinks', () => {
+  test('retries a webhook the sink refuses once, then posts the team\'s digest', async () => {
+    const received: string[] = [];
+    const sink = startWebhookSink(0, { failures: 1, onReceive: (_kind, payload) => received.push(payload) });
+    try {
+      const port = await listening(sink);
+      const target: WebhookTarget = { type: 'webhook', url: `http://127.0.0.1:${port}/hook`, format: 'json', headers: {} };
+
+      const [report] = await deliverDigest(results, [team([target], ['Technology & AI'])], { retry });
+
+      expect(report).toMatchObject({ team: 'Tech desk', status: 'sent', attempts: 2 });
+      expect(received).toHaveLength(1);
+      const body = JSON.parse(received[0]);
+      expect(body.subject).toContain('Tech desk');
+      expect(body.markdown).toContain('nvidia earnings');
+      expect(body.markdown).not.toContain('dodgers');
+    } finally {
+      sink.close();
+    }
+  });
+
+  test('reports a webhook as failed once the retries run out', async () => {
+    const sink = startWebhookSink(0, { failures: 5 });
+    try {
+      const port = await listening(sink);
+      const target: WebhookTarget = { type: 'webhook', url: `http://127.0.0.1:${port}/`, format: 'slack', headers: {} };
+
+      const [report] = await deliverDigest(results, [team([target])], { retry });
+
+      expect(report).toMatchObject({ status: 'failed', attempts: 3 });
+      expect(report.error).toContain('responded 503');
+    } finally {
+      sink.close();
+    }
+  });
+
+  test('retries a mail the SMTP sink refuses with a temporary error', async () => {
+    const received: string[] = [];
+    const sink = startSmtpSink(0, { failures: 1, onReceive: (_kind, payload) => received.push(payload) });
+    try {
+      const port = await listening(sink);
+      const target: EmailTarget = {
+        type: 'email', host: '127.0.0.1', port, secure: false, from: 'digest@example.com', to: ['desk@example.com']
+      };
+
+      const [report] = await deliverDigest(results, [team([target])], { retry });
+
+      expect(report).toMatchObject({ target: 'email to desk@example.com', status: 'sent', attempts: 2 });
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatch(/^Subject: Trend digest for Tech desk/m);
+    } finally {
+      sink.close();
+    }
+  });
+});
+
+test.describe('writeFeed', () => {
+  for (const format of ['atom', 'rss'] as const) {
+    test(`keeps earlier ${format} entries, newest first, up to maxEntries`, async () => {
+      const directory = tempDir('feed');
+      const feedPath = path.join(directory, `digest.${format}`);
+      const entryTag = format === 'atom' ? '<entry>' : '<item>';
+      const runs = ['2025-09-20T08:00:00Z', '2025-09-21T08:00:00Z', '2025-09-22T08:00:00Z'];
+
+      for (const generatedAt of runs) {
+        await deliverDigest(results, [team([feedTarget(feedPath, format, 2)])], { digest: { generatedAt: new Date(generatedAt) } });
+      }
+
+      const feed = fs.readFileSync(feedPath, 'utf8');
+      fs.rmSync(directory, { recursive: true, force: true });
+      expect(feed.split(entryTag)).toHaveLength(3);
+      const newest = feed.indexOf('2025-09-22T08:00:00');
+      const previous = feed.indexOf('2025-09-21T08:00:00');
+      expect(newest).toBeGreaterThan(-1);
+      expect(previous).toBeGreaterThan(newest);
+      expect(feed).not.toContain('2025-09-20T08:00:00');
+    });
+  }
+});
+
+test('toSlackText escapes Slack control characters but keeps its own links', () => {
+  const markdown = '## Tech & AI\n\n1. **AT&T <outage>**\n   Sources: [The Verge](https://example.com/a?b=1&c=2)';
+
+  expect(toSlackText(markdown)).toBe('*Tech &amp; AI*\n\n1. *AT&amp;T &lt;outage&gt;*\n   Sources: <https://example.com/a?b=1&amp;c=2|The Verge>');
+});
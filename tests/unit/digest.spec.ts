@@ -0,0 +1,138 @@
+import { test, expect } from '@playwright/test';
+import { toSlackText } from '../../src/delivery';
+import { renderDigest } from '../../src/digest';
+import { DomainLabel, UNCLASSIFIED } from '../../src/evaluator';
+import { TrendResearch } from '../../src/research';
+import { SCRAPED_AT, result } from './helpers';
+
+const label = (domain: string, score: number): DomainLabel => ({ domain, score, relevance: score * 10, via: null, path: [domain] });
+
+const research: TrendResearch = {
+  summary: 'A fiber cut took down the network',
+  keyFacts: [],
+  entities: [],
+  whyNow: 'A fiber cut at 6am',
+  sources: [{ title: 'AT&T outage', url: 'https://example.com/a?b=1&c=2', source: 'The Verge', text: null }],
+  depth: 'headlines',
+  researchedAt: SCRAPED_AT.toISOString()
+};
+
+// A small run: two matches with characters that mean something in HTML, and one unclassified trend
+const run = [
+  result('AT&T <outage>', 'Technology & AI', {
+    labels: [label('Technology & AI', 0.9)],
+    confidence: 0.9,
+    reasoning: 'Network *down* in "several" states & more',
+    relatedSearches: ['at&t outage map', 'verizon_outage'],
+    research
+  }),
+  result('nvidia earnings', 'Technology & AI', { labels: [label('Technology & AI', 0.7)], confidence: 0.7, reasoning: 'Quarterly results' }),
+  result('dodgers', UNCLASSIFIED, { confidence: 0.3, reasoning: 'Baseball' })
+];
+
+const render = () => renderDigest(run, { title: 'Morning <brief>', generatedAt: SCRAPED_AT, includeUnclassified: true, failureCount: 1 });
+
+const MARKDOWN = `# Morning <brief> (2025-09-20)
+
+2 of 3 trends matched a domain of interest.
+
+## Technology & AI (2)
+
+1. **AT&T <outage>** (90% confidence)
+   100K+ searches, 500% growth, started 3 hours ago
+   Network *down* in "several" states & more
+   Related: at&t outage map, verizon_outage
+   Why now: A fiber cut at 6am
+   Sources: [The Verge](https://example.com/a?b=1&c=2)
+
+2. **nvidia earnings** (70% confidence)
+   100K+ searches, 500% growth, started 3 hours ago
+   Quarterly results
+
+## Other/Unclassified (1)
+
+1. **dodgers** (30% confidence)
+   100K+ searches, 500% growth, started 3 hours ago
+   Baseball
+
+_1 trends could not be evaluated._
+`;
+
+test.describe('renderDigest', () => {
+  test('renders the markdown briefing without HTML escaping', () => {
+    expect(render().markdown).toBe(MARKDOWN);
+  });
+
+  test('renders the HTML briefing with every value escaped', () => {
+    const html = render().html;
+    const body = html.slice(html.indexOf('<body>'));
+
+    expect(html).toContain('<title>Morning &lt;brief&gt; (2025-09-20)</title>');
+    expect(body.replace(/^\s*\n/gm, '')).toBe(`<body>
+<h1>Morning &lt;brief&gt;</h1>
+<p class="summary">2025-09-20 &middot; 2 of 3 trends matched a domain of interest</p>
+<h2>Technology &amp; AI (2)</h2>
+<ol>
+  <li>
+    <div><span class="trend">AT&amp;T &lt;outage&gt;</span><span class="confidence">90%</span></div>
+    <div class="meta">100K+ searches &middot; 500% growth &middot; started 3 hours ago</div>
+    <p>Network *down* in &quot;several&quot; states &amp; more</p>
+    <p class="why-now"><strong>Why now:</strong> A fiber cut at 6am</p>
+    <div class="related">Related: at&amp;t outage map, verizon_outage</div>
+    <div class="related">Sources: <a href="https:&#x2F;&#x2F;example.com&#x2F;a?b&#x3D;1&amp;c&#x3D;2">The Verge</a> </div>
+  </li>
+  <li>
+    <div><span class="trend">nvidia earnings</span><span class="confidence">70%</span></div>
+    <div class="meta">100K+ searches &middot; 500% growth &middot; started 3 hours ago</div>
+    <p>Quarterly results</p>
+  </li>
+</ol>
+<h2>Other&#x2F;Unclassified (1)</h2>
+<ol>
+  <li>
+    <div><span class="trend">dodgers</span><span class="confidence">30%</span></div>
+    <div class="meta">100K+ searches &middot; 500% growth &middot; started 3 hours ago</div>
+    <p>Baseball</p>
+  </li>
+</ol>
+<p class="meta">1 trends could not be evaluated.</p>
+<p class="meta">Generated 2025-09-20T08:00:00.000Z</p>
+</body>
+</html>
+`);
+  });
+
+  test('renders the plain text sent to Slack from the markdown', () => {
+    expect(toSlackText(render().markdown)).toBe(`*Morning &lt;brief&gt; (2025-09-20)*
+
+2 of 3 trends matched a domain of interest.
+
+*Technology &amp; AI (2)*
+
+1. *AT&amp;T &lt;outage&gt;* (90% confidence)
+   100K+ searches, 500% growth, started 3 hours ago
+   Network *down* in "several" states &amp; more
+   Related: at&amp;t outage map, verizon_outage
+   Why now: A fiber cut at 6am
+   Sources: <https://example.com/a?b=1&amp;c=2|The Verge>
+
+2. *nvidia earnings* (70% confidence)
+   100K+ searches, 500% growth, started 3 hours ago
+   Quarterly results
+
+*Other/Unclassified (1)*
+
+1. *dodgers* (30% confidence)
+   100K+ searches, 500% growth, started 3 hours ago
+   Baseball
+
+_1 trends could not be evaluated._
+`);
+  });
+
+  test('leaves the unclassified section out unless asked for', () => {
+    const { markdown } = renderDigest(run, { generatedAt: SCRAPED_AT });
+    expect(markdown).not.toContain('dodgers');
+    expect(markdown).toContain('2 of 3 trends matched');
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { DomainConfigError, validateDomainsConfig } from '../../src/domain-config';
+
+const SOURCE = 'domains.yaml';
+
+// Runs the validation and returns the issues it collected, or [] when the config is valid
+function issuesOf(document: unknown): string[] {
+  try {
+    validateDomainsConfig(document, SOURCE);
+    return [];
+  } catch (error) {
+    if (!(error instanceof DomainConfigError)) {
+      throw error;
+    }
+    return error.issues;
+  }
+}
+
+const sports = (overrides: Record<string, unknown> = {}) => ({ name: 'Sports', description: 'Matches, players and results', ...overrides });
+
+test.describe('validateDomainsConfig', () => {
+  test('reads a valid config with defaults for the optional fields', () => {
+    expect(validateDomainsConfig({ domains: [sports({ keywords: [' football '] })] }, SOURCE)).toEqual([{
+      name: 'Sports',
+      description: 'Matches, players and results',
+      keywords: ['football'],
+      examples: [],
+      negativeExamples: [],
+      threshold: 6,
+      priority: 0,
+      parent: null,
+      llm: undefined
+    }]);
+  });
+
+  test('collects every issue of the file instead of stopping at the first', () => {
+    const issues = issuesOf({
+      version: 2,
+      domains: [
+        sports({ treshold: 7, threshold: 12 }),
+        { name: 'Golf', threshold: 'high' },
+        sports({ name: 'sports', priority: '1' })
+      ]
+    });
+
+    expect(issues).toEqual([
+      'version: unknown top-level field',
+      'domains[0].treshold: unknown field (expected one of name, description, keywords, examples, negativeExamples, threshold, priority, parent, llm)',
+      'domains[0] (Sports).threshold: must be a number between 0 and 10, got 12',
+      'domains[1].description: is required',
+      'domains[1] (Golf).threshold: must be a number between 0 and 10, got "high"',
+      'domains[2] (sports).priority: must be a number, got "1"',
+      'domains[2].name: duplicate domain "sports"'
+    ]);
+  });
+
+  test('names the file and lists the issues in the error message', () => {
+    expect(() => validateDomainsConfig({ domains: [{ name: 'Sports' }] }, SOURCE))
+      .toThrow('Invalid domain config domains.yaml:\n  - domains[0].description: is required');
+  });
+
+  test('rejects a document without a domains list outright', () => {
+    expect(issuesOf({ domain: [] })).toEqual(['top level must be a mapping with a "domains" list']);
+    expect(issuesOf({ domains: [] })).toEqual(['domains: must contain at least one domain']);
+  });
+
+  test('checks that parents exist and do not form a cycle', () => {
+    const issues = issuesOf({
+      domains: [
+        sports({ parent: 'Leisure' }),
+        { name: 'Golf', description: 'Golf', parent: 'Tennis' },
+        { name: 'Tennis', description: 'Tennis', parent: 'Golf' }
+      ]
+    });
+
+    expect(issues).toEqual([
+      'domains[0] (Sports).parent: unknown domain "Leisure"',
+      'domains[1] (Golf).parent: "Tennis" leads back to "Golf", parents can\'t form a cycle',
+      'domains[2] (Tennis).parent: "Golf" leads back to "Tennis", parents can\'t form a cycle'
+    ]);
+  });
+});
+
+test.describe('validateDomainsConfig llm overrides', () => {
+  test('accepts a per-domain request timeout', () => {
+    const [domain] = validateDomainsConfig({ domains: [sports({ llm: { provider: 'openai', model: 'llama3.1', timeoutMs: 300000 } })] }, SOURCE);
+    expect(domain.llm).toEqual({ provider: 'openai', model: 'llama3.1', timeoutMs: 300000 });
+  });
+
+  test('rejects a timeout that is not a positive number', () => {
+    expect(issuesOf({ domains: [sports({ llm: { timeoutMs: '300000' } }), sports({ name: 'Golf', llm: { timeoutMs: 0 } })] })).toEqual([
+      'domains[0] (Sports).llm.timeoutMs: must be a positive number of milliseconds, got "300000"',
+      'domains[1] (Golf).llm.timeoutMs: must be a positive number of milliseconds, got 0'
+    ]);
+  });
+
+  test('still wants the other fields as strings', () => {
+    expect(issuesOf({ domains: [sports({ llm: { model: 3 } })] })).toEqual(['domains[0] (Sports).llm.model: must be a string']);
+  });
+});
@@ -0,0 +1,150 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DomainEvaluation, TopicEvaluator, UNCLASSIFIED, evaluateTopics, labelDomains } from '../../src/evaluator';
+import { LLMCache } from '../../src/llm-cache';
+import { ScriptedProvider } from '../../src/llm-provider';
+import { domain, evaluationAnswer, tempDir, trend } from './helpers';
+
+const domains = [domain('Technology & AI'), domain('Sports', { threshold: 7 })];
+
+test.describe('TopicEvaluator with a scripted provider', () => {
+  test('scores a whole batch in one request and classifies against each threshold', async () => {
+    const provider = new ScriptedProvider([evaluationAnswer(domains, [[8, 1], [2, 6]])]);
+    const evaluator = new TopicEvaluator(provider, { domains, retry: { retries: 0 } });
+
+    const [chatgpt, dodgers] = await evaluator.evaluateBatch([trend('chatgpt down'), trend('dodgers')]);
+
+    expect(provider.prompts).toHaveLength(1);
+    expect(provider.prompts[0]).toContain('[0] Name: chatgpt down');
+    expect(provider.prompts[0]).toContain('[1] Name: dodgers');
+    expect(chatgpt.classification).toBe('Technology & AI');
+    expect(chatgpt.confidence).toBe(0.8);
+    expect(chatgpt.labels.map(label => label.domain)).toEqual(['Technology & AI']);
+    // 6 is below the Sports threshold of 7
+    expect(dodgers.classification).toBe(UNCLASSIFIED);
+    expect(dodgers.labels).toEqual([]);
+  });
+
+  test('sends an invalid answer back with its problems and keeps the repaired one', async () => {
+    const invalid = JSON.stringify({
+      trends: [{ index: 0, summary: 'x', domains: [{ domain: 'Technology & AI', relevance: 12, reasoning: 'too high', isMatch: true }] }]
+    });
+    const provider = new ScriptedProvider([invalid, evaluationAnswer(domains, [[9, 0]])]);
+    const evaluator = new TopicEvaluator(provider, { domains, retry: { retries: 0 } });
+
+    const [evaluated] = await evaluator.evaluateBatch([trend('gemini 3 release')]);
+
+    expect(provider.prompts).toHaveLength(2);
+    expect(provider.prompts[1]).toContain('Your previous answer was invalid');
+    expect(provider.prompts[1]).toContain('missing an evaluation for "Sports"');
+    expect(evaluated.classification).toBe('Technology & AI');
+    expect(evaluated.validationIssues.length).toBeGreaterThan(0);
+    expect(evaluated.validationIssues.every(issue => issue.resolved)).toBe(true);
+  });
+
+  test('asks a domain with its own provider separately', async () => {
+    const main = new ScriptedProvider([evaluationAnswer([domains[0]], [[7]])]);
+    const sports = new ScriptedProvider([evaluationAnswer([domains[1]], [[9]])], 'sports-model');
+    const evaluator = new TopicEvaluator(main, { domains, domainProviders: { Sports: sports }, retry: { retries: 0 } });
+
+    const [evaluated] = await evaluator.evaluateBatch([trend('nvidia vs dodgers')]);
+
+    expect(main.prompts[0]).not.toContain('Name: Sports');
+    expect(sports.prompts[0]).toContain('Name: Sports');
+    expect(evaluated.classification).toBe('Sports');
+    expect(evaluated.labels.map(label => label.domain)).toEqual(['Sports', 'Technology & AI']);
+  });
+});
+
+test.describe('labelDomains', () => {
+  const taxonomy = [
+    domain('Technology & AI'),
+    domain('LLMs', { parent: 'Technology & AI' }),
+    domain('Open models', { parent: 'LLMs' }),
+    domain('Sports', { threshold: 7 }),
+    domain('Business', { priority: 2 })
+  ];
+
+  // The model's scores for every domain of the taxonomy, 0 unless given
+  const scores = (relevance: Record<string, number>): DomainEvaluation[] => taxonomy.map(entry => ({
+    domain: entry.name,
+    relevance: relevance[entry.name] ?? 0,
+    reasoning: '',
+    isMatch: (relevance[entry.name] ?? 0) >= entry.threshold
+  }));
+
+  const summary = (relevance: Record<string, number>) =>
+    labelDomains(scores(relevance), taxonomy).map(label => [label.domain, label.score, label.via]);
+
+  test('labels a trend with every domain over its own threshold, best first', () => {
+    expect(summary({ 'Technology & AI': 7, Sports: 8, Business: 6 })).toEqual([
+      ['Sports', 0.8, null],
+      ['Technology & AI', 0.7, null],
+      ['Business', 0.6, null]
+    ]);
+  });
+
+  test('leaves out a domain under its own threshold', () => {
+    expect(summary({ 'Technology & AI': 6, Sports: 6 })).toEqual([['Technology & AI', 0.6, null]]);
+  });
+
+  test('rolls a matching subdomain up into its parent', () => {
+    const labels = labelDomains(scores({ LLMs: 9, 'Technology & AI': 3 }), taxonomy);
+
+    expect(labels).toEqual([
+      { domain: 'LLMs', score: 0.9, relevance: 9, via: null, path: ['Technology & AI', 'LLMs'] },
+      { domain: 'Technology & AI', score: 0.9, relevance: 3, via: 'LLMs', path: ['Technology & AI'] }
+    ]);
+  });
+
+  test('rolls up through every ancestor from the best matching descendant', () => {
+    expect(summary({ 'Open models': 8, LLMs: 7, 'Technology & AI': 2 })).toEqual([
+      ['Open models', 0.8, null],
+      ['LLMs', 0.8, 'Open models'],
+      ['Technology & AI', 0.8, 'Open models']
+    ]);
+  });
+
+  test("keeps a parent's own score when it beats its subdomains", () => {
+    expect(summary({ 'Technology & AI': 9, LLMs: 7 })).toEqual([
+      ['Technology & AI', 0.9, null],
+      ['LLMs', 0.7, null]
+    ]);
+  });
+
+  test('does not roll up a subdomain under its threshold', () => {
+    expect(summary({ LLMs: 5, 'Technology & AI': 4 })).toEqual([]);
+  });
+
+  test('puts the higher priority domain first between equal scores', () => {
+    expect(summary({ 'Technology & AI': 8, Business: 8 }).map(([name]) => name)).toEqual(['Business', 'Technology & AI']);
+  });
+});
+
+test.describe('evaluateTopics', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = tempDir('evaluate');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reports a store that cannot be opened as a run without output', async () => {
+    const storePath = path.join(dir, 'trends.db');
+    fs.writeFileSync(storePath, 'not a database');
+
+    const run = await evaluateTopics(path.join(dir, 'trending_topics.csv'), {
+      storePath,
+      provider: new ScriptedProvider([]),
+      domains,
+      cache: LLMCache.load({ filePath: null }),
+      outputDir: dir
+    });
+
+    expect(run).toEqual({ results: [], failures: [], outputPath: null });
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { emptyCheckpoint } from '@langchain/langgraph';
+import { FileCheckpointSaver } from '../../src/file-checkpointer';
+import { tempDir } from './helpers';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Saves `count` checkpoints of a thread one after the other, the way a run does step by step
+async function saveSteps(saver: FileCheckpointSaver, threadId: string, count: number): Promise<string[]> {
+  const ids: string[] = [];
+  let config: RunnableConfig = { configurable: { thread_id: threadId, checkpoint_ns: '' } };
+  for (let step = 0; step < count; step++) {
+    config = await saver.put(config, emptyCheckpoint(), { source: 'loop', step, parents: {} });
+    await saver.putWrites(config, [['results', step]], `task-${step}`);
+    ids.push(config.configurable?.checkpoint_id as string);
+  }
+  return ids;
+}
+
+const stored = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+test.describe('FileCheckpointSaver', () => {
+  let dir: string;
+  let file: string;
+
+  test.beforeEach(() => {
+    dir = tempDir('checkpoints');
+    file = path.join(dir, 'pipeline-checkpoints.json');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps only the newest checkpoints of a thread, with their pending writes', async () => {
+    const ids = await saveSteps(new FileCheckpointSaver(file, { maxCheckpoints: 2 }), 'run-1', 5);
+
+    expect(Object.keys(stored(file).storage['run-1']['']).sort()).toEqual(ids.slice(-2).sort());
+    expect(Object.keys(stored(file).writes)).toHaveLength(2);
+
+    const reloaded = new FileCheckpointSaver(file, { maxCheckpoints: 2 });
+    const latest = await reloaded.getTuple({ configurable: { thread_id: 'run-1' } });
+    expect(latest?.config.configurable?.checkpoint_id).toBe(ids[4]);
+    expect(latest?.pendingWrites).toEqual([['task-4', 'results', 4]]);
+  });
+
+  test('drops finished threads once the retention period is over', async () => {
+    const saver = new FileCheckpointSaver(file, { retentionDays: 7 });
+    await saveSteps(saver, 'finished-run', 2);
+    await saveSteps(saver, 'failed-run', 2);
+    await saveSteps(saver, 'recent-run', 2);
+    const now = new Date();
+    await saver.finishThread('finished-run', new Date(now.getTime() - 8 * DAY_MS));
+    await saver.finishThread('recent-run', new Date(now.getTime() - 6 * DAY_MS));
+
+    new FileCheckpointSaver(file, { retentionDays: 7 }, now);
+
+    // A failed run stays resumable however old it is
+    expect(Object.keys(stored(file).storage).sort()).toEqual(['failed-run', 'recent-run']);
+    expect(Object.keys(stored(file).finished)).toEqual(['recent-run']);
+    expect(Object.keys(stored(file).writes).some(key => key.includes('finished-run'))).toBe(false);
+  });
+
+  test('treats a finished thread that runs again as live', async () => {
+    const saver = new FileCheckpointSaver(file);
+    await saveSteps(saver, 'run-1', 1);
+    await saver.finishThread('run-1', new Date(Date.now() - 30 * DAY_MS));
+    await saveSteps(saver, 'run-1', 1);
+
+    expect(stored(file).finished).toEqual({});
+    expect(Object.keys(new FileCheckpointSaver(file).storage)).toEqual(['run-1']);
+  });
+});
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CleanedTrendData, normalizeTrendMetrics } from '../../src/data-cleaner';
+import { DomainOfInterest } from '../../src/domain-config';
+import { EvaluationResult } from '../../src/evaluator';
+
+// Small builders shared by the specs, so each test only spells out what it is about
+
+const SCRAPED_AT = new Date('2025-09-20T08:00:00Z');
+
+function trend(trendName: string, overrides: Partial<CleanedTrendData> = {}): CleanedTrendData {
+  const fields = { searchVolume: '100K+', timeAgo: '3 hours ago', growthPercentage: '500%', ...overrides };
+  return {
+    trendName,
+    status: 'active',
+    relatedSearches: [],
+    exploreLink: `https://trends.google.com/trends/explore?q=${encodeURIComponent(trendName)}`,
+    normalized: normalizeTrendMetrics(fields, SCRAPED_AT),
+    ...fields
+  };
+}
+
+function domain(name: string, overrides: Partial<DomainOfInterest> = {}): DomainOfInterest {
+  return {
+    name,
+    description: `Everything about ${name}`,
+    keywords: [name],
+    examples: [],
+    negativeExamples: [],
+    threshold: 6,
+    priority: 0,
+    parent: null,
+    ...overrides
+  };
+}
+
+// An evaluation answer in the shape the evaluator asks for: scores[topic][domain]
+function evaluationAnswer(domains: DomainOfInterest[], scores: number[][]): string {
+  return JSON.stringify({
+    trends: scores.map((row, index) => ({
+      index,
+      summary: `Topic ${index}`,
+      domains: domains.map((entry, position) => ({
+        domain: entry.name,
+        relevance: row[position],
+        reasoning: `Scored ${row[position]}`,
+        isMatch: row[position] >= entry.threshold
+      }))
+    }))
+  });
+}
+
+function result(trendName: string, classification: string, overrides: Partial<EvaluationResult> = {}): EvaluationResult {
+  const data = trend(trendName);
+  return {
+    trend: trendName,
+    classification,
+    labels: [],
+    confidence: 0.8,
+    reasoning: '',
+    domainEvaluations: [],
+    searchVolume: data.searchVolume,
+    growth: data.growthPercentage,
+    timeAgo: data.timeAgo,
+    relatedSearches: [],
+    normalized: data.normalized,
+    lifecycle: null,
+    validationIssues: [],
+    geo: 'US',
+    research: null,
+    priority: null,
+    cluster: null,
+    ...overrides
+  };
+}
+
+// A fresh directory under the OS temp dir, for specs that write files
+function tempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `trends-${prefix}-`));
+}
+
+export { SCRAPED_AT, trend, domain, evaluationAnswer, result, tempDir };
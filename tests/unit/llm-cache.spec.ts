@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMCache } from '../../src/llm-cache';
+import { SCRAPED_AT, tempDir } from './helpers';
+
+const HOUR_MS = 3600000;
+const TTL_MS = 24 * HOUR_MS;
+
+const tags = (trend: string, domain: string, model = 'gemini/gemini-2.5-flash') =>
+  ({ kind: 'domain-evaluation', trend, domain, model, promptVersion: '3' });
+
+test.describe('LLMCache', () => {
+  let clock: number;
+  const cache = (options = {}) => LLMCache.load({ filePath: null, ttlMs: TTL_MS, now: () => clock, ...options });
+
+  test.beforeEach(() => {
+    clock = SCRAPED_AT.getTime();
+  });
+
+  test('answers from the cache until the entry is older than the TTL', () => {
+    const llmCache = cache();
+    const key = LLMCache.key(tags('nvidia earnings', 'Technology & AI'), { prompt: 'p' });
+    llmCache.set(key, { relevance: 8 }, tags('nvidia earnings', 'Technology & AI'));
+
+    clock += TTL_MS;
+    expect(llmCache.get(key)).toEqual({ relevance: 8 });
+
+    clock += 1;
+    expect(llmCache.get(key)).toBeUndefined();
+    expect(llmCache.size).toBe(0);
+    expect(llmCache.stats).toEqual({ hits: 1, misses: 1, expired: 1, writes: 1 });
+  });
+
+  test('prunes only the expired entries', () => {
+    const llmCache = cache();
+    llmCache.set('old', 1, tags('emmys', 'Entertainment'));
+    clock += 12 * HOUR_MS;
+    llmCache.set('recent', 2, tags('ryder cup', 'Sports'));
+
+    clock += 13 * HOUR_MS;
+
+    expect(llmCache.prune()).toBe(1);
+    expect(llmCache.get('recent')).toBe(2);
+    expect(llmCache.get('old')).toBeUndefined();
+  });
+
+  test('invalidates the entries matching every given tag', () => {
+    const llmCache = cache();
+    llmCache.set('a', 1, tags('nvidia earnings', 'Technology & AI'));
+    llmCache.set('b', 2, tags('nvidia earnings', 'Finance'));
+    llmCache.set('c', 3, tags('ryder cup', 'Sports'));
+    llmCache.set('d', 4, tags('ryder cup', 'Sports', 'openai/llama3.1'));
+
+    expect(llmCache.invalidate({ trend: 'nvidia earnings', domain: 'Finance' })).toBe(1);
+    expect(llmCache.invalidate({ model: 'openai/llama3.1' })).toBe(1);
+    expect(['a', 'b', 'c', 'd'].map(key => llmCache.get(key))).toEqual([1, undefined, 3, undefined]);
+
+    expect(llmCache.invalidate()).toBe(2);
+    expect(llmCache.size).toBe(0);
+  });
+
+  test('keeps the entry times across a save and reload', () => {
+    const dir = tempDir('cache');
+    const filePath = path.join(dir, 'llm-cache.json');
+    try {
+      const first = cache({ filePath });
+      first.set('a', 1, tags('emmys', 'Entertainment'));
+      first.save();
+
+      clock += TTL_MS + 1;
+      const reloaded = cache({ filePath });
+
+      expect(reloaded.size).toBe(1);
+      expect(reloaded.get('a')).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('only stores answers in refresh mode and ignores them when off', () => {
+    const refresh = cache({ mode: 'refresh' });
+    refresh.set('a', 1, tags('emmys', 'Entertainment'));
+    expect(refresh.get('a')).toBeUndefined();
+    expect(refresh.size).toBe(1);
+
+    const off = cache({ mode: 'off' });
+    off.set('a', 1, tags('emmys', 'Entertainment'));
+    expect(off.size).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import { once } from 'events';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { TopicEvaluator } from '../../src/evaluator';
+import { JsonSchema, OpenAICompatibleProvider, ScriptedProvider, createProvider } from '../../src/llm-provider';
+import { isTransientError } from '../../src/retry';
+import { parseJsonResponse, validateSchema } from '../../src/llm-schema';
+import { domain, trend } from './helpers';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { relevance: { type: 'integer', minimum: 0, maximum: 10 } },
+        required: ['relevance']
+      }
+    }
+  },
+  required: ['summary', 'scores']
+};
+
+test.describe('validateSchema', () => {
+  test('accepts a value matching the schema', () => {
+    expect(validateSchema({ summary: 'ok', scores: [{ relevance: 0 }, { relevance: 10 }] }, schema)).toEqual([]);
+  });
+
+  test('reports every problem with its path', () => {
+    expect(validateSchema({ summary: '  ', scores: [{ relevance: 11 }, { relevance: 2.5 }, {}] }, schema)).toEqual([
+      { path: '$.summary', message: 'must not be empty' },
+      { path: '$.scores[0].relevance', message: 'must be at most 10, got 11' },
+      { path: '$.scores[1].relevance', message: 'expected integer, got 2.5' },
+      { path: '$.scores[2].relevance', message: 'is required' }
+    ]);
+  });
+
+  test('stops at a value of the wrong type', () => {
+    expect(validateSchema({ scores: 'none' }, schema)).toEqual([
+      { path: '$.summary', message: 'is required' },
+      { path: '$.scores', message: 'expected array, got "none"' }
+    ]);
+    expect(validateSchema(null, schema)).toEqual([{ path: '$', message: 'expected object, got null' }]);
+  });
+});
+
+test.describe('parseJsonResponse', () => {
+  test('reads the JSON object out of prose and code fences', () => {
+    expect(parseJsonResponse('Sure!\n```json\n{"summary": "x"}\n```')).toEqual({ value: { summary: 'x' }, issue: null });
+  });
+
+  test('reports a missing or broken object', () => {
+    expect(parseJsonResponse('no json here').issue?.message).toBe('no JSON object found in response');
+    expect(parseJsonResponse('{"summary": }').issue?.message).toMatch(/^invalid JSON/);
+  });
+});
+
+test('the default mock answers every topic and domain validly on the first try', async () => {
+  const provider = createProvider({ provider: 'mock' }) as ScriptedProvider;
+  const domains = [domain('Technology & AI'), domain('Anything goes', { threshold: 0 })];
+  const evaluator = new TopicEvaluator(provider, { domains, retry: { retries: 0 } });
+
+  const results = await evaluator.evaluateBatch([trend('chatgpt down'), trend('dodgers')]);
+
+  expect(provider.prompts).toHaveLength(1);
+  results.forEach(evaluated => {
+    expect(evaluated.validationIssues).toEqual([]);
+    expect(evaluated.domainEvaluations.map(evaluation => [evaluation.domain, evaluation.relevance, evaluation.isMatch]))
+      .toEqual([['Technology & AI', 0, false], ['Anything goes', 0, true]]);
+  });
+});
+
+test('gives up on an OpenAI-compatible server that never answers, as a retryable error', async () => {
+  const server = createServer(() => { /* leaves every request hanging */ }).listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  try {
+    const { port } = server.address() as AddressInfo;
+    const provider = new OpenAICompatibleProvider({ baseUrl: `http://127.0.0.1:${port}/v1`, model: 'llama3.1', timeoutMs: 100 });
+
+    const error = await provider.generate('Summarize').catch(caught => caught);
+    expect((error as Error).name).toBe('TimeoutError');
+    expect(isTransientError(error)).toBe(true);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
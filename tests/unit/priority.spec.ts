@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { UNCLASSIFIED } from '../../src/evaluator';
+import { rankByPriority, scorePriority } from '../../src/priority';
+import { SCRAPED_AT, result } from './helpers';
+
+const HOUR_MS = 3600000;
+const scored = (relevance: number) => [{ domain: 'Technology & AI', relevance, reasoning: '', isMatch: relevance >= 6 }];
+
+test.describe('scorePriority', () => {
+  test('measures recency from when the trend started to the time of scoring', () => {
+    // Scraped as "3 hours ago"
+    const matched = result('nvidia earnings', 'Technology & AI', { domainEvaluations: scored(8) });
+
+    const atScrape = scorePriority(matched, undefined, SCRAPED_AT);
+    const dayLater = scorePriority(matched, undefined, new Date(SCRAPED_AT.getTime() + 24 * HOUR_MS));
+
+    expect(atScrape.factors.recency.input).toBe(3);
+    expect(dayLater.factors.recency.input).toBe(27);
+    expect(dayLater.factors.recency.contribution).toBeLessThan(atScrape.factors.recency.contribution);
+    expect(dayLater.score).toBeLessThan(atScrape.score);
+  });
+
+  test('scores an unclassified trend 0 however big it is', () => {
+    const unmatched = result('dodgers', UNCLASSIFIED, { domainEvaluations: scored(4), confidence: 0.9 });
+
+    const priority = scorePriority(unmatched, undefined, SCRAPED_AT);
+
+    expect(priority.score).toBe(0);
+    expect(priority.factors.volume.input).toBe(100000);
+    expect(Object.values(priority.factors).map(factor => factor.contribution)).toEqual([0, 0, 0, 0, 0]);
+  });
+});
+
+test('rankByPriority puts every match above the unclassified trends', () => {
+  const ranked = rankByPriority([
+    result('dodgers', UNCLASSIFIED, { domainEvaluations: scored(5), confidence: 0.95 }),
+    result('chip export rules', 'Technology & AI', { domainEvaluations: scored(6), confidence: 0.4 }),
+    result('nvidia earnings', 'Technology & AI', { domainEvaluations: scored(9) })
+  ], undefined, SCRAPED_AT);
+
+  expect(ranked.map(entry => entry.trend)).toEqual(['nvidia earnings', 'chip export rules', 'dodgers']);
+});
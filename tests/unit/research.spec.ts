@@ -0,0 +1,69 @@
+import * as path from 'path';
+import { test, expect } from '@playwright/test';
+import { ScriptedProvider } from '../../src/llm-provider';
+import { FixtureFetcher, Researcher, parseTrendsFeed, trendsFeedUrl } from '../../src/research';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'research');
+
+const ANSWER = JSON.stringify({
+  summary: 'Nvidia reported earnings above estimates.',
+  keyFacts: [{ fact: 'Revenue beat analyst estimates', sources: [0] }],
+  entities: [{ name: 'Nvidia', type: 'organization' }],
+  whyNow: 'The quarterly report came out on Wednesday.'
+});
+
+test.describe('Researcher against local fixtures', () => {
+  test('reads the news the trend feed links to and summarizes it with sources', async () => {
+    const fetcher = FixtureFetcher.fromDirectory(FIXTURES);
+    const provider = new ScriptedProvider([ANSWER]);
+    const researcher = new Researcher(provider, { fetcher, retry: { retries: 0 } });
+
+    const research = await researcher.research({ trend: 'Nvidia Earnings', geo: 'US' });
+
+    expect(research?.summary).toBe('Nvidia reported earnings above estimates.');
+    expect(research?.depth).toBe('articles');
+    const [article, unreachable] = research?.sources ?? [];
+    expect(article.source).toBe('Example News');
+    expect(article.text).toContain('driven by demand for its data center chips');
+    // Page chrome and short lines are left out
+    expect(article.text).not.toContain('Sign in');
+    expect(article.text).not.toContain('Short line');
+    // An article without a fixture fails like a 404 and is kept as a headline
+    expect(unreachable.title).toBe("Chip stocks move after Nvidia's report");
+    expect(unreachable.text).toBeNull();
+    expect(unreachable.error).toContain('No fixture');
+    expect(provider.prompts[0]).toContain('[1] Chip stocks move after Nvidia\'s report (Example Markets)\n    (headline only)');
+  });
+
+  test('fetches the trend feed once per geo and skips trends without news', async () => {
+    const fetcher = FixtureFetcher.fromDirectory(FIXTURES);
+    const provider = new ScriptedProvider([ANSWER]);
+    const researcher = new Researcher(provider, { fetcher, depth: 'headlines', retry: { retries: 0 } });
+
+    expect(await researcher.research({ trend: 'dodgers', geo: 'US' })).toBeNull();
+    const research = await researcher.research({ trend: 'nvidia earnings', geo: 'US' });
+
+    expect(fetcher.requested).toEqual([trendsFeedUrl('US')]);
+    expect(provider.prompts).toHaveLength(1);
+    expect(research?.sources.every(source => source.text === null)).toBe(true);
+  });
+
+  test('asks once more when a fact cites a source that is not listed', async () => {
+    const invalid = JSON.stringify({ ...JSON.parse(ANSWER), keyFacts: [{ fact: 'Made up', sources: [5] }] });
+    const provider = new ScriptedProvider([invalid, ANSWER]);
+    const researcher = new Researcher(provider, { fetcher: FixtureFetcher.fromDirectory(FIXTURES), depth: 'headlines', retry: { retries: 0 } });
+
+    const research = await researcher.research({ trend: 'nvidia earnings', geo: 'US' });
+
+    expect(provider.prompts[1]).toContain('$.keyFacts[0].sources: there is no source [5]');
+    expect(research?.keyFacts).toEqual([{ fact: 'Revenue beat analyst estimates', sources: [0] }]);
+  });
+
+  test('parses news items, including CDATA titles, keyed by trend', () => {
+    const feed = parseTrendsFeed(`<rss><channel><item><title>Emmys 2025</title>
+      <ht:news_item><ht:news_item_title><![CDATA[Winners & losers]]></ht:news_item_title>
+      <ht:news_item_url>https://tv.example.com/emmys</ht:news_item_url><ht:news_item_source>TV</ht:news_item_source></ht:news_item>
+      </item></channel></rss>`);
+    expect(feed.get('emmys 2025')).toEqual([{ title: 'Winners & losers', url: 'https://tv.example.com/emmys', source: 'TV' }]);
+  });
+});
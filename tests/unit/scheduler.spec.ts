@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { ScheduledJob } from '../../src/schedule-config';
+import { missedRuns, nextOccurrence } from '../../src/scheduler';
+
+function job(cron: string, timezone: string | null = 'UTC'): ScheduledJob {
+  return { name: 'us-morning', cron, timezone, snapshots: [] };
+}
+
+const hourly = job('0 * * * *');
+const now = new Date('2025-09-20T12:30:00Z');
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+test.describe('missedRuns', () => {
+  test('has nothing to make up for a job that never ran', () => {
+    expect(missedRuns(hourly, null, now, { maxRuns: 5, maxAgeHours: 24 })).toEqual({ runs: [], skipped: 0 });
+  });
+
+  test('makes up for the most recent maxRuns and counts the rest as skipped', () => {
+    const { runs, skipped } = missedRuns(hourly, new Date('2025-09-20T07:00:00Z'), now, { maxRuns: 2, maxAgeHours: 24 });
+    expect(iso(runs)).toEqual(['2025-09-20T11:00:00.000Z', '2025-09-20T12:00:00.000Z']);
+    // 08:00, 09:00 and 10:00 were missed as well
+    expect(skipped).toBe(3);
+  });
+
+  test('never goes back further than maxAgeHours', () => {
+    const { runs, skipped } = missedRuns(hourly, new Date('2025-09-18T00:00:00Z'), now, { maxRuns: 10, maxAgeHours: 3 });
+    expect(iso(runs)).toEqual(['2025-09-20T10:00:00.000Z', '2025-09-20T11:00:00.000Z', '2025-09-20T12:00:00.000Z']);
+    expect(skipped).toBe(0);
+  });
+
+  test('skips everything with maxRuns 0, and nothing is missed right after a run', () => {
+    expect(missedRuns(hourly, new Date('2025-09-20T09:00:00Z'), now, { maxRuns: 0, maxAgeHours: 24 })).toEqual({ runs: [], skipped: 3 });
+    expect(missedRuns(hourly, new Date('2025-09-20T12:00:00Z'), now, { maxRuns: 5, maxAgeHours: 24 })).toEqual({ runs: [], skipped: 0 });
+  });
+
+  test('reads the cron expression in the job\'s time zone', () => {
+    const morning = job('0 9 * * *', 'America/New_York');
+    const { runs } = missedRuns(morning, new Date('2025-09-18T13:00:00Z'), now, { maxRuns: 5, maxAgeHours: 72 });
+    expect(iso(runs)).toEqual(['2025-09-19T13:00:00.000Z']);
+    expect(nextOccurrence(morning, now).toISOString()).toBe('2025-09-20T13:00:00.000Z');
+  });
+});
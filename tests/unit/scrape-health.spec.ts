@@ -0,0 +1,142 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { errors, Page } from 'playwright';
+import { parse } from 'node-html-parser';
+import { loadHtmlSnapshot } from '../../src/html-snapshot';
+import { capture } from '../../src/scraper';
+import { ScrapeHealthError, checkScrapeHealth } from '../../src/scrape-health';
+import { extractTrends } from '../../src/trend-extractor';
+import { tempDir } from './helpers';
+
+const PAGES_DIR = path.join(__dirname, 'fixtures', 'pages');
+
+function checkPage(name: string, options = {}) {
+  const { html, metadata } = loadHtmlSnapshot(path.join(PAGES_DIR, `${name}.html`));
+  const root = parse(html);
+  return checkScrapeHealth(root, extractTrends(root, metadata!), options);
+}
+
+// Serves a saved page to capture; navigation fails with each of `failures` in turn before it loads
+class SavedPage {
+  gotoCalls = 0;
+
+  constructor(private html: string, private failures: Error[] = []) {}
+
+  on(): this {
+    return this;
+  }
+
+  off(): this {
+    return this;
+  }
+
+  async goto(): Promise<null> {
+    const failure = this.failures[this.gotoCalls++];
+    if (failure) {
+      throw failure;
+    }
+    return null;
+  }
+
+  async waitForLoadState(): Promise<void> {}
+
+  async waitForSelector(): Promise<null> {
+    return null;
+  }
+
+  async content(): Promise<string> {
+    return this.html;
+  }
+
+  async screenshot(): Promise<Buffer> {
+    throw new Error('no browser to take a screenshot with');
+  }
+}
+
+const savedPage = (name: string, failures: Error[] = []) =>
+  new SavedPage(loadHtmlSnapshot(path.join(PAGES_DIR, `${name}.html`)).html, failures);
+
+const US_24H = { geo: 'US', hours: 24 as const, category: null, activeOnly: false };
+const NO_WAIT = { sleep: async () => {} };
+
+test.describe('checkScrapeHealth on saved pages', () => {
+  test('passes a page with the trending table', () => {
+    expect(checkPage('us-24h-all')).toEqual({
+      rows: 5,
+      trends: 4,
+      headers: ['Trends', 'Search volume', 'Started', 'Trend breakdown', ''],
+      issues: []
+    });
+  });
+
+  test('flags an empty page', () => {
+    expect(checkPage('us-24h-empty').issues).toEqual([
+      'no rows match tr[role="row"]; the table markup may have changed',
+      'no table header found; expected columns Trends, Search volume, Started, Trend breakdown'
+    ]);
+  });
+
+  test('flags a page whose trends are no longer in a table', () => {
+    const report = checkPage('us-24h-no-table');
+    expect(report.rows).toBe(0);
+    expect(report.issues).toEqual([
+      'no rows match tr[role="row"]; the table markup may have changed',
+      'no table header found; expected columns Trends, Search volume, Started, Trend breakdown'
+    ]);
+  });
+
+  test('flags a page with fewer rows than the snapshot should have', () => {
+    expect(checkPage('us-24h-all', { minRows: 10 }).issues).toEqual(['4 trends read from 5 table rows, expected at least 10']);
+  });
+});
+
+test.describe('capture', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = tempDir('capture');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('retries a navigation timeout and saves the page once it loads', async () => {
+    const page = savedPage('us-24h-all', [new errors.TimeoutError('page.goto: Timeout 30000ms exceeded')]);
+
+    const htmlPath = await capture(page as unknown as Page, US_24H, dir, NO_WAIT);
+
+    expect(page.gotoCalls).toBe(2);
+    expect(loadHtmlSnapshot(htmlPath).metadata).toMatchObject(US_24H);
+    expect(fs.readdirSync(dir)).toEqual([path.basename(htmlPath)]);
+  });
+
+  test('does not retry other navigation errors and keeps the failed page', async () => {
+    const page = savedPage('us-24h-all', [new Error('net::ERR_NAME_NOT_RESOLVED')]);
+
+    await expect(capture(page as unknown as Page, US_24H, dir, NO_WAIT)).rejects.toThrow(/ERR_NAME_NOT_RESOLVED/);
+
+    expect(page.gotoCalls).toBe(1);
+    expect(fs.readdirSync(dir).every(file => file.startsWith('scrape_failure_'))).toBe(true);
+  });
+
+  test('gives up after the last timeout', async () => {
+    const timeout = () => new errors.TimeoutError('page.goto: Timeout 30000ms exceeded');
+    const page = savedPage('us-24h-all', [timeout(), timeout(), timeout(), timeout()]);
+
+    await expect(capture(page as unknown as Page, US_24H, dir, NO_WAIT)).rejects.toThrow(/Failed after 4 attempts/);
+    expect(page.gotoCalls).toBe(4);
+  });
+
+  test('does not save a page that fails the health checks', async () => {
+    const page = savedPage('us-24h-empty');
+
+    const error = await capture(page as unknown as Page, US_24H, dir, NO_WAIT).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ScrapeHealthError);
+    expect((error as ScrapeHealthError).issues[0]).toContain('no rows match');
+    expect((error as ScrapeHealthError).artifacts.map(artifact => path.extname(artifact))).toEqual(['.html', '.log']);
+    expect(fs.readdirSync(dir).every(file => file.startsWith('scrape_failure_'))).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'node-html-parser';
+import { parseCleanedDataCSV } from '../../src/data-cleaner';
+import { loadHtmlSnapshot } from '../../src/html-snapshot';
+import { processSnapshot, replay } from '../../src/scraper';
+import { extractTrends } from '../../src/trend-extractor';
+import { TrendStore } from '../../src/trend-store';
+import { parseTrendCategory } from '../../src/trends-query';
+import { tempDir } from './helpers';
+
+const PAGES_DIR = path.join(__dirname, 'fixtures', 'pages');
+const page = (name: string) => path.join(PAGES_DIR, `${name}.html`);
+
+test.describe('extractTrends on saved pages', () => {
+  test('reads every column of a captured page', () => {
+    const { html, metadata } = loadHtmlSnapshot(page('us-24h-all'));
+    const trends = extractTrends(parse(html), metadata!);
+
+    expect(trends.map(({ trendName, searchVolume, timeAgo, status, growthPercentage }) =>
+      [trendName, searchVolume, timeAgo, status, growthPercentage])).toEqual([
+      ['h1b visa', '200K+', '11h ago', 'active', '1,000%'],
+      ['iowa vs rutgers', '200K+', '19 hours ago', 'ended', '1,000%'],
+      ['cruz azul - juárez', '50K+', '4 hours ago', 'active', '500%'],
+      ['emmys', '2M+', '50 minutes ago', 'active', '1,000%']
+    ]);
+    expect(trends[0].normalized).toEqual({ searchVolumeMin: 200000, startedAt: '2025-09-19T21:00:00.000Z', growthPercent: 1000 });
+  });
+
+  test('reads the related searches without the "more" chip or the trend itself', () => {
+    const { html, metadata } = loadHtmlSnapshot(page('us-24h-all'));
+    const trends = extractTrends(parse(html), metadata!);
+
+    expect(trends.map(trend => trend.relatedSearches)).toEqual([
+      ['h1b visa fee', 'h1b visa trump', 'h-1b'],
+      ['rutgers football', 'iowa football', 'rutgers'],
+      ['cruz azul vs', 'liga mx; jornada 9'],
+      []
+    ]);
+  });
+
+  test("keeps the page's Explore link and builds one for rows without it", () => {
+    const { html, metadata } = loadHtmlSnapshot(page('us-24h-all'));
+    const [withLink, withoutLink] = extractTrends(parse(html), metadata!);
+
+    expect(withLink.exploreLink).toBe('https://trends.google.com/trends/explore?q=h1b%20visa&date=now%201-d&geo=US&hl=en-US');
+    expect(withoutLink.exploreLink).toBe('https://trends.google.com/trends/explore?q=iowa+vs+rutgers&date=now+1-d&geo=US');
+  });
+});
+
+test.describe('replay', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = tempDir('replay');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('writes the CSV of a saved page and records it in the store', async () => {
+    const store = await TrendStore.open(null);
+    const fallback = { geo: 'BE', hours: 4 as const, category: null, activeOnly: false };
+
+    const csvPath = replay(page('us-24h-all'), fallback, store, dir);
+
+    expect(csvPath).toBe(path.join(dir, 'us-24h-all.csv'));
+    const records = parseCleanedDataCSV(fs.readFileSync(csvPath, 'utf8'));
+    expect(records.map(record => record.trend.trendName)).toEqual(['h1b visa', 'iowa vs rutgers', 'cruz azul - juárez', 'emmys']);
+    // The page's own header wins over the command line parameters
+    expect(records[0].snapshot).toMatchObject({ geo: 'US', hours: 24, scrapedAt: '2025-09-20T08:00:00.000Z' });
+    expect(records[1].trend.relatedSearches).toEqual(['rutgers football', 'iowa football', 'rutgers']);
+    expect(store.getTrendHistory('emmys', 'US')[0].observations.map(observation => observation.searchVolumeMin)).toEqual([2000000]);
+    store.close();
+  });
+
+  test('uses the command line parameters and file time for a page saved from the browser', () => {
+    const fallback = { geo: 'BE', hours: 4 as const, category: parseTrendCategory('technology'), activeOnly: false };
+
+    const csvPath = replay(page('be-4h-technology'), fallback, undefined, dir);
+
+    const records = parseCleanedDataCSV(fs.readFileSync(csvPath, 'utf8'));
+    expect(records[0].snapshot).toEqual({ ...fallback, scrapedAt: fs.statSync(page('be-4h-technology')).mtime.toISOString() });
+    expect(records.map(({ trend }) => [trend.trendName, trend.searchVolume, trend.status, trend.relatedSearches])).toEqual([
+      ['chatgpt down', '10K+', 'active', ['openai status', 'chatgpt']],
+      ['iphone 17', '5K+', 'ended', ['iphone 17 pro']]
+    ]);
+  });
+
+  test('gives the same rows as processing the page directly', () => {
+    const { html, metadata } = loadHtmlSnapshot(page('us-24h-all'));
+    const direct = processSnapshot(html, metadata!, path.join(dir, 'direct.csv'));
+    const replayed = replay(page('us-24h-all'), { geo: 'US', hours: 24, category: null, activeOnly: false }, undefined, dir);
+
+    expect(fs.readFileSync(replayed, 'utf8')).toBe(fs.readFileSync(direct, 'utf8'));
+  });
+});
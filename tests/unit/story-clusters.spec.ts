@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { CleanedTrendRecord } from '../../src/data-cleaner';
+import { clusterTrends } from '../../src/story-clusters';
+import { trend } from './helpers';
+
+function records(...trends: [string, string[]?][]): CleanedTrendRecord[] {
+  return trends.map(([name, relatedSearches = []]) => ({ trend: trend(name, { relatedSearches }), snapshot: null }));
+}
+
+const stories = (input: CleanedTrendRecord[], options = {}) =>
+  clusterTrends(input, options).map(cluster => cluster.members.map(member => member.trend.trendName));
+
+test.describe('clusterTrends', () => {
+  test('does not link two matches on one shared word', () => {
+    expect(stories(records(['india vs oman'], ['india vs pakistan']))).toEqual([['india vs oman'], ['india vs pakistan']]);
+  });
+
+  test('links a shared one-word entity when a related search backs it up', () => {
+    const [story] = clusterTrends(records(['iowa vs rutgers', ['big ten']], ['rutgers football', ['big ten']]));
+    expect(story.members).toHaveLength(2);
+    expect(story.links).toEqual([{ from: 'iowa vs rutgers', to: 'rutgers football', reason: 'entity', detail: 'rutgers' }]);
+  });
+
+  test('links a shared name of several words on its own', () => {
+    const [story] = clusterTrends(records(['cruz azul vs juárez'], ['cruz azul - pumas']));
+    expect(story.links.map(link => [link.reason, link.detail])).toEqual([['entity', 'cruz azul']]);
+  });
+
+  test('stops a chain of links at the maximum story size', () => {
+    // Each trend names the next one in its related searches
+    const names = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf'];
+    const input = records(...names.map((name, index): [string, string[]] => [name, names[index + 1] ? [names[index + 1]] : []]));
+
+    const sizes = stories(input, { maxClusterSize: 3 }).map(story => story.length);
+    expect(sizes).toEqual([3, 3, 1]);
+    expect(stories(input).map(story => story.length)).toEqual([5, 2]);
+  });
+
+  test('fills a capped story with its strongest links first', () => {
+    const input = records(
+      ['taylor swift album', ['the life of a showgirl']],
+      ['taylor swift'],
+      ['the life of a showgirl'],
+      ['taylor swift tour', ['the life of a showgirl']]
+    );
+    const [story] = clusterTrends(input, { maxClusterSize: 3 });
+    expect(story.links.map(link => link.reason)).toEqual(['related-search', 'related-search']);
+    expect(story.members.map(member => member.trend.trendName).sort()).toEqual(['taylor swift album', 'taylor swift tour', 'the life of a showgirl']);
+  });
+});
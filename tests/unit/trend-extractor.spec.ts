@@ -0,0 +1,24 @@
+import { test, expect } from '@playwright/test';
+import { buildExploreLink } from '../../src/trend-extractor';
+import { parseTrendCategory } from '../../src/trends-query';
+import { SCRAPED_AT } from './helpers';
+
+const exploreParams = (link: string) => Object.fromEntries(new URL(link).searchParams);
+
+test.describe('buildExploreLink', () => {
+  test('leaves out the category, which Explore numbers differently', () => {
+    const link = buildExploreLink('nvidia earnings', { geo: 'US', hours: 24, category: parseTrendCategory('technology'), activeOnly: false });
+    expect(exploreParams(link)).toEqual({ q: 'nvidia earnings', date: 'now 1-d', geo: 'US' });
+  });
+
+  test('covers the 48 hours before the scrape for a 48h window', () => {
+    const link = buildExploreLink('h1b visa', { geo: 'US', hours: 48, category: null, activeOnly: false, scrapedAt: SCRAPED_AT.toISOString() });
+    expect(exploreParams(link).date).toBe('2025-09-18T08 2025-09-20T08');
+  });
+
+  test('uses the preset ranges of the other windows', () => {
+    const dates = ([4, 24, 168] as const).map(hours =>
+      exploreParams(buildExploreLink('dodgers', { geo: 'US', hours, category: null, activeOnly: false })).date);
+    expect(dates).toEqual(['now 4-H', 'now 1-d', 'now 7-d']);
+  });
+});
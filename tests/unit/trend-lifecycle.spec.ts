@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { LifecycleObservation, TrendLifecycle, classifyLifecycle, computeSnapshotLifecycles } from '../../src/trend-lifecycle';
+import { TrendStore } from '../../src/trend-store';
+import { SnapshotMetadata } from '../../src/trends-query';
+import { SCRAPED_AT, trend } from './helpers';
+
+const FOUR_HOURS_LATER = new Date(SCRAPED_AT.getTime() + 4 * 3600000).toISOString();
+
+// The earlier observation of a trend: 100K+ at 500%, active, started two hours before the scrape
+function earlier(overrides: Partial<LifecycleObservation> = {}): LifecycleObservation {
+  return {
+    scrapedAt: SCRAPED_AT.toISOString(),
+    searchVolumeMin: 100000,
+    growthPercent: 500,
+    status: 'active',
+    startedAt: '2025-09-20T06:00:00.000Z',
+    ...overrides
+  };
+}
+
+// The same trend four hours later, unchanged unless overridden
+const later = (overrides: Partial<LifecycleObservation> = {}) => earlier({ scrapedAt: FOUR_HOURS_LATER, ...overrides });
+
+test.describe('classifyLifecycle', () => {
+  const cases: [string, LifecycleObservation | null, LifecycleObservation | null, TrendLifecycle][] = [
+    ['new: first sighting, velocity since the trend started', null, earlier(),
+      { stage: 'new', velocity: 50000, previousScrapedAt: null }],
+    ['new: no start time, no velocity', null, earlier({ startedAt: null }),
+      { stage: 'new', velocity: null, previousScrapedAt: null }],
+    ['rising: volume bucket went up', earlier(), later({ searchVolumeMin: 500000 }),
+      { stage: 'rising', velocity: 100000, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['rising: same bucket, growth went up', earlier(), later({ growthPercent: 1000 }),
+      { stage: 'rising', velocity: 0, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['peaking: same bucket and growth, still active', earlier(), later(),
+      { stage: 'peaking', velocity: 0, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['peaking: volume went up but the trend ended', earlier(), later({ searchVolumeMin: 200000, status: 'ended' }),
+      { stage: 'peaking', velocity: 25000, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['fading: volume bucket went down', earlier(), later({ searchVolumeMin: 50000, growthPercent: 1000 }),
+      { stage: 'fading', velocity: -12500, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['fading: same bucket and the trend ended', earlier(), later({ status: 'ended', growthPercent: 1000 }),
+      { stage: 'fading', velocity: 0, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['peaking: volume unreadable, growth unchanged', earlier({ searchVolumeMin: null }), later(),
+      { stage: 'peaking', velocity: null, previousScrapedAt: SCRAPED_AT.toISOString() }],
+    ['gone: missing from the current snapshot', earlier(), null,
+      { stage: 'gone', velocity: null, previousScrapedAt: SCRAPED_AT.toISOString() }]
+  ];
+
+  for (const [name, previous, current, expected] of cases) {
+    test(name, () => {
+      expect(classifyLifecycle(previous, current)).toEqual(expected);
+    });
+  }
+});
+
+test('computeSnapshotLifecycles compares with the previous snapshot of the same parameters', async () => {
+  const store = await TrendStore.open(null);
+  const snapshot = (scrapedAt: string, geo = 'US'): SnapshotMetadata => ({ geo, hours: 24, category: null, activeOnly: false, scrapedAt });
+  store.recordSnapshot(snapshot(SCRAPED_AT.toISOString()), [trend('nvidia earnings'), trend('emmys')]);
+  store.recordSnapshot(snapshot(SCRAPED_AT.toISOString(), 'BE'), [trend('ryder cup')]);
+
+  const { lifecycles, gone } = computeSnapshotLifecycles(store, snapshot(FOUR_HOURS_LATER), [
+    trend('Nvidia Earnings', { searchVolume: '200K+' }),
+    trend('ryder cup')
+  ]);
+
+  expect(Object.fromEntries([...lifecycles].map(([key, lifecycle]) => [key, lifecycle.stage]))).toEqual({
+    'nvidia earnings': 'rising',
+    // Seen in BE only, which is another snapshot series
+    'ryder cup': 'new'
+  });
+  expect(gone).toEqual(['emmys']);
+  store.close();
+});
@@ -0,0 +1,171 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TrendStore } from '../../src/trend-store';
+import { SnapshotMetadata } from '../../src/trends-query';
+import { SCRAPED_AT, tempDir, trend } from './helpers';
+
+const HOUR_MS = 3600000;
+const snapshot = (geo: string, hoursLater = 0): SnapshotMetadata =>
+  ({ geo, hours: 24, category: null, activeOnly: false, scrapedAt: new Date(SCRAPED_AT.getTime() + hoursLater * HOUR_MS).toISOString() });
+const evaluation = (trendName: string, classification: string, relevance = 8) =>
+  ({ trend: trendName, classification, confidence: relevance / 10, reasoning: '', domainEvaluations: [{ domain: classification, relevance }] });
+const feedback = (trendName: string) => ({ trend: trendName, domain: 'Sports', verdict: 'relevant' as const, relevance: 7, note: null, source: 'the command line' });
+
+test.describe('TrendStore saves of the same file', () => {
+  let dir: string;
+  let dbPath: string;
+
+  test.beforeEach(() => {
+    dir = tempDir('store');
+    dbPath = path.join(dir, 'trends.db');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps the writes of a store that saved in between', async () => {
+    // The daemon's pipeline holds its copy while a reader records feedback
+    const pipeline = await TrendStore.open(dbPath);
+    const cli = await TrendStore.open(dbPath);
+    cli.recordFeedback(feedback('india vs oman'));
+    cli.close();
+    pipeline.recordFeedback(feedback('nvidia earnings'));
+    pipeline.close();
+
+    const store = await TrendStore.open(dbPath);
+    expect(store.getFeedback().map(entry => entry.trend).sort()).toEqual(['india vs oman', 'nvidia earnings']);
+    expect(fs.existsSync(`${dbPath}.lock`)).toBe(false);
+    store.close();
+  });
+
+  test('links a replayed evaluation to its own snapshot when the ids moved', async () => {
+    const pipeline = await TrendStore.open(dbPath);
+    const other = await TrendStore.open(dbPath);
+    const snapshotId = pipeline.recordSnapshot(snapshot('US'), [trend('nvidia earnings')]);
+    pipeline.recordEvaluation({ trend: 'nvidia earnings', classification: 'Technology', confidence: 0.9, reasoning: '', domainEvaluations: [] }, 'US', snapshotId);
+
+    // Takes the same snapshot id for another geo first
+    expect(other.recordSnapshot(snapshot('BE'), [trend('rode duivels')])).toBe(snapshotId);
+    other.close();
+    pipeline.close();
+
+    const store = await TrendStore.open(dbPath);
+    const [history] = store.getTrendHistory('nvidia earnings', 'US');
+    expect(history.classifications).toHaveLength(1);
+    expect(history.classifications[0].snapshotId).toBe(history.observations[0].snapshotId);
+    expect(store.getTrendHistory('rode duivels', 'BE')).toHaveLength(1);
+    store.close();
+  });
+
+  test('finishes a scheduled run recorded before another save', async () => {
+    const scheduler = await TrendStore.open(dbPath);
+    const runId = scheduler.recordScheduledRun({ job: 'us-morning', scheduledFor: SCRAPED_AT.toISOString(), threadId: 'us-morning-1', catchUp: false });
+    scheduler.close();
+
+    const cli = await TrendStore.open(dbPath);
+    const finisher = await TrendStore.open(dbPath);
+    cli.recordFeedback(feedback('india vs oman'));
+    cli.close();
+    finisher.finishScheduledRun(runId, 'succeeded');
+    finisher.close();
+
+    const store = await TrendStore.open(dbPath);
+    expect(store.getScheduledRuns().map(run => [run.id, run.status])).toEqual([[runId, 'succeeded']]);
+    expect(store.getFeedback()).toHaveLength(1);
+    store.close();
+  });
+});
+
+test.describe('TrendStore history', () => {
+  let store: TrendStore;
+
+  test.beforeEach(async () => {
+    store = await TrendStore.open(null);
+  });
+
+  test.afterEach(() => {
+    store.close();
+  });
+
+  test('follows a trend across snapshots with its first and last sighting and peak volume', () => {
+    store.recordSnapshot(snapshot('US'), [trend('nvidia earnings', { searchVolume: '100K+' })]);
+    store.recordSnapshot(snapshot('US', 4), [trend('nvidia earnings', { searchVolume: '500K+' })]);
+    store.recordSnapshot(snapshot('US', 8), [trend('nvidia earnings', { searchVolume: '200K+' })]);
+
+    const [history] = store.getTrendHistory('nvidia earnings');
+
+    expect(history.observations.map(observation => observation.searchVolume)).toEqual(['100K+', '500K+', '200K+']);
+    expect(history.firstSeen).toBe('2025-09-20T08:00:00.000Z');
+    expect(history.lastSeen).toBe('2025-09-20T16:00:00.000Z');
+    expect([history.peakVolumeMin, history.peakSearchVolume]).toEqual([500000, '500K+']);
+  });
+
+  test('keeps one entry per geo unless a geo is asked for', () => {
+    store.recordSnapshot(snapshot('US'), [trend('ryder cup')]);
+    store.recordSnapshot(snapshot('BE'), [trend('ryder cup')]);
+
+    expect(store.getTrendHistory('ryder cup').map(history => history.geo)).toEqual(['BE', 'US']);
+    expect(store.getTrendHistory('ryder cup', 'US').map(history => history.geo)).toEqual(['US']);
+    expect(store.getTrendHistory('ryder cup', 'FR')).toEqual([]);
+  });
+
+  test('treats spellings that differ in case and spacing as the same trend', () => {
+    store.recordSnapshot(snapshot('US'), [trend('Nvidia Earnings')]);
+    store.recordSnapshot(snapshot('US', 4), [trend('nvidia  earnings ')]);
+
+    const histories = store.getTrendHistory('NVIDIA earnings');
+
+    expect(histories).toHaveLength(1);
+    expect(histories[0].trendKey).toBe('nvidia earnings');
+    // Named the way it was first seen
+    expect(histories[0].trendName).toBe('Nvidia Earnings');
+    expect(histories[0].observations).toHaveLength(2);
+  });
+
+  test('does not count a replayed snapshot twice', () => {
+    store.recordSnapshot(snapshot('US'), [trend('nvidia earnings', { searchVolume: '100K+' })]);
+    store.recordSnapshot(snapshot('US'), [trend('nvidia earnings', { searchVolume: '200K+' })]);
+
+    const [history] = store.getTrendHistory('nvidia earnings');
+    expect(history.observations.map(observation => observation.searchVolume)).toEqual(['200K+']);
+  });
+
+  test('links each classification to the snapshot it was made from', () => {
+    const first = store.recordSnapshot(snapshot('US'), [trend('nvidia earnings')]);
+    const second = store.recordSnapshot(snapshot('US', 4), [trend('nvidia earnings')]);
+    store.recordEvaluation(evaluation('nvidia earnings', 'Technology & AI'), 'US', first, '2025-09-20T08:05:00.000Z');
+    store.recordEvaluation(evaluation('nvidia earnings', 'Finance'), 'US', second, '2025-09-20T12:05:00.000Z');
+    store.recordEvaluation(evaluation('nvidia earnings', 'Finance'), 'US', null, '2025-09-20T13:00:00.000Z');
+
+    const [history] = store.getTrendHistory('nvidia earnings', 'US');
+
+    expect(history.classifications.map(entry => [entry.classification, entry.snapshotId])).toEqual([
+      ['Technology & AI', first],
+      ['Finance', second],
+      ['Finance', null]
+    ]);
+    expect(history.observations.map(observation => observation.snapshotId)).toEqual([first, second]);
+  });
+
+  test('gives the latest evaluation of a trend in any geo', () => {
+    store.recordEvaluation(evaluation('Ryder Cup', 'Sports', 9), 'US', null, '2025-09-20T08:00:00.000Z');
+    store.recordEvaluation(evaluation('ryder cup', 'Golf', 7), 'BE', null, '2025-09-20T09:00:00.000Z');
+    store.recordEvaluation(evaluation('ryder cup', 'Sports', 6), 'US', null, '2025-09-20T07:00:00.000Z');
+
+    expect(store.getLatestEvaluation('RYDER CUP')).toEqual({
+      evaluatedAt: '2025-09-20T09:00:00.000Z',
+      classification: 'Golf',
+      domainEvaluations: [{ domain: 'Golf', relevance: 7 }]
+    });
+    expect(store.getLatestEvaluation('solar eclipse')).toBeNull();
+  });
+
+  test('breaks a tie between evaluations made at the same time by the later one', () => {
+    store.recordEvaluation(evaluation('ryder cup', 'Sports'), 'US', null, SCRAPED_AT.toISOString());
+    store.recordEvaluation(evaluation('ryder cup', 'Golf'), 'US', null, SCRAPED_AT.toISOString());
+
+    expect(store.getLatestEvaluation('ryder cup')?.classification).toBe('Golf');
+  });
+});